@@ -1,76 +1,560 @@
-import React, { useState } from 'react';
-import { BookOpen, BrainCircuit, ChevronRight, GraduationCap, LayoutDashboard, Loader2, Sparkles } from 'lucide-react';
+import React, { useEffect, useRef, useState } from 'react';
+import { AlertTriangle, AudioLines, BookOpen, CheckCircle2, Headphones, Layers, BrainCircuit, ChevronRight, GraduationCap, LayoutDashboard, Loader2, Sparkles } from 'lucide-react';
 import { LiveSession } from './components/LiveSession';
-import { generateTrainingPlan } from './services/geminiService';
-import { AppMode, LiveSessionConfig, Scenario, UserPlan } from './types';
+import { PlanDiffView } from './components/PlanDiffView';
+import { FlashcardReview } from './components/FlashcardReview';
+import { PracticeReportView } from './components/PracticeReportView';
+import { PronunciationDrill } from './components/PronunciationDrill';
+import { ProgressView } from './components/ProgressView';
+import { ScenarioLibrary } from './components/ScenarioLibrary';
+import { SessionMetricsCard } from './components/SessionMetricsCard';
+import { LearnersView } from './components/LearnersView';
+import { ListeningPractice } from './components/ListeningPractice';
+import { SettingsView } from './components/SettingsView';
+import { TextChatSession } from './components/TextChatSession';
+import { SkillBreakdown } from './components/SkillBreakdown';
+import { ConfigurationError, ResponseValidationError } from './services/errors';
+import { extractFlashcards, generateObjectiveSteps, generatePracticeReport, generateTrainingPlan } from './services/geminiService';
+import { getLearnerStore, LearnerStore } from './services/learnerStore';
+import { createObjectiveTracker, ObjectiveTracker } from './services/objectiveTracker';
+import { canEvolvePlan, evolvePlan } from './services/planEvolution';
+import { getProfileStore } from './services/profileStore';
+import { getAiProvider } from './services/providers';
+import { buildAssessmentPrompt, buildPracticePrompt } from './services/prompts';
+import { DASHBOARD_ROUTE, getRouter, Route, routePath } from './services/router';
+import { getPracticeTools } from './services/tutorTools';
+import { toCefrLevel } from './services/validation';
+import { createId } from './utils/id';
+import { appendRecording, RECORDING_SAMPLE_RATE } from './utils/sessionRecorder';
+import { appendTranscript, measureLearnerSpeech } from './utils/transcript';
+import { mergeSessionMetrics } from './utils/sessionMetrics';
+import { encodeWav } from './utils/wav';
+import { AppMode, ASSESSMENT_LENGTHS_MIN, CEFR_LABELS, DEFAULT_SETTINGS, LearnerProfile, LearnerSettings, LiveSessionConfig, ObjectiveProgress, ObjectiveStep, PlanChange, PlanEvolution, PracticeReport, RecordedAudio, Scenario, SessionMedium, SessionMetrics, StoredPlan, Transcript, UserPlan } from './types';
 
-const App: React.FC = () => {
+// Below this, a plan would be guesswork, so the learner is offered to keep talking
+const MIN_ASSESSMENT_WORDS = 40;
+const MIN_ASSESSMENT_TURNS = 3;
+
+const LEAVE_SESSION_WARNING = "Leave this session? The conversation so far won't be saved.";
+
+const router = getRouter();
+
+interface CapturedSession {
+  transcript: Transcript;
+  recording?: RecordedAudio;
+  metrics?: SessionMetrics;
+}
+
+const joinMetrics = (first?: SessionMetrics, next?: SessionMetrics) =>
+  first && next ? mergeSessionMetrics(first, next) : first ?? next;
+
+// Joins a continued assessment onto its first part, keeping any recording aligned with the transcript
+const joinSessions = async (first: CapturedSession, next: CapturedSession): Promise<CapturedSession> => {
+  const transcript = appendTranscript(first.transcript, next.transcript);
+  const metrics = joinMetrics(first.metrics, next.metrics);
+  if (!next.recording) return { transcript, recording: first.recording, metrics };
+  const start = first.recording ?? { wav: new Blob([encodeWav(new Int16Array(0), RECORDING_SAMPLE_RATE)]), durationMs: 0 };
+  try {
+    const offsetMs = next.transcript.startedAt - first.transcript.startedAt;
+    return { transcript, recording: await appendRecording(start, next.recording, offsetMs), metrics };
+  } catch (error) {
+    console.error("Failed to join recordings", error);
+    return { transcript, recording: first.recording, metrics };
+  }
+};
+
+interface LearnerWorkspaceProps {
+  profile: LearnerProfile;
+  store: LearnerStore;
+  profiles: LearnerProfile[];
+  onSwitchProfile: (profile: LearnerProfile) => void;
+  onCreateProfile: (name: string) => Promise<void>;
+  onDeleteProfile: (profile: LearnerProfile) => Promise<void>;
+}
+
+// Everything for the active learner; remounted on switch so no state carries over between learners
+const LearnerWorkspace: React.FC<LearnerWorkspaceProps> = ({ profile, store, profiles, onSwitchProfile, onCreateProfile, onDeleteProfile }) => {
   const [mode, setMode] = useState<AppMode>(AppMode.IDLE);
   const [userPlan, setUserPlan] = useState<UserPlan | null>(null);
   const [currentScenario, setCurrentScenario] = useState<Scenario | null>(null);
   const [isGeneratingPlan, setIsGeneratingPlan] = useState(false);
+  const [isHydrating, setIsHydrating] = useState(true);
+  const [practiceReport, setPracticeReport] = useState<PracticeReport | null>(null);
+  const [dueCardCount, setDueCardCount] = useState(0);
+  const [planError, setPlanError] = useState<string | null>(null);
+  const [pendingAssessment, setPendingAssessment] = useState<{ transcript: Transcript; sessionId?: string } | null>(null);
+  const [practiceReports, setPracticeReports] = useState<PracticeReport[]>([]);
+  const [planEvolution, setPlanEvolution] = useState<PlanEvolution | null>(null);
+  const [planUpdateError, setPlanUpdateError] = useState<string | null>(null);
+  const [objectives, setObjectives] = useState<{ steps: ObjectiveStep[]; progress: ObjectiveProgress } | null>(null);
+  const [settings, setSettings] = useState<LearnerSettings>(DEFAULT_SETTINGS);
+  const [sessionMetrics, setSessionMetrics] = useState<SessionMetrics | null>(null); // Of the session just finished
+  const [sessionMedium, setSessionMedium] = useState<SessionMedium>('voice');
+  const [assessmentMinutes, setAssessmentMinutes] = useState(DEFAULT_SETTINGS.assessmentMinutes);
+  const [shortAssessment, setShortAssessment] = useState<CapturedSession | null>(null);
+  const sessionStartedAtRef = useRef<number>(0);
+  const assessmentSoFarRef = useRef<CapturedSession | null>(null); // Earlier part of a continued assessment
+  const planRecordRef = useRef<StoredPlan | null>(null);
+  const [planCreatedAt, setPlanCreatedAt] = useState(0); // Practice before this belongs to an earlier plan
+  const trackerRef = useRef<ObjectiveTracker | null>(null);
+  const objectiveRunRef = useRef(0); // Bumped per practice session so late step generation is ignored
 
-  // Assessment Prompt
-  const ASSESSMENT_CONFIG: LiveSessionConfig = {
-    systemInstruction: `You are a friendly and professional English language examiner. 
-    Your goal is to assess the user's English proficiency level (CEFR A1-C2) through a casual 2-minute conversation.
-    Start by introducing yourself as "Sarah, your placement tutor" and ask a simple ice-breaker question (e.g., "Tell me a little about yourself").
-    Gradually increase the complexity of your questions based on their responses. 
-    Ask about their hobbies, work, or opinions on simple topics.
-    Be encouraging but observant of grammar, vocabulary, and fluency.
-    Keep your responses concise to allow the user to speak more.`,
-    voiceName: 'Kore'
+  // Rehydrate the dashboard from the most recent stored plan
+  useEffect(() => {
+    const loadPlan = store.getLatestPlan()
+      .then((stored) => {
+        if (stored) {
+          planRecordRef.current = stored;
+          setUserPlan(stored.plan);
+          setPlanCreatedAt(stored.createdAt);
+        }
+      })
+      .catch((error) => console.error("Failed to load saved plan", error));
+    const loadSettings = store.getSettings()
+      .then((loaded) => {
+        setSettings(loaded);
+        setAssessmentMinutes(loaded.assessmentMinutes);
+      })
+      .catch((error) => console.error("Failed to load settings", error));
+    // Pages opened from the URL may need either, e.g. a scenario from the plan
+    Promise.all([loadPlan, loadSettings]).finally(() => setIsHydrating(false));
+  }, []);
+
+  const saveSettings = async (updated: LearnerSettings) => {
+    const saved = await store.saveSettings(updated);
+    setSettings(saved);
+    setAssessmentMinutes(saved.assessmentMinutes);
   };
 
+  // Assessment Prompt
+  const getAssessmentConfig = (soFar: Transcript | null): LiveSessionConfig => ({
+    kind: 'ASSESSMENT',
+    systemInstruction: buildAssessmentPrompt({ minutes: assessmentMinutes, soFar, settings }),
+    voiceName: settings.examinerVoice,
+    durationMs: assessmentMinutes * 60 * 1000,
+  });
+
   // Helper to create Practice Prompt
   const getPracticeConfig = (scenario: Scenario): LiveSessionConfig => ({
-    systemInstruction: `You are a roleplay partner for an English learner.
-    Scenario: ${scenario.title}
-    Context: ${scenario.description}
-    Your Goal: ${scenario.objective}
-    Role: You are acting as a character in this scenario. Do not break character unless the user is completely stuck.
-    Level Adjustment: The user is at a ${userPlan?.level || 'Intermediate'} level. Adjust your vocabulary speed accordingly.
-    Correction Policy: Gently correct major grammatical errors by rephrasing what the user said correctly in your response, but prioritize conversation flow.
-    Start the roleplay immediately with an opening line fitting the scenario.`,
-    voiceName: 'Puck' // Different voice for variety
+    kind: 'PRACTICE',
+    systemInstruction: buildPracticePrompt({ scenario, level: userPlan?.level || 'Intermediate', settings }),
+    voiceName: scenario.voiceName || settings.tutorVoice
   });
 
-  const handleSessionEnd = async (transcript: string) => {
+  // Refresh the review badge whenever the dashboard is shown
+  useEffect(() => {
+    if (mode !== AppMode.IDLE) return;
+    store.getDueFlashcards()
+      .then((cards) => setDueCardCount(cards.length))
+      .catch((error) => console.error("Failed to load flashcards", error));
+    store.listReports()
+      .then(setPracticeReports)
+      .catch((error) => console.error("Failed to load reports", error));
+  }, [mode]);
+
+  // Runs in the background; a failure here shouldn't interrupt the learner
+  const collectFlashcards = (transcript: Transcript, sessionId?: string, scenario?: Scenario) => {
+    extractFlashcards(transcript, { sessionId, scenario })
+      .then((cards) => store.addFlashcards(cards))
+      .catch((error) => console.error("Failed to extract flashcards", error));
+  };
+
+  const saveSession = async ({ transcript, recording, metrics }: CapturedSession, scenario?: Scenario) => {
+    try {
+      const recordingId = recording ? createId() : undefined;
+      const session = await store.saveSession({
+        kind: scenario ? 'PRACTICE' : 'ASSESSMENT',
+        scenarioId: scenario?.id,
+        scenarioTitle: scenario?.title,
+        transcript,
+        startedAt: sessionStartedAtRef.current,
+        endedAt: Date.now(),
+        recordingId,
+        medium: sessionMedium,
+        metrics,
+      });
+      if (recording) {
+        store.saveRecording({ id: recordingId, sessionId: session.id, createdAt: Date.now(), ...recording })
+          .catch((error) => console.error("Failed to save recording", error));
+      }
+      return session;
+    } catch (error) {
+      console.error("Failed to save session", error);
+      return null;
+    }
+  };
+
+  const applyPlan = (plan: UserPlan, sourceSessionId?: string, changes?: PlanChange[]) => {
+    setUserPlan(plan);
+    store.savePlan(plan, sourceSessionId, changes)
+      .then((stored) => {
+        planRecordRef.current = stored;
+        setPlanCreatedAt(stored.createdAt);
+      })
+      .catch((error) => console.error("Failed to save plan", error));
+  };
+
+  // Update one scenario in the current plan (or the custom library) and persist it in place
+  const updateScenario = (scenarioId: string, update: (scenario: Scenario) => Scenario) => {
+    const record = planRecordRef.current;
+    if (!record?.plan.scenarios.some(s => s.id === scenarioId)) {
+      store.listCustomScenarios()
+        .then((scenarios) => {
+          const custom = scenarios.find(s => s.id === scenarioId);
+          return custom && store.saveCustomScenario(update(custom));
+        })
+        .catch((error) => console.error("Failed to update scenario", error));
+      return;
+    }
+    const plan: UserPlan = {
+      ...record.plan,
+      scenarios: record.plan.scenarios.map(s => s.id === scenarioId ? update(s) : s),
+    };
+    planRecordRef.current = { ...record, plan };
+    setUserPlan(plan);
+    store.updatePlan(planRecordRef.current).catch((error) => console.error("Failed to update plan", error));
+  };
+
+  const markScenarioCompleted = (scenarioId: string, progress: ObjectiveProgress, sessionId?: string) => {
+    updateScenario(scenarioId, (scenario) => ({
+      ...scenario,
+      completion: { completedAt: Date.now(), score: progress.score, sessionId },
+    }));
+  };
+
+  // Load (or generate once) the scenario's checklist and start tracking it
+  const prepareObjectives = async (scenario: Scenario) => {
+    const run = ++objectiveRunRef.current;
+    let steps = scenario.steps;
+    if (!steps?.length) {
+      try {
+        steps = await generateObjectiveSteps(scenario);
+      } catch (error) {
+        console.error("Failed to generate objective steps", error);
+        return;
+      }
+      updateScenario(scenario.id, (s) => ({ ...s, steps }));
+    }
+    if (run !== objectiveRunRef.current) return;
+
+    trackerRef.current = createObjectiveTracker({
+      scenario,
+      steps,
+      onProgress: (progress) => setObjectives({ steps, progress }),
+      onComplete: (progress) => markScenarioCompleted(scenario.id, progress),
+    });
+    setObjectives({ steps, progress: trackerRef.current.progress });
+  };
+
+  // Final check against the full transcript, so the completion can point at the saved session
+  const finishObjectives = async (transcript: Transcript, scenario: Scenario, sessionId?: string) => {
+    const tracker = trackerRef.current;
+    trackerRef.current = null;
+    objectiveRunRef.current++;
+    if (!tracker) return;
+    await tracker.checkTranscript(transcript, true);
+    if (tracker.isComplete) markScenarioCompleted(scenario.id, tracker.progress, sessionId);
+    tracker.dispose();
+  };
+
+  const analyzeAssessment = async (transcript: Transcript, sessionId?: string) => {
+    setMode(AppMode.GENERATING_PLAN);
+    setIsGeneratingPlan(true);
+    setPlanError(null);
+    try {
+      const plan = await generateTrainingPlan(transcript);
+      applyPlan(plan, sessionId);
+      setPendingAssessment(null);
+      router.navigate(DASHBOARD_ROUTE, { replace: true });
+    } catch (error) {
+      console.error(error);
+      setPendingAssessment({ transcript, sessionId });
+      setPlanError(error instanceof ResponseValidationError
+        ? "The tutor's analysis came back incomplete, even after a retry."
+        : "We couldn't reach the tutor to analyze your conversation.");
+    } finally {
+      setIsGeneratingPlan(false);
+    }
+  };
+
+  const handleSessionEnd = async (transcript: Transcript, recording?: RecordedAudio, metrics?: SessionMetrics) => {
+    // The session ended on its own terms, so nothing is lost by moving on
+    router.setGuard(null);
     if (mode === AppMode.ASSESSMENT) {
-      setMode(AppMode.GENERATING_PLAN);
-      setIsGeneratingPlan(true);
+      const soFar = assessmentSoFarRef.current;
+      assessmentSoFarRef.current = null;
+      const captured = soFar ? await joinSessions(soFar, { transcript, recording, metrics }) : { transcript, recording, metrics };
+      const { words, turns } = measureLearnerSpeech(captured.transcript);
+      if (words < MIN_ASSESSMENT_WORDS || turns < MIN_ASSESSMENT_TURNS) {
+        setShortAssessment(captured);
+        setMode(AppMode.ASSESSMENT_INCOMPLETE);
+        return;
+      }
+      await finishAssessment(captured);
+    } else if (currentScenario) {
+      // End of practice session: analyse it before returning to the dashboard
+      const sessionRoute = router.route;
+      setMode(AppMode.GENERATING_REPORT);
+      setPracticeReport(null);
+      setSessionMetrics(metrics ?? null);
+      const session = await saveSession({ transcript, recording, metrics }, currentScenario);
+      collectFlashcards(transcript, session?.id, currentScenario);
+      finishObjectives(transcript, currentScenario, session?.id);
       try {
-        const plan = await generateTrainingPlan(transcript);
-        setUserPlan(plan);
-        setMode(AppMode.IDLE);
+        const report = await generatePracticeReport(transcript, currentScenario, session?.id);
+        setPracticeReport(report);
+        store.saveReport(report).catch((error) => console.error("Failed to save report", error));
       } catch (error) {
         console.error(error);
-        // Fallback for demo if API fails or transcript is empty
-        setUserPlan({
-          level: "B1 (Intermediate)",
-          feedback: "You have good basic vocabulary but struggle with complex sentence structures. Focus on past tense consistency.",
-          scenarios: [
-            { id: "1", title: "Ordering Coffee", description: "You are at a busy cafe in London.", difficulty: "Beginner", objective: "Order a customized drink and ask for the price." },
-            { id: "2", title: "Job Interview", description: "You are interviewing for a marketing role.", difficulty: "Intermediate", objective: "Describe your strengths and previous experience." },
-            { id: "3", title: "Returning an Item", description: "You bought a defective laptop.", difficulty: "Advanced", objective: "Politely but firmly negotiate a refund without a receipt." }
-          ]
-        });
-        setMode(AppMode.IDLE);
-      } finally {
-        setIsGeneratingPlan(false);
+      }
+      // The learner may have gone Back while the report was generating; don't pull them to it
+      if (router.route !== sessionRoute) return;
+      if (session) {
+        router.navigate({ name: 'report', sessionId: session.id }, { replace: true });
+      } else {
+        setMode(AppMode.REPORT);
       }
     } else {
-      // End of practice session
-      setMode(AppMode.IDLE);
-      setCurrentScenario(null);
+      router.navigate(DASHBOARD_ROUTE, { replace: true });
+    }
+  };
+
+  const beginPlanUpdate = async (plan: UserPlan) => {
+    setMode(AppMode.PLAN_UPDATE);
+    setPlanEvolution(null);
+    setPlanUpdateError(null);
+    try {
+      const reports = await store.listReports();
+      setPlanEvolution(await evolvePlan(plan, reports, planRecordRef.current?.createdAt ?? 0));
+    } catch (error) {
+      console.error(error);
+      setPlanUpdateError(error instanceof ResponseValidationError
+        ? "The tutor's suggestions came back incomplete, even after a retry."
+        : "We couldn't reach the tutor to update your plan.");
     }
   };
 
-  const startPractice = (scenario: Scenario) => {
+  const finishPlanUpdate = (accept: boolean) => {
+    if (accept && planEvolution) applyPlan(planEvolution.plan, undefined, planEvolution.changes);
+    setPlanEvolution(null);
+    router.navigate(DASHBOARD_ROUTE, { replace: true });
+  };
+
+  const finishReport = () => {
+    setPracticeReport(null);
+    setSessionMetrics(null);
+    setCurrentScenario(null);
+    router.navigate(DASHBOARD_ROUTE);
+  };
+
+  const finishAssessment = async (captured: CapturedSession) => {
+    const { transcript } = captured;
+    setShortAssessment(null);
+    setMode(AppMode.GENERATING_PLAN);
+    setSessionMetrics(captured.metrics ?? null);
+    const session = await saveSession(captured);
+    collectFlashcards(transcript, session?.id);
+    await analyzeAssessment(transcript, session?.id);
+  };
+
+  const beginAssessment = () => {
+    sessionStartedAtRef.current = Date.now();
+    setSessionMedium(settings.textChatByDefault ? 'text' : 'voice');
+    setSessionMetrics(null);
+    assessmentSoFarRef.current = null;
+    setMode(AppMode.ASSESSMENT);
+  };
+
+  const continueAssessment = () => {
+    assessmentSoFarRef.current = shortAssessment;
+    setShortAssessment(null);
+    setMode(AppMode.ASSESSMENT);
+  };
+
+  const discardAssessment = () => {
+    setShortAssessment(null);
+    router.navigate(DASHBOARD_ROUTE, { replace: true });
+  };
+
+  const beginPractice = (scenario: Scenario) => {
+    sessionStartedAtRef.current = Date.now();
+    setSessionMedium(settings.textChatByDefault ? 'text' : 'voice');
+    setSessionMetrics(null);
     setCurrentScenario(scenario);
+    setObjectives(null);
     setMode(AppMode.PRACTICE);
+    prepareObjectives(scenario);
+  };
+
+  const exitPronunciationDrill = () => {
+    setCurrentScenario(null);
+    router.navigate(DASHBOARD_ROUTE);
+  };
+
+  // A practice session left before it ended never gets its final check
+  const abandonObjectives = () => {
+    trackerRef.current?.dispose();
+    trackerRef.current = null;
+    objectiveRunRef.current++;
+  };
+
+  const findScenario = async (scenarioId: string) =>
+    planRecordRef.current?.plan.scenarios.find(s => s.id === scenarioId)
+      ?? (await store.listCustomScenarios()).find(s => s.id === scenarioId);
+
+  // Reports opened from a link rather than straight after the session
+  const openReport = async (sessionId: string) => {
+    const [reports, sessions] = await Promise.all([store.listReports(), store.listSessions()]);
+    const report = reports.find(r => r.sessionId === sessionId);
+    if (!report) return false;
+    const scenario = await findScenario(report.scenarioId);
+    setPracticeReport(report);
+    setSessionMetrics(sessions.find(s => s.id === sessionId)?.metrics ?? null);
+    setCurrentScenario(scenario ?? null);
+    setMode(AppMode.REPORT);
+    return true;
+  };
+
+  // Puts the workspace into the state a URL describes. Steps within a flow (generating the plan,
+  // the short-assessment prompt) don't have URLs of their own and only change `mode`.
+  const openRoute = async (route: Route) => {
+    if (mode === AppMode.PRACTICE) abandonObjectives();
+    const notFound = () => {
+      router.navigate(DASHBOARD_ROUTE, { replace: true });
+    };
+
+    switch (route.name) {
+      case 'dashboard':
+        setMode(AppMode.IDLE);
+        break;
+      case 'assessment':
+        beginAssessment();
+        break;
+      case 'practice':
+      case 'pronunciation': {
+        const scenario = await findScenario(route.scenarioId).catch(() => undefined);
+        if (!scenario) {
+          notFound();
+        } else if (route.name === 'practice') {
+          beginPractice(scenario);
+        } else {
+          setCurrentScenario(scenario);
+          setMode(AppMode.PRONUNCIATION);
+        }
+        break;
+      }
+      case 'report':
+        // Straight after the session, the report (or why there isn't one) is already in state
+        if (mode === AppMode.GENERATING_REPORT) {
+          setMode(AppMode.REPORT);
+        } else if (!(await openReport(route.sessionId).catch(() => false))) {
+          notFound();
+        }
+        break;
+      case 'planUpdate':
+        if (userPlan) {
+          beginPlanUpdate(userPlan);
+        } else {
+          notFound();
+        }
+        break;
+      case 'review':
+        setMode(AppMode.REVIEW);
+        break;
+      case 'listening':
+        if (userPlan) {
+          setMode(AppMode.LISTENING);
+        } else {
+          notFound();
+        }
+        break;
+      case 'scenarios':
+        setMode(AppMode.SCENARIOS);
+        break;
+      case 'progress':
+        setMode(AppMode.PROGRESS);
+        break;
+      case 'settings':
+        setMode(AppMode.SETTINGS);
+        break;
+      case 'learners':
+        setMode(AppMode.LEARNERS);
+        break;
+    }
   };
 
+  // Route changes are heard once, so always hand them to the latest render's handler
+  const openRouteRef = useRef(openRoute);
+  openRouteRef.current = openRoute;
+
+  useEffect(() => router.subscribe((route) => { openRouteRef.current(route); }), []);
+
+  // Open whatever page the app was loaded at once there's a plan to look scenarios up in
+  useEffect(() => {
+    if (!isHydrating) openRouteRef.current(router.route);
+  }, [isHydrating]);
+
+  const isInLiveSession = mode === AppMode.ASSESSMENT || mode === AppMode.PRACTICE;
+
+  // Leaving a live session unmounts it, which hangs up and releases the mic and speakers
+  useEffect(() => {
+    if (!isInLiveSession) return;
+    router.setGuard(() => window.confirm(LEAVE_SESSION_WARNING));
+    return () => router.setGuard(null);
+  }, [isInLiveSession]);
+
+  const startAssessment = () => router.navigate({ name: 'assessment' });
+  const startPractice = (scenario: Scenario) => router.navigate({ name: 'practice', scenarioId: scenario.id });
+  const startPronunciationDrill = (scenario: Scenario) => router.navigate({ name: 'pronunciation', scenarioId: scenario.id });
+  const startPlanUpdate = () => router.navigate({ name: 'planUpdate' });
+
+  const learnerLevel = userPlan ? userPlan.assessment?.cefr ?? toCefrLevel(userPlan.level) : null;
+
+  // Shared by the voice and text sessions
+  const sessionConfig = mode === AppMode.ASSESSMENT
+    ? getAssessmentConfig(assessmentSoFarRef.current?.transcript ?? null)
+    : mode === AppMode.PRACTICE && currentScenario ? getPracticeConfig(currentScenario) : null;
+  const trackObjectives = mode === AppMode.PRACTICE
+    ? (transcript: Transcript) => { trackerRef.current?.checkTranscript(transcript); }
+    : undefined;
+  const checklist = mode === AppMode.PRACTICE ? objectives ?? undefined : undefined;
+  const tutorTools = mode === AppMode.PRACTICE && currentScenario ? getPracticeTools(currentScenario) : undefined;
+
+  // Live sessions can be left (after confirming); these steps finish by themselves
+  const isNavLocked = mode === AppMode.GENERATING_PLAN || mode === AppMode.GENERATING_REPORT || mode === AppMode.ASSESSMENT_INCOMPLETE;
+
+  const assessmentLengthPicker = (className: string) => (
+    <label className={`text-sm flex items-center gap-2 ${className}`}>
+      Length
+      <select
+        value={assessmentMinutes}
+        onChange={(e) => setAssessmentMinutes(Number(e.target.value))}
+        className="rounded-md border border-gray-200 bg-white text-gray-700 px-2 py-1 text-sm"
+      >
+        {ASSESSMENT_LENGTHS_MIN.map(minutes => <option key={minutes} value={minutes}>{minutes} min</option>)}
+      </select>
+    </label>
+  );
+
+  const navClass = (target: AppMode) =>
+    `cursor-pointer ${isNavLocked ? 'opacity-50 cursor-not-allowed' : 'hover:text-blue-600'} ${mode === target ? 'text-blue-600' : ''}`;
+
+  // Real links, so they can be opened in a new tab or copied
+  const navLink = (route: Route, target: AppMode, label: React.ReactNode) => (
+    <a
+      href={routePath(route)}
+      aria-disabled={isNavLocked}
+      onClick={(e) => {
+        if (e.button !== 0 || e.metaKey || e.ctrlKey || e.shiftKey || e.altKey) return;
+        e.preventDefault();
+        if (!isNavLocked) router.navigate(route);
+      }}
+      className={navClass(target)}
+    >
+      {label}
+    </a>
+  );
+
   return (
     <div className="min-h-screen bg-gray-50 text-gray-800 font-sans">
       {/* Header */}
@@ -85,9 +569,14 @@ const App: React.FC = () => {
             </h1>
           </div>
           <nav className="hidden md:flex gap-6 text-sm font-medium text-gray-600">
-            <span className="hover:text-blue-600 cursor-pointer">Dashboard</span>
-            <span className="hover:text-blue-600 cursor-pointer">Progress</span>
-            <span className="hover:text-blue-600 cursor-pointer">Settings</span>
+            {navLink(DASHBOARD_ROUTE, AppMode.IDLE, 'Dashboard')}
+            {navLink({ name: 'scenarios' }, AppMode.SCENARIOS, 'Scenarios')}
+            {navLink({ name: 'progress' }, AppMode.PROGRESS, 'Progress')}
+            {navLink({ name: 'settings' }, AppMode.SETTINGS, 'Settings')}
+            {navLink({ name: 'learners' }, AppMode.LEARNERS, <>
+              Learners
+              <span className="ml-2 bg-gray-100 text-gray-700 rounded-full px-2.5 py-0.5">{profile.name}</span>
+            </>)}
           </nav>
         </div>
       </header>
@@ -95,7 +584,7 @@ const App: React.FC = () => {
       <main className="max-w-5xl mx-auto px-4 py-8">
         
         {/* MODE: ACTIVE SESSION (Assessment or Practice) */}
-        {(mode === AppMode.ASSESSMENT || mode === AppMode.PRACTICE) && (
+        {sessionConfig && (
           <div className="max-w-2xl mx-auto">
             <div className="mb-6 text-center">
               <h2 className="text-2xl font-bold text-gray-900">
@@ -107,26 +596,214 @@ const App: React.FC = () => {
                   : currentScenario?.description}
               </p>
             </div>
-            <div className="h-[60vh]">
-              <LiveSession 
-                config={mode === AppMode.ASSESSMENT ? ASSESSMENT_CONFIG : getPracticeConfig(currentScenario!)} 
-                onEndSession={handleSessionEnd} 
-              />
+            <div className="h-[75vh]">
+              {sessionMedium === 'text' ? (
+                <TextChatSession
+                  config={sessionConfig}
+                  onEndSession={handleSessionEnd}
+                  onTranscriptUpdate={trackObjectives}
+                  checklist={checklist}
+                />
+              ) : (
+                <LiveSession 
+                  config={sessionConfig} 
+                  onEndSession={handleSessionEnd} 
+                  onTranscriptUpdate={trackObjectives}
+                  checklist={checklist}
+                  recordByDefault={settings.recordSessions}
+                  onSwitchToText={() => setSessionMedium('text')}
+                  tools={tutorTools}
+                  onObjectiveStep={(stepId) => trackerRef.current?.markStep(stepId) ?? false}
+                />
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* MODE: ASSESSMENT INCOMPLETE (Not enough speech to assess) */}
+        {mode === AppMode.ASSESSMENT_INCOMPLETE && shortAssessment && (
+          <div className="flex flex-col items-center justify-center h-[60vh] text-center">
+            <AlertTriangle className="w-12 h-12 text-orange-500 mb-4" />
+            <h2 className="text-2xl font-bold text-gray-900">We need to hear a bit more</h2>
+            <p className="text-gray-500 mt-2 max-w-md">
+              You said {measureLearnerSpeech(shortAssessment.transcript).words} words in {measureLearnerSpeech(shortAssessment.transcript).turns} replies.
+              For a reliable level, keep talking with Sarah for a little longer — she'll pick up where you left off.
+            </p>
+            <div className="mt-6 flex gap-3">
+              <button
+                onClick={continueAssessment}
+                className="px-6 py-3 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors"
+              >
+                Keep Talking
+              </button>
+              <button
+                onClick={() => finishAssessment(shortAssessment)}
+                className="px-6 py-3 bg-gray-100 text-gray-700 rounded-lg font-medium hover:bg-gray-200 transition-colors"
+              >
+                Analyze Anyway
+              </button>
+              <button
+                onClick={discardAssessment}
+                className="px-6 py-3 text-gray-500 rounded-lg font-medium hover:bg-gray-100 transition-colors"
+              >
+                Cancel
+              </button>
             </div>
           </div>
         )}
 
         {/* MODE: GENERATING PLAN */}
         {mode === AppMode.GENERATING_PLAN && (
+          planError && !isGeneratingPlan ? (
+            <div className="flex flex-col items-center justify-center h-[60vh] text-center">
+              <AlertTriangle className="w-12 h-12 text-orange-500 mb-4" />
+              <h2 className="text-2xl font-bold text-gray-900">We couldn't create your plan</h2>
+              <p className="text-gray-500 mt-2 max-w-md">{planError} Your conversation was saved, so you can try the analysis again.</p>
+              <div className="mt-6 flex gap-3">
+                <button
+                  onClick={() => pendingAssessment && analyzeAssessment(pendingAssessment.transcript, pendingAssessment.sessionId)}
+                  className="px-6 py-3 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors"
+                >
+                  Try Again
+                </button>
+                <button
+                  onClick={() => { setPlanError(null); setPendingAssessment(null); router.navigate(DASHBOARD_ROUTE, { replace: true }); }}
+                  className="px-6 py-3 bg-gray-100 text-gray-700 rounded-lg font-medium hover:bg-gray-200 transition-colors"
+                >
+                  Back to Dashboard
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex flex-col items-center justify-center h-[60vh] text-center">
+              <Loader2 className="w-12 h-12 text-blue-600 animate-spin mb-4" />
+              <h2 className="text-2xl font-bold text-gray-900">Analyzing your conversation...</h2>
+              <p className="text-gray-500 mt-2">Our AI is identifying your level and crafting a personalized plan.</p>
+            </div>
+          )
+        )}
+
+        {/* MODE: PLAN UPDATE (Evolve the plan from practice) */}
+        {mode === AppMode.PLAN_UPDATE && (
+          planEvolution ? (
+            <PlanDiffView evolution={planEvolution} onAccept={() => finishPlanUpdate(true)} onDiscard={() => finishPlanUpdate(false)} />
+          ) : planUpdateError ? (
+            <div className="flex flex-col items-center justify-center h-[60vh] text-center">
+              <AlertTriangle className="w-12 h-12 text-orange-500 mb-4" />
+              <h2 className="text-2xl font-bold text-gray-900">We couldn't update your plan</h2>
+              <p className="text-gray-500 mt-2 max-w-md">{planUpdateError} Your current plan hasn't changed.</p>
+              <div className="mt-6 flex gap-3">
+                <button
+                  onClick={startPlanUpdate}
+                  className="px-6 py-3 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors"
+                >
+                  Try Again
+                </button>
+                <button
+                  onClick={() => finishPlanUpdate(false)}
+                  className="px-6 py-3 bg-gray-100 text-gray-700 rounded-lg font-medium hover:bg-gray-200 transition-colors"
+                >
+                  Back to Dashboard
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex flex-col items-center justify-center h-[60vh] text-center">
+              <Loader2 className="w-12 h-12 text-blue-600 animate-spin mb-4" />
+              <h2 className="text-2xl font-bold text-gray-900">Updating your plan...</h2>
+              <p className="text-gray-500 mt-2">We're looking at your practice results to choose your next scenarios.</p>
+            </div>
+          )
+        )}
+
+        {/* MODE: GENERATING REPORT */}
+        {mode === AppMode.GENERATING_REPORT && (
           <div className="flex flex-col items-center justify-center h-[60vh] text-center">
             <Loader2 className="w-12 h-12 text-blue-600 animate-spin mb-4" />
-            <h2 className="text-2xl font-bold text-gray-900">Analyzing your conversation...</h2>
-            <p className="text-gray-500 mt-2">Our AI is identifying your level and crafting a personalized plan.</p>
+            <h2 className="text-2xl font-bold text-gray-900">Reviewing your practice...</h2>
+            <p className="text-gray-500 mt-2">We're checking your grammar, vocabulary and whether you reached the objective.</p>
+          </div>
+        )}
+
+        {/* MODE: REPORT (Post-practice feedback) */}
+        {mode === AppMode.REPORT && sessionMetrics && (
+          <div className="max-w-3xl mx-auto mb-8">
+            <SessionMetricsCard metrics={sessionMetrics} />
           </div>
         )}
+        {mode === AppMode.REPORT && (
+          practiceReport ? (
+            <PracticeReportView report={practiceReport} scenario={currentScenario} onDone={finishReport} />
+          ) : (
+            <div className="flex flex-col items-center justify-center h-[40vh] text-center">
+              <h2 className="text-2xl font-bold text-gray-900">We couldn't generate your report</h2>
+              <p className="text-gray-500 mt-2">Your session was saved to your history. Please try again later.</p>
+              <button onClick={finishReport} className="mt-6 px-6 py-3 bg-gray-900 text-white rounded-lg font-medium hover:bg-gray-800 transition-colors">
+                Back to Dashboard
+              </button>
+            </div>
+          )
+        )}
+
+        {/* MODE: PRONUNCIATION (Drill) */}
+        {mode === AppMode.PRONUNCIATION && currentScenario && (
+          <PronunciationDrill
+            scenario={currentScenario}
+            level={userPlan?.level}
+            store={store}
+            onExit={exitPronunciationDrill}
+          />
+        )}
+
+        {/* MODE: REVIEW (Flashcards) */}
+        {mode === AppMode.REVIEW && (
+          <FlashcardReview
+            store={store}
+            voiceName={settings.tutorVoice}
+            onNavigate={(route) => router.navigate(route)}
+            onExit={() => router.navigate(DASHBOARD_ROUTE)}
+          />
+        )}
+
+        {/* MODE: LISTENING (Comprehension quiz) */}
+        {mode === AppMode.LISTENING && userPlan && (
+          <ListeningPractice
+            level={learnerLevel ?? 'B1'}
+            scenarios={userPlan.scenarios}
+            voiceName={settings.tutorVoice}
+            secondVoiceName={settings.examinerVoice}
+            onExit={() => router.navigate(DASHBOARD_ROUTE)}
+          />
+        )}
+
+        {/* MODE: SCENARIOS (Custom scenario library) */}
+        {mode === AppMode.SCENARIOS && (
+          <ScenarioLibrary store={store} onPractice={startPractice} />
+        )}
+
+        {/* MODE: PROGRESS (History) */}
+        {mode === AppMode.PROGRESS && (
+          <ProgressView store={store} />
+        )}
+
+        {/* MODE: SETTINGS */}
+        {mode === AppMode.SETTINGS && (
+          <SettingsView settings={settings} onSave={saveSettings} />
+        )}
+
+        {/* MODE: LEARNERS (Class overview) */}
+        {mode === AppMode.LEARNERS && (
+          <LearnersView
+            profiles={profiles}
+            activeProfileId={profile.id}
+            onSwitch={onSwitchProfile}
+            onCreate={onCreateProfile}
+            onDelete={onDeleteProfile}
+          />
+        )}
 
         {/* MODE: IDLE (Dashboard) */}
-        {mode === AppMode.IDLE && (
+        {mode === AppMode.IDLE && !isHydrating && (
           <div className="space-y-8">
             
             {/* Hero / Welcome */}
@@ -137,15 +814,21 @@ const App: React.FC = () => {
                   Practice speaking with our AI tutor. Get instant feedback and a tailored curriculum based on your actual performance.
                 </p>
                 <button 
-                  onClick={() => setMode(AppMode.ASSESSMENT)}
+                  onClick={startAssessment}
                   className="bg-white text-blue-700 px-8 py-4 rounded-full font-bold text-lg shadow-lg hover:bg-blue-50 transition-transform transform hover:scale-105 flex items-center gap-2 mx-auto"
                 >
                   <GraduationCap size={24} />
                   Start Level Assessment
                 </button>
+                {assessmentLengthPicker('justify-center mt-4 text-blue-100')}
               </div>
             )}
 
+            {/* Speaking metrics of the assessment just finished */}
+            {sessionMetrics && (
+              <SessionMetricsCard metrics={sessionMetrics} onDismiss={() => setSessionMetrics(null)} />
+            )}
+
             {/* User Plan Dashboard */}
             {userPlan && (
               <div className="grid gap-8">
@@ -154,16 +837,62 @@ const App: React.FC = () => {
                    <div className="bg-blue-50 p-6 rounded-full h-32 w-32 flex items-center justify-center border-4 border-blue-100 flex-shrink-0">
                      <div className="text-center">
                        <span className="block text-xs text-blue-600 font-bold uppercase">Level</span>
-                       <span className="block text-3xl font-extrabold text-blue-700">{userPlan.level.split(' ')[0]}</span>
+                       <span className="block text-3xl font-extrabold text-blue-700">{learnerLevel ?? '?'}</span>
+                       {learnerLevel && <span className="block text-[10px] text-blue-500 font-medium">{CEFR_LABELS[learnerLevel]}</span>}
                      </div>
                    </div>
                    <div className="flex-1 text-center md:text-left">
                      <h3 className="text-xl font-bold text-gray-900 mb-2">Assessment Feedback</h3>
                      <p className="text-gray-600 leading-relaxed">{userPlan.feedback}</p>
                      <div className="mt-4 flex gap-3 justify-center md:justify-start">
-                        <button onClick={() => setMode(AppMode.ASSESSMENT)} className="text-sm text-blue-600 font-medium hover:underline">Retake Assessment</button>
+                        <button onClick={startAssessment} className="text-sm text-blue-600 font-medium hover:underline">Retake Assessment</button>
+                        {assessmentLengthPicker('text-gray-500')}
+                        {canEvolvePlan(userPlan, practiceReports, planCreatedAt) && (
+                          <button onClick={startPlanUpdate} className="text-sm text-blue-600 font-medium hover:underline">Update Plan from Practice</button>
+                        )}
                      </div>
                    </div>
+                   {userPlan.assessment && (
+                     <div className="w-full md:w-72 flex-shrink-0">
+                       <SkillBreakdown assessment={userPlan.assessment} />
+                     </div>
+                   )}
+                </div>
+
+                {/* Daily Review */}
+                {dueCardCount > 0 && (
+                  <div className="bg-purple-50 border border-purple-100 rounded-2xl p-5 flex items-center justify-between">
+                    <div className="flex items-center gap-3">
+                      <Layers className="text-purple-500" size={22} />
+                      <div>
+                        <p className="font-semibold text-gray-900">Daily review</p>
+                        <p className="text-sm text-gray-600">{dueCardCount} {dueCardCount === 1 ? 'card is' : 'cards are'} due from your recent sessions.</p>
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => router.navigate({ name: 'review' })}
+                      className="px-4 py-2 bg-purple-600 text-white rounded-lg text-sm font-medium hover:bg-purple-700 transition-colors"
+                    >
+                      Start Review
+                    </button>
+                  </div>
+                )}
+
+                {/* Listening */}
+                <div className="bg-sky-50 border border-sky-100 rounded-2xl p-5 flex items-center justify-between">
+                  <div className="flex items-center gap-3">
+                    <Headphones className="text-sky-500" size={22} />
+                    <div>
+                      <p className="font-semibold text-gray-900">Listening practice</p>
+                      <p className="text-sm text-gray-600">Hear a {learnerLevel ?? 'B1'} story or dialogue from your plan's situations, then answer a short quiz.</p>
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => router.navigate({ name: 'listening' })}
+                    className="px-4 py-2 bg-sky-600 text-white rounded-lg text-sm font-medium hover:bg-sky-700 transition-colors"
+                  >
+                    Start Listening
+                  </button>
                 </div>
 
                 {/* Scenarios List */}
@@ -190,9 +919,18 @@ const App: React.FC = () => {
                         </div>
                         <h4 className="text-lg font-bold text-gray-900 mb-2">{scenario.title}</h4>
                         <p className="text-gray-600 text-sm mb-4 flex-grow">{scenario.description}</p>
+                        {scenario.completion && (
+                          <div className="mb-4 flex items-center gap-1.5 text-sm font-medium text-green-700">
+                            <CheckCircle2 size={16} />
+                            Completed{scenario.completion.score !== null && ` · ${scenario.completion.score}/100`}
+                          </div>
+                        )}
                         
                         <div className="pt-4 border-t border-gray-100 mt-auto">
-                           <p className="text-xs text-gray-400 mb-3">Objective: {scenario.objective}</p>
+                           <p className="text-xs text-gray-400 mb-3">
+                             Objective: {scenario.objective}
+                             {scenario.steps?.length ? ` (${scenario.steps.length} steps)` : ''}
+                           </p>
                            <button 
                             onClick={() => startPractice(scenario)}
                             className="w-full py-2.5 bg-gray-900 text-white rounded-lg text-sm font-medium hover:bg-gray-800 transition-colors flex items-center justify-center gap-2"
@@ -200,6 +938,13 @@ const App: React.FC = () => {
                              <BookOpen size={16} />
                              Start Practice
                            </button>
+                           <button 
+                            onClick={() => startPronunciationDrill(scenario)}
+                            className="w-full mt-2 py-2 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-100 transition-colors flex items-center justify-center gap-2"
+                           >
+                             <AudioLines size={16} />
+                             Pronunciation Drill
+                           </button>
                         </div>
                       </div>
                     ))}
@@ -214,4 +959,73 @@ const App: React.FC = () => {
   );
 };
 
+const profileStore = getProfileStore();
+
+// Checked up front, so a missing key shows a setup screen instead of failing mid-session
+const getConfigurationError = (): ConfigurationError | null => {
+  try {
+    getAiProvider();
+    return null;
+  } catch (error) {
+    if (error instanceof ConfigurationError) return error;
+    throw error;
+  }
+};
+
+const App: React.FC = () => {
+  const [profiles, setProfiles] = useState<LearnerProfile[]>([]);
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(null);
+  const [configurationError] = useState(getConfigurationError);
+
+  useEffect(() => {
+    profileStore.listProfiles()
+      .then((loaded) => {
+        setProfiles(loaded);
+        const remembered = profileStore.getActiveProfileId();
+        setActiveProfileId(loaded.some(p => p.id === remembered) ? remembered : loaded[0].id);
+      })
+      .catch((error) => console.error("Failed to load learners", error));
+  }, []);
+
+  const switchProfile = (profile: LearnerProfile) => {
+    profileStore.setActiveProfileId(profile.id);
+    setActiveProfileId(profile.id);
+  };
+
+  const createProfile = async (name: string) => {
+    const created = await profileStore.createProfile(name);
+    setProfiles(current => [...current, created]);
+  };
+
+  const deleteProfile = async (profile: LearnerProfile) => {
+    await profileStore.deleteProfile(profile);
+    setProfiles(current => current.filter(p => p.id !== profile.id));
+  };
+
+  if (configurationError) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex flex-col items-center justify-center text-center px-4">
+        <AlertTriangle className="w-12 h-12 text-orange-500 mb-4" />
+        <h2 className="text-2xl font-bold text-gray-900">FluentFlow isn't set up yet</h2>
+        <p className="text-gray-500 mt-2 max-w-md">{configurationError.message}</p>
+      </div>
+    );
+  }
+
+  const profile = profiles.find(p => p.id === activeProfileId);
+  if (!profile) return <div className="min-h-screen bg-gray-50" />;
+
+  return (
+    <LearnerWorkspace
+      key={profile.id}
+      profile={profile}
+      store={getLearnerStore(profile)}
+      profiles={profiles}
+      onSwitchProfile={switchProfile}
+      onCreateProfile={createProfile}
+      onDeleteProfile={deleteProfile}
+    />
+  );
+};
+
 export default App;
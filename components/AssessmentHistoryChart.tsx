@@ -0,0 +1,75 @@
+import React from 'react';
+import { ASSESSMENT_SKILLS, StoredPlan } from '../types';
+import { toCefrLevel } from '../services/validation';
+import { SKILL_COLORS, SKILL_LABELS } from './SkillBreakdown';
+
+interface AssessmentHistoryChartProps {
+  plans: StoredPlan[]; // Assessment plans, oldest first
+}
+
+const WIDTH = 600;
+const HEIGHT = 220;
+const PADDING = { top: 28, right: 16, bottom: 24, left: 32 };
+
+export const AssessmentHistoryChart: React.FC<AssessmentHistoryChartProps> = ({ plans }) => {
+  if (plans.length < 2) return null;
+
+  const innerWidth = WIDTH - PADDING.left - PADDING.right;
+  const innerHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const x = (index: number) => PADDING.left + (index / (plans.length - 1)) * innerWidth;
+  const y = (score: number) => PADDING.top + (1 - score / 100) * innerHeight;
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="Skill scores over time">
+        {[0, 50, 100].map(tick => (
+          <g key={tick}>
+            <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(tick)} y2={y(tick)} stroke="#f3f4f6" />
+            <text x={PADDING.left - 6} y={y(tick) + 4} textAnchor="end" fontSize="10" fill="#9ca3af">{tick}</text>
+          </g>
+        ))}
+
+        {ASSESSMENT_SKILLS.map(skill => {
+          // Older plans have no skill scores; the line simply starts later
+          const points = plans
+            .map((stored, index) => ({ index, score: stored.plan.assessment?.skills.find(s => s.skill === skill)?.score }))
+            .filter((point): point is { index: number; score: number } => point.score !== undefined);
+          if (points.length === 0) return null;
+          return (
+            <g key={skill}>
+              <polyline
+                points={points.map(point => `${x(point.index)},${y(point.score)}`).join(' ')}
+                fill="none"
+                stroke={SKILL_COLORS[skill]}
+                strokeWidth="2"
+              />
+              {points.map(point => (
+                <circle key={point.index} cx={x(point.index)} cy={y(point.score)} r="3" fill={SKILL_COLORS[skill]} />
+              ))}
+            </g>
+          );
+        })}
+
+        {plans.map((stored, index) => (
+          <g key={stored.id}>
+            <text x={x(index)} y={14} textAnchor="middle" fontSize="11" fontWeight="bold" fill="#1d4ed8">
+              {stored.plan.assessment?.cefr ?? toCefrLevel(stored.plan.level) ?? '?'}
+            </text>
+            <text x={x(index)} y={HEIGHT - 6} textAnchor="middle" fontSize="10" fill="#9ca3af">
+              {new Date(stored.createdAt).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
+            </text>
+          </g>
+        ))}
+      </svg>
+
+      <div className="flex flex-wrap gap-4 mt-2 text-xs text-gray-600">
+        {ASSESSMENT_SKILLS.map(skill => (
+          <span key={skill} className="flex items-center gap-1.5">
+            <span className="w-3 h-0.5 rounded" style={{ backgroundColor: SKILL_COLORS[skill] }} />
+            {SKILL_LABELS[skill]}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
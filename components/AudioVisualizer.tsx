@@ -1,22 +1,55 @@
-import React from 'react';
+import React, { useEffect, useRef } from 'react';
+import { readFrequencyBars } from '../utils/analyser';
 
 interface AudioVisualizerProps {
   isActive: boolean;
   role: 'user' | 'ai';
+  analyser: AnalyserNode | null;
 }
 
-export const AudioVisualizer: React.FC<AudioVisualizerProps> = ({ isActive, role }) => {
+const BAR_COUNT = 7;
+const MIN_HEIGHT = 8; // Percent of the container, so bars stay visible when quiet
+
+export const AudioVisualizer: React.FC<AudioVisualizerProps> = ({ isActive, role, analyser }) => {
+  const barRefs = useRef<(HTMLDivElement | null)[]>([]);
+
+  // Bars are updated directly on each animation frame to avoid re-rendering at 60fps
+  useEffect(() => {
+    if (!isActive || !analyser) return;
+    const buffer = new Uint8Array(analyser.frequencyBinCount);
+    let frame = 0;
+
+    const draw = () => {
+      const bars = readFrequencyBars(analyser, buffer, BAR_COUNT);
+      // Mirror the bands so the lowest frequencies sit in the middle
+      bars.forEach((level, index) => {
+        const height = `${MIN_HEIGHT + level * (100 - MIN_HEIGHT)}%`;
+        const center = Math.floor(BAR_COUNT / 2);
+        const position = index % 2 === 0 ? center + index / 2 : center - (index + 1) / 2;
+        const el = barRefs.current[position];
+        if (el) el.style.height = height;
+      });
+      frame = requestAnimationFrame(draw);
+    };
+    frame = requestAnimationFrame(draw);
+
+    return () => cancelAnimationFrame(frame);
+  }, [isActive, analyser]);
+
   if (!isActive) {
     return <div className="h-12 w-12 rounded-full bg-gray-200/20"></div>;
   }
 
   return (
-    <div className="flex items-center justify-center gap-1 h-12">
-      <div className={`w-1.5 h-3 rounded-full animate-pulse ${role === 'ai' ? 'bg-blue-400' : 'bg-green-400'}`} style={{ animationDelay: '0ms' }}></div>
-      <div className={`w-1.5 h-6 rounded-full animate-pulse ${role === 'ai' ? 'bg-blue-400' : 'bg-green-400'}`} style={{ animationDelay: '150ms' }}></div>
-      <div className={`w-1.5 h-8 rounded-full animate-pulse ${role === 'ai' ? 'bg-blue-400' : 'bg-green-400'}`} style={{ animationDelay: '300ms' }}></div>
-      <div className={`w-1.5 h-6 rounded-full animate-pulse ${role === 'ai' ? 'bg-blue-400' : 'bg-green-400'}`} style={{ animationDelay: '150ms' }}></div>
-      <div className={`w-1.5 h-3 rounded-full animate-pulse ${role === 'ai' ? 'bg-blue-400' : 'bg-green-400'}`} style={{ animationDelay: '0ms' }}></div>
+    <div className="flex items-center justify-center gap-1 h-12 w-16">
+      {Array.from({ length: BAR_COUNT }, (_, index) => (
+        <div
+          key={index}
+          ref={el => { barRefs.current[index] = el; }}
+          className={`w-1.5 rounded-full transition-[height] duration-75 ${role === 'ai' ? 'bg-blue-400' : 'bg-green-400'}`}
+          style={{ height: `${MIN_HEIGHT}%` }}
+        ></div>
+      ))}
     </div>
   );
 };
@@ -0,0 +1,176 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CheckCircle2, ChevronLeft, Layers, Loader2, Volume2 } from 'lucide-react';
+import { synthesizeSpeech } from '../services/geminiService';
+import { LearnerStore } from '../services/learnerStore';
+import { Route, routePath } from '../services/router';
+import { Flashcard, FlashcardKind } from '../types';
+import { playPCM16 } from '../utils/audio';
+import { reviewCard, ReviewQuality } from '../utils/srs';
+
+interface FlashcardReviewProps {
+  store: LearnerStore;
+  voiceName: string;
+  onNavigate: (route: Route) => void;
+  onExit: () => void;
+}
+
+const KIND_LABELS: Record<FlashcardKind, string> = {
+  vocabulary: 'Vocabulary',
+  correction: 'Correction',
+  idiom: 'Idiom',
+};
+
+const GRADES: { quality: ReviewQuality; label: string; className: string }[] = [
+  { quality: 1, label: 'Again', className: 'bg-red-100 text-red-700 hover:bg-red-200' },
+  { quality: 3, label: 'Hard', className: 'bg-orange-100 text-orange-700 hover:bg-orange-200' },
+  { quality: 4, label: 'Good', className: 'bg-green-100 text-green-700 hover:bg-green-200' },
+  { quality: 5, label: 'Easy', className: 'bg-blue-100 text-blue-700 hover:bg-blue-200' },
+];
+
+export const FlashcardReview: React.FC<FlashcardReviewProps> = ({ store, voiceName, onNavigate, onExit }) => {
+  const [queue, setQueue] = useState<Flashcard[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRevealed, setIsRevealed] = useState(false);
+  const [isSpeaking, setIsSpeaking] = useState(false);
+  const [reviewedCount, setReviewedCount] = useState(0);
+  const audioContextRef = useRef<AudioContext | null>(null);
+
+  useEffect(() => {
+    store.getDueFlashcards()
+      .then(setQueue)
+      .catch((error) => console.error("Failed to load flashcards", error))
+      .finally(() => setIsLoading(false));
+    return () => {
+      audioContextRef.current?.close();
+    };
+  }, [store]);
+
+  const card = queue[0];
+
+  // Real links, so the source can also be opened in a new tab
+  const routeLink = (route: Route, label: React.ReactNode) => (
+    <a
+      href={routePath(route)}
+      onClick={(e) => {
+        if (e.button !== 0 || e.metaKey || e.ctrlKey || e.shiftKey || e.altKey) return;
+        e.preventDefault();
+        onNavigate(route);
+      }}
+      className="text-blue-600 hover:underline"
+    >
+      {label}
+    </a>
+  );
+
+  const speak = async (text: string) => {
+    setIsSpeaking(true);
+    try {
+      if (!audioContextRef.current) {
+        audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
+      }
+      const audio = await synthesizeSpeech(text, voiceName);
+      await playPCM16(audioContextRef.current, audio);
+    } catch (error) {
+      console.error("Failed to play audio", error);
+    } finally {
+      setIsSpeaking(false);
+    }
+  };
+
+  const grade = async (quality: ReviewQuality) => {
+    if (!card) return;
+    const updated: Flashcard = { ...card, srs: reviewCard(card.srs, quality) };
+    store.updateFlashcard(updated).catch((error) => console.error("Failed to save review", error));
+    // Lapsed cards come back at the end of today's queue
+    setQueue(current => (quality < 3 ? [...current.slice(1), updated] : current.slice(1)));
+    setReviewedCount(count => count + 1);
+    setIsRevealed(false);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex flex-col items-center justify-center h-[40vh] text-gray-500">
+        <Loader2 className="w-8 h-8 animate-spin mb-3" />
+        Loading your deck...
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-xl mx-auto space-y-6">
+      <div className="flex items-center justify-between">
+        <button onClick={onExit} className="text-sm text-gray-500 hover:text-gray-800 flex items-center gap-1">
+          <ChevronLeft size={16} />
+          Back to Dashboard
+        </button>
+        <span className="text-sm text-gray-500 flex items-center gap-1.5">
+          <Layers size={14} />
+          {queue.length} left · {reviewedCount} reviewed
+        </span>
+      </div>
+
+      {!card ? (
+        <div className="bg-white rounded-2xl p-10 shadow-sm border border-gray-100 text-center">
+          <CheckCircle2 className="w-12 h-12 text-green-500 mx-auto mb-4" />
+          <h2 className="text-2xl font-bold text-gray-900">All caught up!</h2>
+          <p className="text-gray-500 mt-2">
+            {reviewedCount > 0 ? `You reviewed ${reviewedCount} cards today.` : 'No cards are due right now.'} New cards are added after each session.
+          </p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-2xl p-8 shadow-sm border border-gray-100 space-y-6">
+          <div className="flex items-center justify-between">
+            <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-purple-50 text-purple-700">{KIND_LABELS[card.kind]}</span>
+            {card.scenarioTitle && (
+              <span className="text-xs text-gray-400">
+                From:{' '}
+                {card.scenarioId ? routeLink({ name: 'practice', scenarioId: card.scenarioId }, card.scenarioTitle) : card.scenarioTitle}
+                {' · '}
+                {/* Only practice sessions have a report to open */}
+                {card.sourceSessionId && card.scenarioId
+                  ? routeLink({ name: 'report', sessionId: card.sourceSessionId }, new Date(card.createdAt).toLocaleDateString())
+                  : new Date(card.createdAt).toLocaleDateString()}
+              </span>
+            )}
+          </div>
+
+          <div className="text-center space-y-3">
+            <p className="text-xs uppercase text-gray-400 font-semibold">
+              {card.kind === 'correction' ? 'How would you say this correctly?' : 'What does this mean?'}
+            </p>
+            <p className="text-2xl font-semibold text-gray-900">{card.front}</p>
+          </div>
+
+          {isRevealed ? (
+            <div className="border-t border-gray-100 pt-6 space-y-3 text-center">
+              <p className="text-xl text-blue-700 font-medium">{card.back}</p>
+              {card.example && <p className="text-gray-500 italic">"{card.example}"</p>}
+              <button
+                onClick={() => speak(card.kind === 'correction' ? card.back : card.example || card.front)}
+                disabled={isSpeaking}
+                className="inline-flex items-center gap-1.5 text-sm text-blue-600 hover:underline disabled:opacity-50"
+              >
+                {isSpeaking ? <Loader2 size={14} className="animate-spin" /> : <Volume2 size={14} />}
+                Listen
+              </button>
+              <div className="grid grid-cols-4 gap-2 pt-4">
+                {GRADES.map(({ quality, label, className }) => (
+                  <button key={quality} onClick={() => grade(quality)} className={`py-2.5 rounded-lg text-sm font-medium transition-colors ${className}`}>
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ) : (
+            <button
+              onClick={() => setIsRevealed(true)}
+              className="w-full py-3 bg-gray-900 text-white rounded-lg font-medium hover:bg-gray-800 transition-colors"
+            >
+              Show Answer
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
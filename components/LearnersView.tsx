@@ -0,0 +1,173 @@
+import React, { useEffect, useState } from 'react';
+import { Download, Loader2, Trash2, UserPlus, Users } from 'lucide-react';
+import { classOverviewFileName, learnerSummariesToCsv, LearnerSummary, summarizeLearners } from '../services/classOverview';
+import { LearnerProfile } from '../types';
+
+interface LearnersViewProps {
+  profiles: LearnerProfile[];
+  activeProfileId: string;
+  onSwitch: (profile: LearnerProfile) => void;
+  onCreate: (name: string) => Promise<void>;
+  onDelete: (profile: LearnerProfile) => Promise<void>;
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString(undefined, { dateStyle: 'medium' });
+
+export const LearnersView: React.FC<LearnersViewProps> = ({ profiles, activeProfileId, onSwitch, onCreate, onDelete }) => {
+  const [summaries, setSummaries] = useState<LearnerSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [newName, setNewName] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    summarizeLearners(profiles)
+      .then((loaded) => {
+        if (!cancelled) setSummaries(loaded);
+      })
+      .catch((error) => console.error("Failed to load learners", error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [profiles]);
+
+  const create = async () => {
+    const name = newName.trim();
+    if (!name) return;
+    try {
+      await onCreate(name);
+      setNewName('');
+    } catch (error) {
+      console.error("Failed to create learner", error);
+    }
+  };
+
+  const remove = async (profile: LearnerProfile) => {
+    if (!window.confirm(`Delete ${profile.name} and all of their plans, history and settings? This can't be undone.`)) return;
+    try {
+      await onDelete(profile);
+    } catch (error) {
+      console.error("Failed to delete learner", error);
+    }
+  };
+
+  const exportCsv = () => {
+    const url = URL.createObjectURL(new Blob([learnerSummariesToCsv(summaries)], { type: 'text/csv' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = classOverviewFileName();
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h2 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+          <Users className="text-gray-400" size={22} />
+          Learners
+        </h2>
+        <button
+          onClick={exportCsv}
+          disabled={isLoading || summaries.length === 0}
+          className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-200 transition-colors flex items-center gap-2 disabled:opacity-50"
+        >
+          <Download size={16} /> Export CSV
+        </button>
+      </div>
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          create();
+        }}
+        className="flex gap-2"
+      >
+        <input
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="New learner's name"
+          className="flex-1 rounded-lg border border-gray-200 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <button
+          type="submit"
+          disabled={!newName.trim()}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 transition-colors flex items-center gap-2 disabled:opacity-50"
+        >
+          <UserPlus size={16} /> Add Learner
+        </button>
+      </form>
+
+      <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-x-auto">
+        {isLoading ? (
+          <div className="flex items-center justify-center gap-2 py-12 text-gray-500">
+            <Loader2 size={20} className="animate-spin" /> Loading learners...
+          </div>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="text-left text-xs uppercase tracking-wide text-gray-500 border-b border-gray-100">
+              <tr>
+                <th className="px-4 py-3 font-medium">Learner</th>
+                <th className="px-4 py-3 font-medium">Level</th>
+                <th className="px-4 py-3 font-medium">Last session</th>
+                <th className="px-4 py-3 font-medium">Sessions</th>
+                <th className="px-4 py-3 font-medium">Completed</th>
+                <th className="px-4 py-3 font-medium">Top errors</th>
+                <th className="px-4 py-3" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {summaries.map(({ profile, cefr, lastSessionAt, sessionCount, scenariosCompleted, topErrors }) => {
+                const isActive = profile.id === activeProfileId;
+                return (
+                  <tr key={profile.id} className={isActive ? 'bg-blue-50/50' : ''}>
+                    <td className="px-4 py-3 font-medium text-gray-900">
+                      {profile.name}
+                      {isActive && <span className="ml-2 text-xs font-medium text-blue-600">Current</span>}
+                    </td>
+                    <td className="px-4 py-3">
+                      {cefr
+                        ? <span className="bg-blue-50 text-blue-700 font-bold rounded-full px-2.5 py-0.5">{cefr}</span>
+                        : <span className="text-gray-400">Not assessed</span>}
+                    </td>
+                    <td className="px-4 py-3 text-gray-600 whitespace-nowrap">{lastSessionAt ? formatDate(lastSessionAt) : '—'}</td>
+                    <td className="px-4 py-3 text-gray-600">{sessionCount}</td>
+                    <td className="px-4 py-3 text-gray-600">{scenariosCompleted}</td>
+                    <td className="px-4 py-3">
+                      <div className="flex flex-wrap gap-1">
+                        {topErrors.length === 0 && <span className="text-gray-400">—</span>}
+                        {topErrors.map(([category, count]) => (
+                          <span key={category} className="px-2 py-0.5 rounded-full text-xs font-medium bg-orange-50 text-orange-700 capitalize">
+                            {category} ×{count}
+                          </span>
+                        ))}
+                      </div>
+                    </td>
+                    <td className="px-4 py-3">
+                      <div className="flex justify-end gap-2">
+                        {!isActive && (
+                          <>
+                            <button onClick={() => onSwitch(profile)} className="px-3 py-1.5 bg-gray-900 text-white rounded-lg text-xs font-medium hover:bg-gray-800 transition-colors">
+                              Switch
+                            </button>
+                            <button onClick={() => remove(profile)} className="p-1.5 text-gray-400 rounded-lg hover:bg-red-50 hover:text-red-600" title={`Delete ${profile.name}`}>
+                              <Trash2 size={16} />
+                            </button>
+                          </>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,354 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CheckCircle2, ChevronLeft, Headphones, Loader2, Play, RefreshCw, Square, XCircle } from 'lucide-react';
+import { generateListeningPassage, generateListeningQuiz, gradeListeningAnswers, synthesizeSpeech } from '../services/geminiService';
+import { CefrLevel, ListeningGrade, ListeningPassage, ListeningQuestion, Scenario, TUTOR_VOICES } from '../types';
+import { base64ToUint8Array } from '../utils/audio';
+import { listeningScore } from '../utils/listening';
+import { encodeWav } from '../utils/wav';
+
+interface ListeningPracticeProps {
+  level: CefrLevel;
+  scenarios: Scenario[];
+  voiceName: string; // Narrator, or the first speaker of a dialogue
+  secondVoiceName: string; // The other speaker of a dialogue
+  onExit: () => void;
+}
+
+type Phase = 'preparing' | 'listening' | 'quiz' | 'grading' | 'graded';
+
+const SPEEDS = [1, 0.75, 0.5];
+const SLOW_REPLAY_SPEED = 0.75;
+const TTS_SAMPLE_RATE = 24000;
+
+const toWavUrl = (base64: string) => {
+  const bytes = base64ToUint8Array(base64);
+  const pcm = new Int16Array(bytes.buffer, bytes.byteOffset, Math.floor(bytes.byteLength / 2));
+  return URL.createObjectURL(new Blob([encodeWav(pcm, TTS_SAMPLE_RATE)], { type: 'audio/wav' }));
+};
+
+// Each speaker keeps one voice; two speakers never share one
+const assignVoices = (passage: ListeningPassage, voiceName: string, secondVoiceName: string) => {
+  const second = secondVoiceName !== voiceName ? secondVoiceName : TUTOR_VOICES.find(voice => voice !== voiceName) ?? voiceName;
+  const speakers = Array.from(new Set(passage.segments.map(segment => segment.speaker)));
+  return new Map(speakers.map((speaker, index) => [speaker, index % 2 === 0 ? voiceName : second]));
+};
+
+export const ListeningPractice: React.FC<ListeningPracticeProps> = ({ level, scenarios, voiceName, secondVoiceName, onExit }) => {
+  const [phase, setPhase] = useState<Phase>('preparing');
+  const [passage, setPassage] = useState<ListeningPassage | null>(null);
+  const [segmentUrls, setSegmentUrls] = useState<string[]>([]);
+  const [questions, setQuestions] = useState<ListeningQuestion[]>([]);
+  const [answers, setAnswers] = useState<Record<string, string>>({});
+  const [grades, setGrades] = useState<ListeningGrade[]>([]);
+  const [speed, setSpeed] = useState(1);
+  const [playingIndex, setPlayingIndex] = useState<number | null>(null);
+  const [hasListened, setHasListened] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [attempt, setAttempt] = useState(0);
+
+  const audioRef = useRef<HTMLAudioElement>(null);
+  // Segments still to play after the current one, and the speed to play them at
+  const queueRef = useRef<{ indices: number[]; rate: number }>({ indices: [], rate: 1 });
+
+  useEffect(() => {
+    let cancelled = false;
+    let urls: string[] = [];
+    setPhase('preparing');
+    setPassage(null);
+    setSegmentUrls([]);
+    setQuestions([]);
+    setAnswers({});
+    setGrades([]);
+    setHasListened(false);
+    setError(null);
+
+    const prepare = async () => {
+      const nextPassage = await generateListeningPassage(level, scenarios);
+      if (cancelled) return;
+      const voices = assignVoices(nextPassage, voiceName, secondVoiceName);
+      const [audio, quiz] = await Promise.all([
+        Promise.all(nextPassage.segments.map(segment => synthesizeSpeech(segment.text, voices.get(segment.speaker)!))),
+        generateListeningQuiz(nextPassage),
+      ]);
+      if (cancelled) return;
+      urls = audio.map(toWavUrl);
+      setPassage(nextPassage);
+      setSegmentUrls(urls);
+      setQuestions(quiz);
+      setPhase('listening');
+    };
+
+    prepare().catch((err) => {
+      console.error("Failed to prepare listening exercise", err);
+      if (!cancelled) setError("We couldn't prepare a passage right now. Please try again.");
+    });
+
+    return () => {
+      cancelled = true;
+      queueRef.current = { indices: [], rate: 1 };
+      audioRef.current?.pause();
+      urls.forEach(url => URL.revokeObjectURL(url));
+    };
+    // A new exercise only when asked for; scenario edits mid-exercise shouldn't restart it
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [attempt]);
+
+  const playNext = () => {
+    const audio = audioRef.current;
+    const [next, ...rest] = queueRef.current.indices;
+    if (!audio || next === undefined) {
+      setPlayingIndex(null);
+      return;
+    }
+    queueRef.current = { ...queueRef.current, indices: rest };
+    audio.src = segmentUrls[next];
+    // Loading a new source resets playbackRate to the default
+    audio.defaultPlaybackRate = queueRef.current.rate;
+    audio.playbackRate = queueRef.current.rate;
+    setPlayingIndex(next);
+    audio.play().catch((err) => {
+      console.error("Playback failed", err);
+      setPlayingIndex(null);
+    });
+  };
+
+  const playSegments = (indices: number[], rate: number) => {
+    queueRef.current = { indices, rate };
+    playNext();
+  };
+
+  const stopPlayback = () => {
+    queueRef.current = { indices: [], rate: 1 };
+    audioRef.current?.pause();
+    setPlayingIndex(null);
+  };
+
+  const handleEnded = () => {
+    if (queueRef.current.indices.length === 0 && playingIndex === segmentUrls.length - 1) setHasListened(true);
+    playNext();
+  };
+
+  const submitAnswers = async () => {
+    if (!passage) return;
+    stopPlayback();
+    setPhase('grading');
+    setError(null);
+    try {
+      setGrades(await gradeListeningAnswers(passage, questions, answers));
+      setPhase('graded');
+    } catch (err) {
+      console.error("Failed to grade answers", err);
+      setError("We couldn't check your answers. Please try again.");
+      setPhase('quiz');
+    }
+  };
+
+  const isAnswered = questions.every(question => (answers[question.id] ?? '').trim());
+
+  if (phase === 'preparing') {
+    return (
+      <div className="flex flex-col items-center justify-center h-[40vh] text-gray-500">
+        {error ? (
+          <>
+            <p className="text-red-600 mb-4">{error}</p>
+            <div className="flex gap-3">
+              <button onClick={onExit} className="px-4 py-2 rounded-lg text-sm text-gray-600 hover:bg-gray-100">Back to Dashboard</button>
+              <button onClick={() => setAttempt(n => n + 1)} className="px-4 py-2 rounded-lg text-sm bg-gray-900 text-white hover:bg-gray-800">Try Again</button>
+            </div>
+          </>
+        ) : (
+          <>
+            <Loader2 className="w-8 h-8 animate-spin mb-3" />
+            Your tutor is preparing a {level} listening passage...
+          </>
+        )}
+      </div>
+    );
+  }
+
+  if (!passage) return null;
+  const score = listeningScore(grades);
+
+  return (
+    <div className="max-w-2xl mx-auto space-y-6">
+      <div className="flex items-center justify-between">
+        <button onClick={onExit} className="text-sm text-gray-500 hover:text-gray-800 flex items-center gap-1">
+          <ChevronLeft size={16} />
+          Back to Dashboard
+        </button>
+        <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-blue-50 text-blue-700">{level} · {passage.format === 'dialogue' ? 'Dialogue' : 'Story'}</span>
+      </div>
+
+      <audio ref={audioRef} onEnded={handleEnded} preload="auto" className="hidden" />
+
+      <div className="bg-white rounded-2xl p-6 shadow-sm border border-gray-100 space-y-4">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 bg-sky-100 rounded-full flex items-center justify-center text-sky-600">
+            <Headphones size={20} />
+          </div>
+          <div>
+            <h2 className="text-lg font-bold text-gray-900">{passage.title}</h2>
+            <p className="text-sm text-gray-500">
+              {phase === 'graded' ? 'Here is what was said.' : 'Listen carefully. The questions are about the details.'}
+            </p>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          {playingIndex === null ? (
+            <button
+              onClick={() => playSegments(passage.segments.map((_, index) => index), speed)}
+              className="px-4 py-2 rounded-lg text-sm font-medium bg-sky-600 text-white hover:bg-sky-700 flex items-center gap-2"
+            >
+              <Play size={16} />
+              {hasListened ? 'Play Again' : 'Play'}
+            </button>
+          ) : (
+            <button onClick={stopPlayback} className="px-4 py-2 rounded-lg text-sm font-medium bg-gray-900 text-white hover:bg-gray-800 flex items-center gap-2">
+              <Square size={16} />
+              Stop
+            </button>
+          )}
+          <div className="flex rounded-lg border border-gray-200 overflow-hidden text-sm">
+            {SPEEDS.map(option => (
+              <button
+                key={option}
+                onClick={() => setSpeed(option)}
+                className={`px-3 py-1.5 ${speed === option ? 'bg-gray-900 text-white' : 'text-gray-600 hover:bg-gray-50'}`}
+              >
+                {option}×
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* The transcript stays hidden until the answers are in */}
+        <div className="flex flex-wrap gap-2">
+          {passage.segments.map((segment, index) => (
+            phase === 'graded' ? (
+              <button
+                key={index}
+                onClick={() => playSegments([index], speed)}
+                className={`w-full text-left rounded-lg px-3 py-2 text-sm transition-colors ${playingIndex === index ? 'bg-sky-50 text-sky-900' : 'hover:bg-gray-50 text-gray-700'}`}
+              >
+                <span className="font-semibold text-gray-900">{segment.speaker}: </span>
+                {segment.text}
+              </button>
+            ) : (
+              <button
+                key={index}
+                onClick={() => playSegments([index], speed)}
+                title={`Replay part ${index + 1}`}
+                className={`w-9 h-9 rounded-lg text-sm font-medium transition-colors ${playingIndex === index ? 'bg-sky-600 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'}`}
+              >
+                {index + 1}
+              </button>
+            )
+          ))}
+        </div>
+      </div>
+
+      {phase === 'listening' && (
+        <button
+          onClick={() => setPhase('quiz')}
+          disabled={!hasListened}
+          className="w-full py-3 bg-gray-900 text-white rounded-lg font-medium hover:bg-gray-800 transition-colors disabled:opacity-50"
+        >
+          {hasListened ? 'Answer the Questions' : 'Listen to the whole passage first'}
+        </button>
+      )}
+
+      {phase !== 'listening' && (
+        <div className="bg-white rounded-2xl p-6 shadow-sm border border-gray-100 space-y-6">
+          {phase === 'graded' && (
+            <div className="flex items-center justify-between">
+              <h3 className="font-semibold text-gray-900">Your score</h3>
+              <span className={`text-2xl font-bold ${score >= 80 ? 'text-green-600' : score >= 50 ? 'text-yellow-600' : 'text-red-600'}`}>{score}%</span>
+            </div>
+          )}
+
+          {questions.map((question, index) => {
+            const grade = grades.find(g => g.questionId === question.id);
+            const answer = answers[question.id] ?? '';
+            const setAnswer = (value: string) => setAnswers(current => ({ ...current, [question.id]: value }));
+            return (
+              <div key={question.id} className="space-y-2">
+                <p className="font-medium text-gray-900 flex items-start gap-2">
+                  {grade && (grade.isCorrect
+                    ? <CheckCircle2 size={18} className="flex-shrink-0 mt-0.5 text-green-500" />
+                    : <XCircle size={18} className="flex-shrink-0 mt-0.5 text-red-500" />)}
+                  {index + 1}. {question.prompt}
+                </p>
+                {question.kind === 'choice' ? (
+                  <div className="grid gap-2">
+                    {question.options.map(option => (
+                      <label
+                        key={option}
+                        className={`flex items-center gap-2 px-3 py-2 rounded-lg border text-sm ${
+                          grade && option === question.options[question.answerIndex] ? 'border-green-300 bg-green-50' : answer === option ? 'border-blue-300 bg-blue-50' : 'border-gray-200'
+                        } ${grade ? '' : 'cursor-pointer hover:bg-gray-50'}`}
+                      >
+                        <input
+                          type="radio"
+                          name={question.id}
+                          checked={answer === option}
+                          onChange={() => setAnswer(option)}
+                          disabled={phase !== 'quiz'}
+                        />
+                        {option}
+                      </label>
+                    ))}
+                  </div>
+                ) : (
+                  <input
+                    type="text"
+                    value={answer}
+                    onChange={(e) => setAnswer(e.target.value)}
+                    disabled={phase !== 'quiz'}
+                    placeholder="A few words are enough"
+                    className="w-full px-3 py-2 rounded-lg border border-gray-200 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-50"
+                  />
+                )}
+                {grade && (
+                  <div className="flex items-start justify-between gap-3 text-sm">
+                    <p className={grade.isCorrect ? 'text-green-700' : 'text-gray-600'}>{grade.feedback}</p>
+                    {!grade.isCorrect && (
+                      <button
+                        onClick={() => playSegments([question.segmentIndex], SLOW_REPLAY_SPEED)}
+                        className="flex-shrink-0 text-blue-600 hover:underline flex items-center gap-1"
+                      >
+                        <Play size={14} />
+                        Hear it slowly
+                      </button>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          {phase === 'graded' ? (
+            <button
+              onClick={() => setAttempt(n => n + 1)}
+              className="w-full py-3 bg-gray-900 text-white rounded-lg font-medium hover:bg-gray-800 transition-colors flex items-center justify-center gap-2"
+            >
+              <RefreshCw size={16} />
+              New Passage
+            </button>
+          ) : (
+            <button
+              onClick={submitAnswers}
+              disabled={!isAnswered || phase === 'grading'}
+              className="w-full py-3 bg-gray-900 text-white rounded-lg font-medium hover:bg-gray-800 transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
+            >
+              {phase === 'grading' && <Loader2 size={16} className="animate-spin" />}
+              Check Answers
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
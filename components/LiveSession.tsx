@@ -1,35 +1,122 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { GoogleGenAI, LiveServerMessage, Modality } from '@google/genai';
-import { Mic, MicOff, PhoneOff } from 'lucide-react';
+import { AlertTriangle, AudioLines, AudioWaveform, Captions, CaptionsOff, Circle, Hand, Keyboard, Mic, MicOff, PhoneOff, Timer, VolumeX } from 'lucide-react';
+import { CLIPPING_PEAK, createAnalyser, readInputLevel, SILENCE_RMS } from '../utils/analyser';
 import { base64ToUint8Array, createPCM16Blob, decodeAudioData } from '../utils/audio';
+import { AudioCapture, DEFAULT_CAPTURE_SAMPLE_RATE, startAudioCapture } from '../utils/audioCapture';
 import { AudioVisualizer } from './AudioVisualizer';
-import { LiveSessionConfig } from '../types';
+import { ObjectiveChecklist } from './ObjectiveChecklist';
+import { TranscriptPanel } from './TranscriptPanel';
+import { Whiteboard } from './Whiteboard';
+import { ConnectionState, ConnectionStateInfo, connectWithRecovery, ManagedConnection } from '../services/connectionManager';
+import { WRAP_UP_INSTRUCTION } from '../services/prompts';
+import { getAiProvider, LiveConnection, LiveEvent } from '../services/providers';
+import { createToolRegistry, ToolContext, TutorTool } from '../services/tutorTools';
+import { InputMode, LiveSessionConfig, ObjectiveProgress, ObjectiveStep, RecordedAudio, SessionMetrics, Transcript, WhiteboardItem } from '../types';
+import { createMetricsTracker, MetricsTracker } from '../utils/sessionMetrics';
+import { createSessionRecorder, SessionRecorder } from '../utils/sessionRecorder';
+import { createVoiceActivityDetector } from '../utils/vad';
+import { appendFragment, completeTurn, createTranscript, finalizeTranscript, interruptTutorTurn, serializeTranscript } from '../utils/transcript';
+
+const INPUT_MODES: { mode: InputMode; label: string; icon: React.ReactNode }[] = [
+  { mode: 'continuous', label: 'Open mic', icon: <AudioLines size={14} /> },
+  { mode: 'pushToTalk', label: 'Push to talk', icon: <Hand size={14} /> },
+  { mode: 'voiceActivity', label: 'Auto detect', icon: <AudioWaveform size={14} /> },
+];
+
+const LEVEL_CHECK_INTERVAL_MS = 200;
+const SILENCE_HINT_MS = 5000; // Live mic silence before suggesting a mic check
+const CLIPPING_HOLD_MS = 1500; // Keep the clipping warning up briefly after the last clipped frame
+
+const TIMER_TICK_MS = 250;
+const WRAP_UP_LEAD_MS = 20000; // Ask the tutor to wrap up this long before time runs out
+const END_GRACE_MS = 8000; // Let the tutor finish its goodbye, up to this long past the limit
+const END_QUIET_MS = 1000; // Tutor silence that means its goodbye has played out, when it asks to end
+const MAX_WHITEBOARD_ITEMS = 8;
+
+const formatCountdown = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  return `${Math.floor(totalSeconds / 60)}:${(totalSeconds % 60).toString().padStart(2, '0')}`;
+};
 
 interface LiveSessionProps {
   config: LiveSessionConfig;
-  onEndSession: (transcript: string) => void;
+  /** `recording` is set when recording was switched on at any point in the session. */
+  onEndSession: (transcript: Transcript, recording?: RecordedAudio, metrics?: SessionMetrics) => void;
+  /** Called with the transcript each time a turn completes. */
+  onTranscriptUpdate?: (transcript: Transcript) => void;
+  checklist?: { steps: ObjectiveStep[]; progress: ObjectiveProgress };
+  recordByDefault?: boolean;
+  /** Offered when the mic or connection fails, to carry on in the typed chat instead. */
+  onSwitchToText?: () => void;
+  /** Client tools the tutor may call; the whiteboard is shown when there are any. Read once, on connect. */
+  tools?: TutorTool[];
+  /** Called when the tutor ticks off a checklist step; returns false for an unknown step. */
+  onObjectiveStep?: (stepId: string) => boolean;
 }
 
-export const LiveSession: React.FC<LiveSessionProps> = ({ config, onEndSession }) => {
-  const [isConnected, setIsConnected] = useState(false);
+export const LiveSession: React.FC<LiveSessionProps> = ({ config, onEndSession, onTranscriptUpdate, checklist, recordByDefault = false, onSwitchToText, tools = [], onObjectiveStep }) => {
+  const [connectionState, setConnectionState] = useState<ConnectionState>('connecting');
+  const [reconnectAttempt, setReconnectAttempt] = useState(0);
   const [error, setError] = useState<string | null>(null);
   const [isMuted, setIsMuted] = useState(false);
+  const [inputMode, setInputMode] = useState<InputMode>(config.inputMode ?? 'continuous');
+  const [isTalking, setIsTalking] = useState(false); // Push-to-talk held, or speech detected
+  const [inputAnalyser, setInputAnalyser] = useState<AnalyserNode | null>(null);
+  const [outputAnalyser, setOutputAnalyser] = useState<AnalyserNode | null>(null);
+  const [isClipping, setIsClipping] = useState(false);
+  const [isInputSilent, setIsInputSilent] = useState(false);
   const [isAiSpeaking, setIsAiSpeaking] = useState(false);
+  const [transcript, setTranscript] = useState<Transcript>(() => createTranscript());
+  const [showTutorCaptions, setShowTutorCaptions] = useState(true);
+  const [isRecording, setIsRecording] = useState(recordByDefault);
+  const [remainingMs, setRemainingMs] = useState<number | null>(config.durationMs ?? null);
+  const [whiteboard, setWhiteboard] = useState<WhiteboardItem[]>([]);
+  const [endingReason, setEndingReason] = useState<string | null>(null); // Set when the tutor asked to end
   
   // Audio Context and Node Refs
   const audioContextRef = useRef<AudioContext | null>(null);
   const inputContextRef = useRef<AudioContext | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
-  const processorRef = useRef<ScriptProcessorNode | null>(null);
-  const sourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
+  const captureRef = useRef<AudioCapture | null>(null);
+  const outputAnalyserRef = useRef<AnalyserNode | null>(null);
+
+  // Input gating state, read by the capture callback which is created once per connection
+  const isMutedRef = useRef(false);
+  const inputModeRef = useRef<InputMode>(inputMode);
+  const isPushToTalkHeldRef = useRef(false);
+  const isStreamingRef = useRef(false); // Audio sent since the last end-of-speech signal
+  const vadRef = useRef(createVoiceActivityDetector({ sampleRate: DEFAULT_CAPTURE_SAMPLE_RATE }));
   
   // Session Refs
-  const sessionRef = useRef<any>(null); // Stores the session promise/object
+  const sessionRef = useRef<ManagedConnection | null>(null);
+  const connectRunRef = useRef(0); // Bumped by cleanup, so a connection still being set up knows to let go
   const nextStartTimeRef = useRef<number>(0);
   const sourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
+  const connectedMsRef = useRef(0); // Time spent connected, which is what the session limit counts
+  const hasSentWrapUpRef = useRef(false);
+  const hasEndedRef = useRef(false);
+
+  // Recording: both sides are written to one timeline, started when the session opens
+  const recorderRef = useRef<SessionRecorder | null>(null);
+  const isRecordingRef = useRef(recordByDefault);
+  const hasRecordedRef = useRef(recordByDefault);
+  const metricsRef = useRef<MetricsTracker | null>(null);
   
-  // Transcription storage
-  const transcriptRef = useRef<string>("");
+  // Transcription storage, merged into speaker turns as fragments stream in
+  const transcriptRef = useRef<Transcript>(createTranscript());
+  // Event handlers are bound once per connection, so read the latest callback through a ref
+  const onTranscriptUpdateRef = useRef(onTranscriptUpdate);
+  onTranscriptUpdateRef.current = onTranscriptUpdate;
+  const onObjectiveStepRef = useRef(onObjectiveStep);
+  onObjectiveStepRef.current = onObjectiveStep;
+  const toolsRef = useRef(createToolRegistry(tools));
+  const endTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+
+  // Keep the ref (read by async callbacks) and the rendered captions in sync
+  const updateTranscript = (update: (current: Transcript) => Transcript) => {
+    transcriptRef.current = update(transcriptRef.current);
+    setTranscript(transcriptRef.current);
+  };
 
   useEffect(() => {
     connectToLiveApi();
@@ -40,13 +127,14 @@ export const LiveSession: React.FC<LiveSessionProps> = ({ config, onEndSession }
   }, []);
 
   const cleanup = () => {
-    if (processorRef.current) {
-      processorRef.current.disconnect();
-      processorRef.current = null;
+    connectRunRef.current++;
+    if (endTimerRef.current) {
+      clearInterval(endTimerRef.current);
+      endTimerRef.current = null;
     }
-    if (sourceRef.current) {
-      sourceRef.current.disconnect();
-      sourceRef.current = null;
+    if (captureRef.current) {
+      captureRef.current.stop();
+      captureRef.current = null;
     }
     if (streamRef.current) {
       streamRef.current.getTracks().forEach(track => track.stop());
@@ -60,170 +148,393 @@ export const LiveSession: React.FC<LiveSessionProps> = ({ config, onEndSession }
       audioContextRef.current.close();
       audioContextRef.current = null;
     }
-    
-    // Close session if possible (API doesn't explicitly expose close on the promise wrapper easily, 
-    // but stopping the stream and context effectively kills the loop)
-    // In a real app, we might need to send a close signal if supported.
-    
+    if (sessionRef.current) {
+      sessionRef.current.close();
+      sessionRef.current = null;
+    }
+
     sourcesRef.current.forEach(source => source.stop());
     sourcesRef.current.clear();
   };
 
   const connectToLiveApi = async () => {
+    const run = connectRunRef.current;
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      
       // Initialize Audio Contexts
-      // Input: 16kHz required by Gemini Live
-      inputContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
+      // Input: runs at the device rate; the capture worklet resamples to the 16kHz Gemini Live expects
+      inputContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
       // Output: 24kHz recommended for Gemini Live
       audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
+      // Tap playback for the visualizer; every tutor buffer is routed through it
+      const playbackAnalyser = createAnalyser(audioContextRef.current);
+      playbackAnalyser.connect(audioContextRef.current.destination);
+      outputAnalyserRef.current = playbackAnalyser;
+      setOutputAnalyser(playbackAnalyser);
 
       // Get Microphone Stream
       const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      // Left (or ended) while the mic permission prompt was up
+      if (run !== connectRunRef.current) {
+        stream.getTracks().forEach(track => track.stop());
+        return;
+      }
       streamRef.current = stream;
 
-      const sessionPromise = ai.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-        config: {
-          responseModalities: [Modality.AUDIO],
-          systemInstruction: config.systemInstruction,
-          speechConfig: {
-            voiceConfig: { prebuiltVoiceConfig: { voiceName: config.voiceName } },
-          },
-          inputAudioTranscription: {},
-          outputAudioTranscription: {},
-        },
-        callbacks: {
-          onopen: () => {
-            setIsConnected(true);
-            startAudioInput(stream, sessionPromise);
-          },
-          onmessage: async (message: LiveServerMessage) => {
-            handleServerMessage(message);
-          },
-          onclose: () => {
-            setIsConnected(false);
-          },
-          onerror: (err) => {
-            console.error("Live API Error:", err);
-            setError("Connection lost. Please try again.");
-            setIsConnected(false);
-          }
-        }
+      // Mic audio is buffered by the manager until the session is open (and while reconnecting)
+      const session = connectWithRecovery({
+        provider: getAiProvider(),
+        config,
+        tools: toolsRef.current.declarations,
+        onEvent: handleLiveEvent,
+        onStateChange: handleConnectionState,
+        getResumeContext: () => serializeTranscript(transcriptRef.current),
       });
-
-      sessionRef.current = sessionPromise;
+      sessionRef.current = session;
+      await startAudioInput(stream, session, run);
 
     } catch (err: any) {
+      if (run !== connectRunRef.current) return;
       console.error("Connection failed:", err);
       setError(err.message || "Failed to access microphone or connect to API.");
     }
   };
 
-  const startAudioInput = (stream: MediaStream, sessionPromise: Promise<any>) => {
+  const startAudioInput = async (stream: MediaStream, session: LiveConnection, run: number) => {
     if (!inputContextRef.current) return;
 
-    const source = inputContextRef.current.createMediaStreamSource(stream);
-    // Buffer size 4096 offers a balance between latency and performance
-    const processor = inputContextRef.current.createScriptProcessor(4096, 1, 1);
+    const sendFrame = (frame: Float32Array) => {
+      session.sendAudio(createPCM16Blob(frame, DEFAULT_CAPTURE_SAMPLE_RATE));
+      isStreamingRef.current = true;
+    };
 
-    processor.onaudioprocess = (e) => {
-      if (isMuted) return; 
+    captureRef.current = await startAudioCapture(inputContextRef.current, stream, {
+      frameSize: config.inputFrameSize,
+      onFrame: (frame) => {
+        const recorder = recorderRef.current;
+        if (recorder && isRecordingRef.current && !isMutedRef.current) {
+          recorder.writeInput(frame, DEFAULT_CAPTURE_SAMPLE_RATE, elapsedMs());
+        } else {
+          recorder?.skipInput(frame.length, DEFAULT_CAPTURE_SAMPLE_RATE, elapsedMs());
+        }
+        if (isMutedRef.current) return;
+        metricsRef.current?.addInputFrame(frame, DEFAULT_CAPTURE_SAMPLE_RATE, elapsedMs());
 
-      const inputData = e.inputBuffer.getChannelData(0);
-      const pcmBlob = createPCM16Blob(inputData);
+        switch (inputModeRef.current) {
+          case 'continuous':
+            sendFrame(frame);
+            break;
+          case 'pushToTalk':
+            if (isPushToTalkHeldRef.current) sendFrame(frame);
+            break;
+          case 'voiceActivity': {
+            const result = vadRef.current.process(frame);
+            result.preRoll.forEach(sendFrame);
+            if (result.isSpeech) sendFrame(frame);
+            if (result.speechStarted) setIsTalking(true);
+            if (result.speechEnded) {
+              endAudioStream();
+              setIsTalking(false);
+            }
+            break;
+          }
+        }
+      },
+    });
+    if (run !== connectRunRef.current) {
+      captureRef.current.stop();
+      captureRef.current = null;
+      return;
+    }
 
-      sessionPromise.then((session) => {
-        session.sendRealtimeInput({ media: pcmBlob });
-      });
-    };
+    // Tap the raw mic signal for the visualizer and level monitoring
+    const micAnalyser = createAnalyser(inputContextRef.current);
+    captureRef.current.source.connect(micAnalyser);
+    setInputAnalyser(micAnalyser);
+  };
 
-    source.connect(processor);
-    processor.connect(inputContextRef.current.destination);
-    
-    sourceRef.current = source;
-    processorRef.current = processor;
+  const endAudioStream = () => {
+    if (!isStreamingRef.current) return;
+    sessionRef.current?.endAudioStream();
+    isStreamingRef.current = false;
   };
 
-  const handleServerMessage = async (message: LiveServerMessage) => {
-    const { serverContent } = message;
-    if (!serverContent || !audioContextRef.current) return;
+  const resetInputGate = () => {
+    endAudioStream();
+    vadRef.current.reset();
+    isPushToTalkHeldRef.current = false;
+    setIsTalking(false);
+  };
 
-    // Handle Interruptions
-    if (serverContent.interrupted) {
-      sourcesRef.current.forEach((source) => {
-        source.stop();
-      });
-      sourcesRef.current.clear();
-      nextStartTimeRef.current = 0;
+  const elapsedMs = () => Date.now() - transcriptRef.current.startedAt;
+
+  const handleConnectionState = (state: ConnectionState, info: ConnectionStateInfo) => {
+    setConnectionState(state);
+    setReconnectAttempt(info.attempt);
+    if (info.error) console.error("Live API Error:", info.error);
+
+    if (state === 'reconnecting') {
+      // Whatever was mid-utterance when the connection dropped won't be continued
+      updateTranscript(current => completeTurn(current, elapsedMs()));
       setIsAiSpeaking(false);
-      return;
+    } else if (state === 'failed') {
+      setError("Connection lost. Please try again.");
+    } else if (state === 'connected') {
+      setError(null);
     }
+  };
 
-    // Handle Transcripts (Accumulate for plan generation)
-    if (serverContent.modelTurn?.turnComplete) {
-       setIsAiSpeaking(false);
-    }
+  const retryConnection = () => {
+    setError(null);
+    sessionRef.current?.retry();
+  };
 
-    if (serverContent.inputTranscription?.text) {
-        transcriptRef.current += `User: ${serverContent.inputTranscription.text}\n`;
-    }
-    if (serverContent.outputTranscription?.text) {
-        transcriptRef.current += `Tutor: ${serverContent.outputTranscription.text}\n`;
+  const handleLiveEvent = (event: LiveEvent) => {
+    switch (event.type) {
+      case 'open':
+        updateTranscript(() => createTranscript());
+        recorderRef.current = createSessionRecorder();
+        metricsRef.current = createMetricsTracker(DEFAULT_CAPTURE_SAMPLE_RATE);
+        break;
+      // Handle Transcripts (merged into turns for plan generation)
+      case 'inputTranscription':
+        updateTranscript(current => appendFragment(current, 'user', event.text, elapsedMs()));
+        break;
+      case 'outputTranscription':
+        updateTranscript(current => appendFragment(current, 'tutor', event.text, elapsedMs()));
+        break;
+      // Handle Interruptions
+      case 'interrupted':
+        updateTranscript(current => interruptTutorTurn(current, elapsedMs()));
+        recorderRef.current?.cutOutputAfter(elapsedMs());
+        metricsRef.current?.addInterruption(elapsedMs());
+        sourcesRef.current.forEach((source) => {
+          source.stop();
+        });
+        sourcesRef.current.clear();
+        nextStartTimeRef.current = 0;
+        setIsAiSpeaking(false);
+        break;
+      case 'turnComplete':
+        updateTranscript(current => completeTurn(current, elapsedMs()));
+        onTranscriptUpdateRef.current?.(transcriptRef.current);
+        // Audio may still be playing out after generation completes
+        if (sourcesRef.current.size === 0) setIsAiSpeaking(false);
+        break;
+      case 'audio':
+        playAudio(event.data);
+        break;
+      case 'toolCall':
+        sessionRef.current?.sendToolResponse(event.calls.map(call => toolsRef.current.run(call, toolContext)));
+        break;
     }
+  };
 
-    // Handle Audio Output
-    const base64Audio = serverContent.modelTurn?.parts?.[0]?.inlineData?.data;
-    if (base64Audio) {
-      setIsAiSpeaking(true);
-      const ctx = audioContextRef.current;
-      const audioData = base64ToUint8Array(base64Audio);
-      
-      try {
-        const audioBuffer = await decodeAudioData(audioData, ctx, 24000, 1);
-        
-        // Schedule audio
-        const currentTime = ctx.currentTime;
-        // If nextStartTime is in the past, reset it to now
-        if (nextStartTimeRef.current < currentTime) {
-          nextStartTimeRef.current = currentTime;
-        }
+  // What the tutor's tool calls can do here; see services/tutorTools
+  const toolContext: ToolContext = {
+    showOnWhiteboard: (item) => setWhiteboard(current => [...current, item].slice(-MAX_WHITEBOARD_ITEMS)),
+    markObjectiveStep: (stepId) => onObjectiveStepRef.current?.(stepId) ?? false,
+    endSession: (reason) => endWhenTutorFinishes(reason),
+  };
 
-        const source = ctx.createBufferSource();
-        source.buffer = audioBuffer;
-        source.connect(ctx.destination);
-        
-        source.start(nextStartTimeRef.current);
-        nextStartTimeRef.current += audioBuffer.duration;
-        
-        sourcesRef.current.add(source);
-        source.onended = () => {
-          sourcesRef.current.delete(source);
-          if (sourcesRef.current.size === 0) {
-             // Only set to false if no other sources are playing/scheduled very soon
-             // This is a rough approximation for visualizer
-             setTimeout(() => {
-                 if (sourcesRef.current.size === 0) setIsAiSpeaking(false);
-             }, 200);
-          }
-        };
+  // The call usually comes with the goodbye still playing (or yet to arrive), so wait for a
+  // moment of tutor silence before ending
+  const endWhenTutorFinishes = (reason: string) => {
+    if (endTimerRef.current || hasEndedRef.current) return;
+    setEndingReason(reason);
+    const requestedAt = Date.now();
+    let quietSince = requestedAt;
+    endTimerRef.current = setInterval(() => {
+      const now = Date.now();
+      if (sourcesRef.current.size > 0) quietSince = now;
+      if (now - quietSince >= END_QUIET_MS || now - requestedAt >= END_GRACE_MS) handleEndSessionRef.current();
+    }, TIMER_TICK_MS);
+  };
 
-      } catch (e) {
-        console.error("Error decoding audio", e);
+  const playAudio = async (base64Audio: string) => {
+    if (!audioContextRef.current) return;
+
+    setIsAiSpeaking(true);
+    const ctx = audioContextRef.current;
+    const audioData = base64ToUint8Array(base64Audio);
+    
+    try {
+      const audioBuffer = await decodeAudioData(audioData, ctx, 24000, 1);
+      
+      // Schedule audio
+      const currentTime = ctx.currentTime;
+      // If nextStartTime is in the past, reset it to now
+      if (nextStartTimeRef.current < currentTime) {
+        nextStartTimeRef.current = currentTime;
+      }
+
+      const source = ctx.createBufferSource();
+      source.buffer = audioBuffer;
+      source.connect(outputAnalyserRef.current ?? ctx.destination);
+      
+      source.start(nextStartTimeRef.current);
+      const startsAtMs = elapsedMs() + (nextStartTimeRef.current - currentTime) * 1000;
+      if (isRecordingRef.current) {
+        recorderRef.current?.writeOutput(audioBuffer.getChannelData(0), audioBuffer.sampleRate, startsAtMs);
       }
+      metricsRef.current?.addTutorAudio(startsAtMs, audioBuffer.duration * 1000);
+      nextStartTimeRef.current += audioBuffer.duration;
+      
+      sourcesRef.current.add(source);
+      source.onended = () => {
+        sourcesRef.current.delete(source);
+        if (sourcesRef.current.size === 0) {
+           // Only set to false if no other sources are playing/scheduled very soon
+           // This is a rough approximation for visualizer
+           setTimeout(() => {
+               if (sourcesRef.current.size === 0) setIsAiSpeaking(false);
+           }, 200);
+        }
+      };
+
+    } catch (e) {
+      console.error("Error decoding audio", e);
     }
   };
 
   const handleEndSession = () => {
+    if (hasEndedRef.current) return;
+    hasEndedRef.current = true;
     cleanup();
-    onEndSession(transcriptRef.current);
+    const recording = hasRecordedRef.current ? recorderRef.current?.finish() : undefined;
+    recorderRef.current = null;
+    const transcript = finalizeTranscript(transcriptRef.current, elapsedMs());
+    onEndSession(transcript, recording, metricsRef.current?.finish(transcript));
+  };
+  // For the end timer, which is started from the connection's event handler and would otherwise end with stale props
+  const handleEndSessionRef = useRef(handleEndSession);
+  handleEndSessionRef.current = handleEndSession;
+
+  const toggleRecording = () => {
+    const recording = !isRecording;
+    isRecordingRef.current = recording;
+    if (recording) hasRecordedRef.current = true;
+    setIsRecording(recording);
   };
 
   const toggleMute = () => {
-    setIsMuted(!isMuted);
+    const muted = !isMuted;
+    isMutedRef.current = muted;
+    setIsMuted(muted);
+    if (muted) resetInputGate();
+  };
+
+  const changeInputMode = (mode: InputMode) => {
+    inputModeRef.current = mode;
+    setInputMode(mode);
+    resetInputGate();
+  };
+
+  const startTalking = () => {
+    if (inputModeRef.current !== 'pushToTalk' || isMutedRef.current) return;
+    isPushToTalkHeldRef.current = true;
+    setIsTalking(true);
   };
 
+  const stopTalking = () => {
+    if (!isPushToTalkHeldRef.current) return;
+    isPushToTalkHeldRef.current = false;
+    setIsTalking(false);
+    endAudioStream();
+  };
+
+  // Hold Space to talk in push-to-talk mode
+  useEffect(() => {
+    if (inputMode !== 'pushToTalk') return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space') return;
+      e.preventDefault();
+      if (!e.repeat) startTalking();
+    };
+    const onKeyUp = (e: KeyboardEvent) => {
+      if (e.code !== 'Space') return;
+      e.preventDefault();
+      stopTalking();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    window.addEventListener('keyup', onKeyUp);
+    window.addEventListener('blur', stopTalking);
+    return () => {
+      window.removeEventListener('keydown', onKeyDown);
+      window.removeEventListener('keyup', onKeyUp);
+      window.removeEventListener('blur', stopTalking);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [inputMode]);
+
+  // Count down connected time: prompt the tutor to wrap up near the end, then end the session
+  useEffect(() => {
+    const durationMs = config.durationMs;
+    if (!durationMs || connectionState !== 'connected') return;
+    let lastTick = Date.now();
+
+    const timer = setInterval(() => {
+      const now = Date.now();
+      connectedMsRef.current += now - lastTick;
+      lastTick = now;
+      const remaining = durationMs - connectedMsRef.current;
+      setRemainingMs(remaining);
+
+      if (remaining <= Math.min(WRAP_UP_LEAD_MS, durationMs / 4) && !hasSentWrapUpRef.current) {
+        hasSentWrapUpRef.current = true;
+        sessionRef.current?.sendText(WRAP_UP_INSTRUCTION);
+      }
+      const isTutorSpeaking = sourcesRef.current.size > 0;
+      if (remaining <= 0 && (!isTutorSpeaking || remaining <= -END_GRACE_MS)) {
+        handleEndSession();
+      }
+    }, TIMER_TICK_MS);
+
+    return () => clearInterval(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [config.durationMs, connectionState]);
+
+  // Watch the mic for clipping and for prolonged silence while we expect the learner to talk
+  useEffect(() => {
+    if (!inputAnalyser || connectionState !== 'connected') return;
+    const buffer = new Float32Array(inputAnalyser.fftSize);
+    let silentSince = Date.now();
+    let clippedAt = 0;
+
+    const timer = setInterval(() => {
+      const { rms, peak } = readInputLevel(inputAnalyser, buffer);
+      const now = Date.now();
+      const isListening = !isMutedRef.current
+        && (inputModeRef.current !== 'pushToTalk' || isPushToTalkHeldRef.current)
+        && sourcesRef.current.size === 0;
+
+      if (peak >= CLIPPING_PEAK) clippedAt = now;
+      if (!isListening || rms > SILENCE_RMS) silentSince = now;
+      setIsClipping(now - clippedAt < CLIPPING_HOLD_MS);
+      setIsInputSilent(now - silentSince >= SILENCE_HINT_MS);
+    }, LEVEL_CHECK_INTERVAL_MS);
+
+    return () => {
+      clearInterval(timer);
+      setIsClipping(false);
+      setIsInputSilent(false);
+    };
+  }, [inputAnalyser, connectionState]);
+
+  const isConnected = connectionState === 'connected';
+  const isMicLive = !isMuted && isConnected && (inputMode === 'continuous' || isTalking);
+
+  const statusText = isAiSpeaking
+    ? "Tutor is speaking..."
+    : endingReason
+      ? `Ending the session: ${endingReason}`
+      : isMuted
+      ? "Microphone muted"
+      : inputMode === 'pushToTalk' && !isTalking
+        ? "Hold Space or the talk button to speak"
+        : inputMode === 'voiceActivity' && !isTalking
+          ? "Waiting for you to speak..."
+          : "Listening to you...";
+
   return (
     <div className="flex flex-col items-center justify-center w-full h-full min-h-[50vh] bg-gradient-to-b from-gray-50 to-gray-100 rounded-3xl p-6 shadow-xl border border-white/50 relative overflow-hidden">
       {/* Background Decorative Elements */}
@@ -232,38 +543,122 @@ export const LiveSession: React.FC<LiveSessionProps> = ({ config, onEndSession }
          <div className="absolute bottom-[-10%] left-[-10%] w-64 h-64 bg-purple-300 rounded-full blur-3xl"></div>
       </div>
 
-      <div className="relative z-10 flex flex-col items-center space-y-10">
+      <div className="relative z-10 flex flex-col items-center w-full h-full space-y-5">
         {/* Status Indicator */}
         <div className={`px-4 py-1.5 rounded-full text-sm font-medium transition-colors ${
-          isConnected ? 'bg-green-100 text-green-700 border border-green-200' : 'bg-yellow-100 text-yellow-700 border border-yellow-200'
+          error ? 'bg-red-100 text-red-700 border border-red-200'
+            : isConnected ? 'bg-green-100 text-green-700 border border-green-200'
+            : 'bg-yellow-100 text-yellow-700 border border-yellow-200'
         }`}>
-          {error ? 'Error' : isConnected ? 'Connected' : 'Connecting...'}
+          {error
+            ? 'Error'
+            : isConnected
+              ? 'Connected'
+              : connectionState === 'reconnecting'
+                ? `Reconnecting (attempt ${reconnectAttempt})...`
+                : 'Connecting...'}
         </div>
 
-        {error && (
-          <p className="text-red-500 text-sm text-center max-w-xs">{error}</p>
+        {remainingMs !== null && (
+          <div className={`flex items-center gap-1.5 text-sm font-medium tabular-nums ${
+            remainingMs <= WRAP_UP_LEAD_MS ? 'text-orange-600' : 'text-gray-500'
+          }`}>
+            <Timer size={14} />
+            {remainingMs > 0 ? `${formatCountdown(remainingMs)} left` : 'Wrapping up...'}
+          </div>
+        )}
+
+        {connectionState === 'reconnecting' && (
+          <p className="text-yellow-700 text-sm text-center max-w-xs">
+            Connection dropped. Keep talking — we'll catch the tutor up when we're back.
+          </p>
         )}
 
-        {/* Main Visualizer */}
-        <div className="relative w-48 h-48 flex items-center justify-center">
-            {/* Outer Glow */}
-            <div className={`absolute inset-0 bg-blue-500 rounded-full blur-2xl transition-opacity duration-500 ${isAiSpeaking ? 'opacity-20' : 'opacity-5'}`}></div>
-            <div className="bg-white rounded-full p-8 shadow-2xl ring-4 ring-gray-50/50 relative">
-               <AudioVisualizer isActive={isAiSpeaking || (!isMuted && isConnected)} role={isAiSpeaking ? 'ai' : 'user'} />
+        {error && (
+          <div className="text-center space-y-2">
+            <p className="text-red-500 text-sm max-w-xs">{error}</p>
+            <div className="flex items-center justify-center gap-4">
+              {connectionState === 'failed' && (
+                <button onClick={retryConnection} className="text-sm font-medium text-blue-600 hover:underline">
+                  Try again
+                </button>
+              )}
+              {onSwitchToText && (
+                <button onClick={onSwitchToText} className="text-sm font-medium text-blue-600 hover:underline flex items-center gap-1">
+                  <Keyboard size={14} /> Continue in text chat
+                </button>
+              )}
             </div>
+          </div>
+        )}
+
+        <div className="w-full flex flex-col md:flex-row items-center justify-center gap-5 flex-shrink-0">
+          {/* Main Visualizer */}
+          <div className="relative w-36 h-36 flex-shrink-0 flex items-center justify-center">
+              {/* Outer Glow */}
+              <div className={`absolute inset-0 bg-blue-500 rounded-full blur-2xl transition-opacity duration-500 ${isAiSpeaking ? 'opacity-20' : 'opacity-5'}`}></div>
+              <div className="bg-white rounded-full p-8 shadow-2xl ring-4 ring-gray-50/50 relative">
+                 <AudioVisualizer
+                   isActive={isAiSpeaking || isMicLive}
+                   role={isAiSpeaking ? 'ai' : 'user'}
+                   analyser={isAiSpeaking ? outputAnalyser : inputAnalyser}
+                 />
+              </div>
+          </div>
+
+          {tools.length > 0 && (
+            <Whiteboard items={whiteboard} onDismiss={(id) => setWhiteboard(current => current.filter(item => item.id !== id))} />
+          )}
         </div>
 
         <div className="text-center space-y-2">
            <h3 className="text-xl font-semibold text-gray-800">
-             {isAiSpeaking ? "Tutor is speaking..." : isMuted ? "Microphone muted" : "Listening to you..."}
+             {statusText}
            </h3>
-           <p className="text-sm text-gray-500 max-w-xs mx-auto">
-             Speak naturally. The AI will respond in real-time.
-           </p>
+           {isClipping ? (
+             <p className="text-sm text-orange-600 max-w-xs mx-auto flex items-center justify-center gap-1.5">
+               <AlertTriangle size={14} />
+               Your mic is clipping — move back a little or lower the input volume.
+             </p>
+           ) : isInputSilent && !isMuted ? (
+             <p className="text-sm text-orange-600 max-w-xs mx-auto flex items-center justify-center gap-1.5">
+               <VolumeX size={14} />
+               We can't hear you. Check your microphone is selected and not muted.
+             </p>
+           ) : (
+             <p className="text-sm text-gray-500 max-w-xs mx-auto">
+               Speak naturally. The AI will respond in real-time.
+             </p>
+           )}
+        </div>
+
+        {checklist && checklist.steps.length > 0 && (
+          <ObjectiveChecklist steps={checklist.steps} progress={checklist.progress} />
+        )}
+
+        {/* Captions & Conversation Log */}
+        <div className="w-full flex-1 min-h-0 bg-white/70 rounded-2xl p-3 border border-white shadow-inner">
+          <TranscriptPanel transcript={transcript} showTutorCaptions={showTutorCaptions} />
+        </div>
+
+        {/* Input Mode */}
+        <div className="flex items-center gap-1 bg-white/80 rounded-full p-1 border border-gray-200 flex-shrink-0">
+          {INPUT_MODES.map(({ mode, label, icon }) => (
+            <button
+              key={mode}
+              onClick={() => changeInputMode(mode)}
+              className={`flex items-center gap-1.5 px-3 py-1 rounded-full text-xs font-medium transition-colors ${
+                inputMode === mode ? 'bg-gray-900 text-white' : 'text-gray-600 hover:bg-gray-100'
+              }`}
+            >
+              {icon}
+              {label}
+            </button>
+          ))}
         </div>
 
         {/* Controls */}
-        <div className="flex items-center gap-6">
+        <div className="flex items-center gap-6 flex-shrink-0">
           <button 
             onClick={toggleMute}
             className={`p-4 rounded-full transition-all transform hover:scale-105 shadow-lg ${
@@ -275,6 +670,44 @@ export const LiveSession: React.FC<LiveSessionProps> = ({ config, onEndSession }
             {isMuted ? <MicOff size={24} /> : <Mic size={24} />}
           </button>
 
+          {inputMode === 'pushToTalk' && (
+            <button
+              onPointerDown={startTalking}
+              onPointerUp={stopTalking}
+              onPointerLeave={stopTalking}
+              disabled={isMuted}
+              className={`px-6 py-4 rounded-full font-semibold select-none transition-all shadow-lg ${
+                isTalking ? 'bg-green-500 text-white scale-105 shadow-green-500/30' : 'bg-white text-gray-700 hover:bg-gray-50'
+              } disabled:opacity-50`}
+            >
+              {isTalking ? 'Talking...' : 'Hold to talk'}
+            </button>
+          )}
+
+          <button 
+            onClick={() => setShowTutorCaptions(!showTutorCaptions)}
+            title={showTutorCaptions ? "Hide tutor captions (listening practice)" : "Show tutor captions"}
+            className={`p-4 rounded-full transition-all transform hover:scale-105 shadow-lg ${
+              showTutorCaptions 
+              ? 'bg-gray-100 text-gray-700 hover:bg-gray-200' 
+              : 'bg-blue-100 text-blue-600 hover:bg-blue-200'
+            }`}
+          >
+            {showTutorCaptions ? <Captions size={24} /> : <CaptionsOff size={24} />}
+          </button>
+
+          <button
+            onClick={toggleRecording}
+            title={isRecording ? "Stop recording" : "Record this session"}
+            className={`p-4 rounded-full transition-all transform hover:scale-105 shadow-lg ${
+              isRecording
+              ? 'bg-red-100 text-red-600 hover:bg-red-200'
+              : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            <Circle size={24} className={isRecording ? 'fill-current animate-pulse' : ''} />
+          </button>
+
           <button 
             onClick={handleEndSession}
             className="p-4 bg-red-500 text-white rounded-full hover:bg-red-600 transition-all transform hover:scale-105 shadow-lg shadow-red-500/30"
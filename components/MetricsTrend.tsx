@@ -0,0 +1,75 @@
+import React from 'react';
+import { SessionMetrics, SessionRecord } from '../types';
+import { averageResponsePauseMs, fillersPer100Words, learnerTalkShare } from '../utils/sessionMetrics';
+
+interface MetricsTrendProps {
+  sessions: SessionRecord[]; // Oldest first
+}
+
+interface TrendSeries {
+  label: string;
+  unit: string;
+  color: string;
+  higherIsBetter: boolean;
+  read: (metrics: SessionMetrics) => number | null;
+}
+
+const SERIES: TrendSeries[] = [
+  { label: 'Your talk time', unit: '%', color: '#16a34a', higherIsBetter: true, read: (m) => {
+    const share = learnerTalkShare(m);
+    return share === null ? null : Math.round(share * 100);
+  } },
+  { label: 'Speaking rate', unit: ' wpm', color: '#2563eb', higherIsBetter: true, read: (m) => m.wordsPerMinute },
+  { label: 'Pause before answering', unit: 's', color: '#ea580c', higherIsBetter: false, read: (m) => {
+    const pause = averageResponsePauseMs(m);
+    return pause === null ? null : Math.round(pause / 100) / 10;
+  } },
+  { label: 'Fillers per 100 words', unit: '', color: '#9333ea', higherIsBetter: false, read: fillersPer100Words },
+];
+
+const WIDTH = 160;
+const HEIGHT = 40;
+
+const Sparkline: React.FC<{ values: number[]; color: string }> = ({ values, color }) => {
+  const min = Math.min(...values);
+  const range = Math.max(...values) - min || 1;
+  const x = (index: number) => (values.length === 1 ? WIDTH / 2 : (index / (values.length - 1)) * WIDTH);
+  const y = (value: number) => HEIGHT - 4 - ((value - min) / range) * (HEIGHT - 8);
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-10" preserveAspectRatio="none">
+      <polyline points={values.map((value, index) => `${x(index)},${y(value)}`).join(' ')} fill="none" stroke={color} strokeWidth="2" />
+      <circle cx={x(values.length - 1)} cy={y(values[values.length - 1])} r="3" fill={color} />
+    </svg>
+  );
+};
+
+export const MetricsTrend: React.FC<MetricsTrendProps> = ({ sessions }) => {
+  const measured = sessions.flatMap(session => (session.metrics ? [session.metrics] : []));
+  if (measured.length === 0) return null;
+
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+      {SERIES.map(series => {
+        const values = measured.map(series.read).filter((value): value is number => value !== null);
+        if (values.length === 0) return null;
+        const latest = values[values.length - 1];
+        const change = values.length > 1 ? latest - values[0] : 0;
+        const improved = series.higherIsBetter ? change > 0 : change < 0;
+        return (
+          <div key={series.label} className="bg-gray-50 rounded-xl p-4">
+            <span className="block text-xs font-medium text-gray-500 uppercase tracking-wide">{series.label}</span>
+            <div className="flex items-baseline gap-2 mt-1">
+              <span className="text-xl font-bold text-gray-900">{latest}{series.unit}</span>
+              {change !== 0 && (
+                <span className={`text-xs font-medium ${improved ? 'text-green-600' : 'text-orange-600'}`}>
+                  {change > 0 ? '+' : ''}{Math.round(change * 10) / 10} since first
+                </span>
+              )}
+            </div>
+            <Sparkline values={values} color={series.color} />
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,40 @@
+import React from 'react';
+import { CheckCircle2, Circle, Target } from 'lucide-react';
+import { ObjectiveProgress, ObjectiveStep } from '../types';
+
+interface ObjectiveChecklistProps {
+  steps: ObjectiveStep[];
+  progress: ObjectiveProgress;
+}
+
+export const ObjectiveChecklist: React.FC<ObjectiveChecklistProps> = ({ steps, progress }) => {
+  const completed = new Set(progress.completedStepIds);
+  const isDone = steps.length > 0 && completed.size === steps.length;
+
+  return (
+    <div className="w-full bg-white/70 rounded-2xl p-3 border border-white shadow-inner flex-shrink-0">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-xs font-semibold uppercase tracking-wide text-gray-500 flex items-center gap-1.5">
+          <Target size={14} />
+          Objectives
+        </span>
+        <span className={`text-xs font-medium ${isDone ? 'text-green-600' : 'text-gray-400'}`}>
+          {isDone ? 'All done!' : `${completed.size}/${steps.length}`}
+        </span>
+      </div>
+      <ul className="space-y-1">
+        {steps.map(step => {
+          const isComplete = completed.has(step.id);
+          return (
+            <li key={step.id} className={`flex items-start gap-2 text-sm transition-colors ${isComplete ? 'text-green-700' : 'text-gray-600'}`}>
+              {isComplete
+                ? <CheckCircle2 size={16} className="flex-shrink-0 mt-0.5 text-green-500" />
+                : <Circle size={16} className="flex-shrink-0 mt-0.5 text-gray-300" />}
+              <span className={isComplete ? 'line-through decoration-green-300' : ''}>{step.description}</span>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,95 @@
+import React from 'react';
+import { ArrowRight, Minus, Pencil, Plus, TrendingDown, TrendingUp } from 'lucide-react';
+import { PlanChange, PlanChangeKind, PlanEvolution } from '../types';
+
+interface PlanDiffViewProps {
+  evolution: PlanEvolution;
+  onAccept: () => void;
+  onDiscard: () => void;
+}
+
+const CHANGE_STYLES: Record<Exclude<PlanChangeKind, 'unchanged'>, { label: string; icon: React.ReactNode; className: string }> = {
+  added: { label: 'New', icon: <Plus size={14} />, className: 'bg-green-50 text-green-700 border-green-200' },
+  harder: { label: 'Harder', icon: <TrendingUp size={14} />, className: 'bg-blue-50 text-blue-700 border-blue-200' },
+  easier: { label: 'Easier', icon: <TrendingDown size={14} />, className: 'bg-yellow-50 text-yellow-700 border-yellow-200' },
+  revised: { label: 'Revised', icon: <Pencil size={14} />, className: 'bg-purple-50 text-purple-700 border-purple-200' },
+  retired: { label: 'Retired', icon: <Minus size={14} />, className: 'bg-gray-50 text-gray-500 border-gray-200' },
+};
+
+const ChangeCard: React.FC<{ change: PlanChange; evolution: PlanEvolution }> = ({ change, evolution }) => {
+  if (change.kind === 'unchanged') return null;
+  const style = CHANGE_STYLES[change.kind];
+  const next = evolution.plan.scenarios.find(scenario => scenario.id === change.scenarioId);
+  const previous = change.previous;
+
+  return (
+    <div className={`rounded-xl p-5 border ${style.className}`}>
+      <div className="flex items-center gap-2 mb-2">
+        <span className="flex items-center gap-1 text-xs font-bold uppercase">{style.icon}{style.label}</span>
+        <h4 className={`font-bold text-gray-900 ${change.kind === 'retired' ? 'line-through opacity-60' : ''}`}>{change.title}</h4>
+      </div>
+
+      {previous && next && previous.difficulty !== next.difficulty && (
+        <p className="text-sm text-gray-700 flex items-center gap-2">
+          {previous.difficulty} <ArrowRight size={14} /> <span className="font-semibold">{next.difficulty}</span>
+        </p>
+      )}
+      {previous && next && previous.title !== next.title && (
+        <p className="text-sm text-gray-500">Previously "{previous.title}"</p>
+      )}
+      {next && (!previous || previous.objective !== next.objective) && (
+        <p className="text-sm text-gray-700 mt-1">
+          <span className="text-gray-500">Objective:</span> {next.objective}
+        </p>
+      )}
+      {change.reason && <p className="text-sm text-gray-600 mt-2 italic">{change.reason}</p>}
+    </div>
+  );
+};
+
+export const PlanDiffView: React.FC<PlanDiffViewProps> = ({ evolution, onAccept, onDiscard }) => {
+  const changed = evolution.changes.filter(change => change.kind !== 'unchanged');
+  const unchanged = evolution.changes.filter(change => change.kind === 'unchanged');
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-6">
+      <div className="bg-white rounded-2xl p-6 shadow-sm border border-gray-100">
+        <p className="text-xs font-bold uppercase text-blue-600 mb-1">Plan Update</p>
+        <h2 className="text-2xl font-bold text-gray-900">Your next training plan</h2>
+        {evolution.plan.feedback && <p className="text-gray-600 mt-3 leading-relaxed">{evolution.plan.feedback}</p>}
+      </div>
+
+      {changed.length > 0 ? (
+        <div className="space-y-4">
+          {changed.map(change => (
+            <ChangeCard key={`${change.kind}-${change.scenarioId}`} change={change} evolution={evolution} />
+          ))}
+        </div>
+      ) : (
+        <p className="text-center text-gray-500">Your plan is already a good fit, so nothing changed this time.</p>
+      )}
+
+      {unchanged.length > 0 && (
+        <p className="text-sm text-gray-500">
+          Still in your plan: {unchanged.map(change => change.title).join(', ')}
+        </p>
+      )}
+
+      <div className="flex justify-center gap-3">
+        <button
+          onClick={onAccept}
+          disabled={changed.length === 0}
+          className="px-6 py-3 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          Use New Plan
+        </button>
+        <button
+          onClick={onDiscard}
+          className="px-6 py-3 bg-gray-100 text-gray-700 rounded-lg font-medium hover:bg-gray-200 transition-colors"
+        >
+          Keep Current Plan
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,112 @@
+import React from 'react';
+import { ArrowRight, CheckCircle2, Lightbulb, XCircle } from 'lucide-react';
+import { PracticeReport, Scenario, UtteranceFeedback } from '../types';
+
+interface PracticeReportViewProps {
+  report: PracticeReport;
+  scenario?: Scenario | null;
+  onDone: () => void;
+}
+
+const UtteranceCard: React.FC<{ utterance: UtteranceFeedback }> = ({ utterance }) => {
+  const isCorrect = utterance.errorCategories.length === 0 && utterance.corrected.trim() === utterance.original.trim();
+  return (
+    <div className="bg-white rounded-xl p-5 border border-gray-200 shadow-sm space-y-3">
+      <div className="flex items-start gap-3">
+        {isCorrect
+          ? <CheckCircle2 size={18} className="text-green-500 flex-shrink-0 mt-0.5" />
+          : <XCircle size={18} className="text-orange-500 flex-shrink-0 mt-0.5" />}
+        <div className="space-y-1">
+          <p className={`text-gray-700 ${isCorrect ? '' : 'line-through decoration-orange-300'}`}>{utterance.original}</p>
+          {!isCorrect && (
+            <p className="text-gray-900 font-medium flex items-start gap-2">
+              <ArrowRight size={16} className="text-blue-500 flex-shrink-0 mt-1" />
+              {utterance.corrected}
+            </p>
+          )}
+        </div>
+      </div>
+
+      {utterance.errorCategories.length > 0 && (
+        <div className="flex flex-wrap gap-2 pl-7">
+          {utterance.errorCategories.map((category) => (
+            <span key={category} className="px-2 py-0.5 rounded-full text-xs font-medium bg-orange-50 text-orange-700 capitalize">
+              {category}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {utterance.explanation && !isCorrect && (
+        <p className="text-sm text-gray-500 pl-7">{utterance.explanation}</p>
+      )}
+
+      {utterance.vocabulary.length > 0 && (
+        <div className="pl-7 space-y-1">
+          {utterance.vocabulary.map((vocab) => (
+            <p key={vocab.original} className="text-sm text-gray-600 flex items-start gap-2">
+              <Lightbulb size={14} className="text-yellow-500 flex-shrink-0 mt-0.5" />
+              <span>
+                Instead of <span className="font-medium">"{vocab.original}"</span>, try{' '}
+                {vocab.alternatives.map((alt, index) => (
+                  <span key={alt}>
+                    {index > 0 && ', '}
+                    <span className="font-medium text-blue-700">"{alt}"</span>
+                  </span>
+                ))}
+              </span>
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const PracticeReportView: React.FC<PracticeReportViewProps> = ({ report, scenario, onDone }) => {
+  const correctCount = report.utterances.filter(u => u.errorCategories.length === 0).length;
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-6">
+      <div className="bg-white rounded-2xl p-6 shadow-sm border border-gray-100">
+        <p className="text-xs font-bold uppercase text-blue-600 mb-1">Practice Report</p>
+        <h2 className="text-2xl font-bold text-gray-900">{scenario?.title || 'Practice Session'}</h2>
+        {report.summary && <p className="text-gray-600 mt-3 leading-relaxed">{report.summary}</p>}
+
+        <div className={`mt-5 rounded-xl p-4 flex items-start gap-3 ${
+          report.objectiveAchieved ? 'bg-green-50 text-green-800' : 'bg-yellow-50 text-yellow-800'
+        }`}>
+          {report.objectiveAchieved ? <CheckCircle2 size={20} className="flex-shrink-0" /> : <XCircle size={20} className="flex-shrink-0" />}
+          <div>
+            <p className="font-semibold">{report.objectiveAchieved ? 'Objective achieved' : 'Objective not yet achieved'}</p>
+            {scenario && <p className="text-sm opacity-80">{scenario.objective}</p>}
+            {report.objectiveNotes && <p className="text-sm mt-1">{report.objectiveNotes}</p>}
+          </div>
+        </div>
+      </div>
+
+      {report.utterances.length > 0 && (
+        <div>
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-bold text-gray-900">What you said</h3>
+            <span className="text-sm text-gray-500">{correctCount} of {report.utterances.length} sentences correct</span>
+          </div>
+          <div className="space-y-4">
+            {report.utterances.map((utterance, index) => (
+              <UtteranceCard key={index} utterance={utterance} />
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="flex justify-center">
+        <button
+          onClick={onDone}
+          className="px-6 py-3 bg-gray-900 text-white rounded-lg font-medium hover:bg-gray-800 transition-colors"
+        >
+          Back to Dashboard
+        </button>
+      </div>
+    </div>
+  );
+};
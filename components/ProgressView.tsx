@@ -0,0 +1,184 @@
+import React, { useEffect, useState } from 'react';
+import { Activity, ChevronDown, ChevronRight, Clock, GraduationCap, Headphones, History, Keyboard, Loader2, MessageSquare } from 'lucide-react';
+import { AssessmentHistoryChart } from './AssessmentHistoryChart';
+import { MetricsTrend } from './MetricsTrend';
+import { SessionPlayback } from './SessionPlayback';
+import { LearnerStore } from '../services/learnerStore';
+import { toCefrLevel } from '../services/validation';
+import { SessionRecord, StoredPlan } from '../types';
+
+interface ProgressViewProps {
+  store: LearnerStore;
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+const formatDuration = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.round(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+export const ProgressView: React.FC<ProgressViewProps> = ({ store }) => {
+  const [sessions, setSessions] = useState<SessionRecord[]>([]);
+  const [plans, setPlans] = useState<StoredPlan[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [playbackId, setPlaybackId] = useState<string | null>(null);
+  // Plans evolved from practice carry the previous assessment over, so they aren't new data points
+  const assessments = plans.filter(stored => !stored.changes);
+  const hasMetrics = sessions.some(session => session.metrics);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([store.listSessions(), store.listPlans()])
+      .then(([loadedSessions, loadedPlans]) => {
+        if (cancelled) return;
+        setSessions(loadedSessions);
+        setPlans(loadedPlans);
+      })
+      .catch((error) => console.error("Failed to load history", error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [store]);
+
+  if (isLoading) {
+    return (
+      <div className="flex flex-col items-center justify-center h-[40vh] text-gray-500">
+        <Loader2 className="w-8 h-8 animate-spin mb-3" />
+        Loading your history...
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      {/* Level History */}
+      <div className="bg-white rounded-2xl p-6 shadow-sm border border-gray-100">
+        <h3 className="text-xl font-bold text-gray-900 mb-4 flex items-center gap-2">
+          <GraduationCap className="text-gray-400" size={20} />
+          Assessment History
+        </h3>
+        {assessments.length === 0 ? (
+          <p className="text-gray-500 text-sm">No assessments yet. Take a level assessment to get started.</p>
+        ) : (
+          <>
+          <div className="mb-4">
+            <AssessmentHistoryChart plans={[...assessments].reverse()} />
+          </div>
+          <ul className="divide-y divide-gray-100">
+            {assessments.map((stored) => (
+              <li key={stored.id} className="py-3 flex items-center gap-4">
+                <span className="bg-blue-50 text-blue-700 font-bold rounded-full px-3 py-1 text-sm">
+                  {stored.plan.assessment?.cefr ?? toCefrLevel(stored.plan.level) ?? '?'}
+                </span>
+                <span className="text-sm text-gray-600 flex-1 truncate">{stored.plan.feedback}</span>
+                <span className="text-xs text-gray-400 whitespace-nowrap">{formatDate(stored.createdAt)}</span>
+              </li>
+            ))}
+          </ul>
+          </>
+        )}
+      </div>
+
+      {/* Speaking Trends */}
+      {hasMetrics && (
+        <div className="bg-white rounded-2xl p-6 shadow-sm border border-gray-100">
+          <h3 className="text-xl font-bold text-gray-900 mb-4 flex items-center gap-2">
+            <Activity className="text-gray-400" size={20} />
+            Speaking Trends
+          </h3>
+          <MetricsTrend sessions={[...sessions].reverse()} />
+        </div>
+      )}
+
+      {/* Session History */}
+      <div className="bg-white rounded-2xl p-6 shadow-sm border border-gray-100">
+        <h3 className="text-xl font-bold text-gray-900 mb-4 flex items-center gap-2">
+          <History className="text-gray-400" size={20} />
+          Sessions
+        </h3>
+        {sessions.length === 0 ? (
+          <p className="text-gray-500 text-sm">No sessions recorded yet.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {sessions.map((session) => {
+              const isExpanded = expandedId === session.id;
+              return (
+                <li key={session.id} className="py-3">
+                  <button
+                    onClick={() => {
+                      setExpandedId(isExpanded ? null : session.id);
+                      setPlaybackId(null);
+                    }}
+                    className="w-full flex items-center gap-3 text-left"
+                  >
+                    {isExpanded ? <ChevronDown size={16} className="text-gray-400" /> : <ChevronRight size={16} className="text-gray-400" />}
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                      session.kind === 'ASSESSMENT' ? 'bg-purple-100 text-purple-700' : 'bg-green-100 text-green-700'
+                    }`}>
+                      {session.kind === 'ASSESSMENT' ? 'Assessment' : 'Practice'}
+                    </span>
+                    {session.medium === 'text' && (
+                      <span title="Typed chat" className="text-gray-400"><Keyboard size={14} /></span>
+                    )}
+                    <span className="flex-1 font-medium text-gray-800 truncate">
+                      {session.kind === 'ASSESSMENT' ? 'Level Assessment' : session.scenarioTitle || 'Practice Session'}
+                    </span>
+                    <span className="text-xs text-gray-400 flex items-center gap-1">
+                      <Clock size={12} />
+                      {formatDuration(session.endedAt - session.startedAt)}
+                    </span>
+                    <span className="text-xs text-gray-400 whitespace-nowrap">{formatDate(session.startedAt)}</span>
+                  </button>
+                  {isExpanded && (
+                    <div className="mt-3 ml-7 bg-gray-50 rounded-lg p-4 text-sm text-gray-700">
+                      {playbackId === session.id ? (
+                        <SessionPlayback store={store} session={session} onClose={() => setPlaybackId(null)} />
+                      ) : session.transcript.turns.length > 0 ? (
+                        <>
+                          {session.recordingId && (
+                            <button
+                              onClick={() => setPlaybackId(session.id)}
+                              className="mb-3 flex items-center gap-2 px-3 py-1.5 bg-white border border-gray-200 rounded-lg text-blue-600 font-medium hover:bg-blue-50"
+                            >
+                              <Headphones size={14} /> Listen to recording
+                            </button>
+                          )}
+                          <ol className="space-y-2">
+                            {session.transcript.turns.map((turn, index) => (
+                              <li key={index} className="flex gap-3">
+                                <span className="text-xs text-gray-400 w-10 flex-shrink-0 pt-0.5">{formatDuration(turn.startMs)}</span>
+                                <span className={`font-semibold flex-shrink-0 ${turn.speaker === 'tutor' ? 'text-blue-600' : 'text-green-600'}`}>
+                                  {turn.speaker === 'tutor' ? 'Tutor' : 'You'}
+                                </span>
+                                <span className={turn.interrupted ? 'text-gray-400 italic' : ''}>
+                                  {turn.text}{turn.interrupted && ' …'}
+                                </span>
+                              </li>
+                            ))}
+                          </ol>
+                        </>
+                      ) : (
+                        <p className="text-gray-400 flex items-center gap-2">
+                          <MessageSquare size={14} />
+                          No transcript was captured for this session.
+                        </p>
+                      )}
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
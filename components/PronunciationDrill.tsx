@@ -0,0 +1,256 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChevronLeft, ChevronRight, Gauge, Loader2, Mic, PauseCircle, RotateCcw, Square, Target } from 'lucide-react';
+import { assessPronunciation, generateDrillSentences } from '../services/geminiService';
+import { LearnerStore } from '../services/learnerStore';
+import { ProblemWord, PronunciationAttempt, Scenario } from '../types';
+import { AudioCapture, DEFAULT_CAPTURE_SAMPLE_RATE, startAudioCapture } from '../utils/audioCapture';
+import { PROBLEM_WORD_SCORE, tokenizeWords, weakestWords } from '../utils/pronunciation';
+
+interface PronunciationDrillProps {
+  scenario: Scenario;
+  level?: string;
+  store: LearnerStore;
+  onExit: () => void;
+}
+
+type DrillSource = 'scenario' | 'problemWords';
+
+const scoreColor = (score: number) =>
+  score >= 85 ? 'text-green-700 bg-green-50' : score >= PROBLEM_WORD_SCORE ? 'text-yellow-700 bg-yellow-50' : 'text-red-700 bg-red-50';
+
+export const PronunciationDrill: React.FC<PronunciationDrillProps> = ({ scenario, level, store, onExit }) => {
+  const [source, setSource] = useState<DrillSource>('scenario');
+  const [scenarioSentences, setScenarioSentences] = useState<string[]>([]);
+  const [problemWords, setProblemWords] = useState<ProblemWord[]>([]);
+  const [index, setIndex] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRecording, setIsRecording] = useState(false);
+  const [isScoring, setIsScoring] = useState(false);
+  const [attempt, setAttempt] = useState<PronunciationAttempt | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const contextRef = useRef<AudioContext | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const captureRef = useRef<AudioCapture | null>(null);
+  const framesRef = useRef<Float32Array[]>([]);
+
+  const problemSentences = Array.from(new Set(problemWords.flatMap(w => w.sentences)));
+  const sentences = source === 'scenario' ? scenarioSentences : problemSentences;
+  const sentence = sentences[index] ?? '';
+
+  useEffect(() => {
+    generateDrillSentences(scenario, level)
+      .then(setScenarioSentences)
+      .catch((err) => {
+        console.error(err);
+        // The objective is always a usable sentence to read aloud
+        setScenarioSentences([scenario.objective]);
+      })
+      .finally(() => setIsLoading(false));
+    store.getProblemWords().then(setProblemWords).catch((err) => console.error("Failed to load problem words", err));
+    return () => releaseAudio();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [scenario]);
+
+  const releaseAudio = () => {
+    captureRef.current?.stop();
+    captureRef.current = null;
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+    contextRef.current?.close();
+    contextRef.current = null;
+  };
+
+  const startRecording = async () => {
+    setError(null);
+    setAttempt(null);
+    framesRef.current = [];
+    try {
+      contextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
+      streamRef.current = await navigator.mediaDevices.getUserMedia({ audio: true });
+      captureRef.current = await startAudioCapture(contextRef.current, streamRef.current, {
+        onFrame: (frame) => framesRef.current.push(frame),
+      });
+      setIsRecording(true);
+    } catch (err: any) {
+      console.error(err);
+      releaseAudio();
+      setError(err.message || "Couldn't access your microphone.");
+    }
+  };
+
+  const stopRecording = async () => {
+    releaseAudio();
+    setIsRecording(false);
+
+    const total = framesRef.current.reduce((sum, frame) => sum + frame.length, 0);
+    const samples = new Float32Array(total);
+    let offset = 0;
+    framesRef.current.forEach((frame) => {
+      samples.set(frame, offset);
+      offset += frame.length;
+    });
+    framesRef.current = [];
+
+    setIsScoring(true);
+    try {
+      const result = await assessPronunciation(sentence, samples, DEFAULT_CAPTURE_SAMPLE_RATE, scenario.id);
+      setAttempt(result);
+      await store.savePronunciationAttempt(result);
+      setProblemWords(await store.getProblemWords());
+    } catch (err) {
+      console.error(err);
+      setError("We couldn't score that recording. Please try again.");
+    } finally {
+      setIsScoring(false);
+    }
+  };
+
+  const goTo = (next: number) => {
+    setIndex(Math.max(0, Math.min(sentences.length - 1, next)));
+    setAttempt(null);
+    setError(null);
+  };
+
+  const switchSource = (next: DrillSource) => {
+    setSource(next);
+    setIndex(0);
+    setAttempt(null);
+  };
+
+  const weakest = attempt ? weakestWords(attempt.words) : [];
+  // By position, so only the occurrence that scored low is ringed when a word repeats
+  const weakestIndices = new Set(weakest.map(w => attempt!.words.indexOf(w)));
+
+  return (
+    <div className="max-w-2xl mx-auto space-y-6">
+      <div className="flex items-center justify-between">
+        <button onClick={onExit} className="text-sm text-gray-500 hover:text-gray-800 flex items-center gap-1">
+          <ChevronLeft size={16} />
+          Back to Dashboard
+        </button>
+        <div className="flex items-center gap-1 bg-white rounded-full p-1 border border-gray-200">
+          <button
+            onClick={() => switchSource('scenario')}
+            className={`px-3 py-1 rounded-full text-xs font-medium ${source === 'scenario' ? 'bg-gray-900 text-white' : 'text-gray-600'}`}
+          >
+            Scenario sentences
+          </button>
+          <button
+            onClick={() => switchSource('problemWords')}
+            disabled={problemSentences.length === 0}
+            className={`px-3 py-1 rounded-full text-xs font-medium disabled:opacity-40 ${source === 'problemWords' ? 'bg-gray-900 text-white' : 'text-gray-600'}`}
+          >
+            Problem words ({problemWords.length})
+          </button>
+        </div>
+      </div>
+
+      <div className="text-center">
+        <p className="text-xs font-bold uppercase text-blue-600 mb-1">Pronunciation Drill</p>
+        <h2 className="text-2xl font-bold text-gray-900">{scenario.title}</h2>
+      </div>
+
+      {isLoading ? (
+        <div className="flex flex-col items-center justify-center h-48 text-gray-500">
+          <Loader2 className="w-8 h-8 animate-spin mb-3" />
+          Preparing sentences...
+        </div>
+      ) : (
+        <div className="bg-white rounded-2xl p-8 shadow-sm border border-gray-100 space-y-6">
+          <div className="flex items-center justify-between text-sm text-gray-400">
+            <button onClick={() => goTo(index - 1)} disabled={index === 0 || isRecording} className="disabled:opacity-30">
+              <ChevronLeft size={20} />
+            </button>
+            <span>Sentence {Math.min(index + 1, sentences.length)} of {sentences.length}</span>
+            <button onClick={() => goTo(index + 1)} disabled={index >= sentences.length - 1 || isRecording} className="disabled:opacity-30">
+              <ChevronRight size={20} />
+            </button>
+          </div>
+
+          {/* Reference sentence, coloured per word once scored */}
+          <p className="text-2xl leading-relaxed text-center font-medium text-gray-900">
+            {attempt
+              ? attempt.words.map((w, i) => (
+                  <span
+                    key={i}
+                    title={w.issue ? `${w.score}/100 — ${w.issue}` : `${w.score}/100`}
+                    className={`inline-block rounded px-1 mx-0.5 ${scoreColor(w.score)} ${weakestIndices.has(i) ? 'ring-2 ring-red-400' : ''}`}
+                  >
+                    {w.word}
+                  </span>
+                ))
+              : sentence}
+          </p>
+
+          {source === 'problemWords' && !attempt && (
+            <p className="text-center text-sm text-gray-500">
+              Focus on: {problemWords.filter(w => tokenizeWords(sentence).includes(w.word)).map(w => w.word).join(', ')}
+            </p>
+          )}
+
+          <div className="flex justify-center">
+            {isScoring ? (
+              <div className="flex items-center gap-2 text-gray-500">
+                <Loader2 className="w-5 h-5 animate-spin" />
+                Scoring your pronunciation...
+              </div>
+            ) : isRecording ? (
+              <button onClick={stopRecording} className="px-6 py-3 bg-red-500 text-white rounded-full font-semibold flex items-center gap-2 shadow-lg shadow-red-500/30 animate-pulse">
+                <Square size={18} />
+                Stop
+              </button>
+            ) : (
+              <button
+                onClick={startRecording}
+                disabled={!sentence}
+                className="px-6 py-3 bg-blue-600 text-white rounded-full font-semibold flex items-center gap-2 shadow-lg hover:bg-blue-700 disabled:opacity-50"
+              >
+                {attempt ? <RotateCcw size={18} /> : <Mic size={18} />}
+                {attempt ? 'Try again' : 'Record'}
+              </button>
+            )}
+          </div>
+
+          {error && <p className="text-center text-sm text-red-500">{error}</p>}
+
+          {attempt && (
+            <div className="border-t border-gray-100 pt-6 space-y-4">
+              <div className="grid grid-cols-3 gap-4 text-center">
+                <div>
+                  <Target size={18} className="mx-auto text-gray-400 mb-1" />
+                  <p className="text-2xl font-bold text-gray-900">{attempt.overallScore}</p>
+                  <p className="text-xs text-gray-500">Accuracy</p>
+                </div>
+                <div>
+                  <Gauge size={18} className="mx-auto text-gray-400 mb-1" />
+                  <p className="text-2xl font-bold text-gray-900">{attempt.wordsPerMinute}</p>
+                  <p className="text-xs text-gray-500">Words / min</p>
+                </div>
+                <div>
+                  <PauseCircle size={18} className="mx-auto text-gray-400 mb-1" />
+                  <p className="text-2xl font-bold text-gray-900">{attempt.pauses.length}</p>
+                  <p className="text-xs text-gray-500">Long pauses</p>
+                </div>
+              </div>
+
+              {weakest.length > 0 && (
+                <div className="bg-red-50 rounded-xl p-4 space-y-1">
+                  <p className="text-sm font-semibold text-red-800">Words to work on</p>
+                  {weakest.map((w) => (
+                    <p key={attempt.words.indexOf(w)} className="text-sm text-red-700">
+                      <span className="font-medium">{w.word}</span> ({w.score}/100){w.issue && ` — ${w.issue}`}
+                    </p>
+                  ))}
+                </div>
+              )}
+              {attempt.transcription && (
+                <p className="text-xs text-gray-400 text-center">We heard: "{attempt.transcription}"</p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
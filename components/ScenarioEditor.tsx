@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { validateAuthoredScenario } from '../services/validation';
+import { Scenario, TUTOR_VOICES } from '../types';
+
+interface ScenarioEditorProps {
+  scenario?: Scenario | null; // Omit to create a new scenario
+  onSave: (scenario: Scenario) => void;
+  onCancel: () => void;
+}
+
+const DIFFICULTIES: Scenario['difficulty'][] = ['Beginner', 'Intermediate', 'Advanced'];
+
+const inputClass = 'w-full rounded-lg border border-gray-200 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const Field: React.FC<{ label: string; hint?: string; children: React.ReactNode }> = ({ label, hint, children }) => (
+  <label className="block space-y-1">
+    <span className="text-sm font-medium text-gray-700">{label}</span>
+    {children}
+    {hint && <span className="block text-xs text-gray-400">{hint}</span>}
+  </label>
+);
+
+export const ScenarioEditor: React.FC<ScenarioEditorProps> = ({ scenario, onSave, onCancel }) => {
+  const [title, setTitle] = useState(scenario?.title ?? '');
+  const [description, setDescription] = useState(scenario?.description ?? '');
+  const [difficulty, setDifficulty] = useState<Scenario['difficulty']>(scenario?.difficulty ?? 'Intermediate');
+  const [objective, setObjective] = useState(scenario?.objective ?? '');
+  const [persona, setPersona] = useState(scenario?.persona ?? '');
+  const [voiceName, setVoiceName] = useState(scenario?.voiceName ?? '');
+  const [openingLine, setOpeningLine] = useState(scenario?.openingLine ?? '');
+  const [vocabulary, setVocabulary] = useState(scenario?.targetVocabulary?.join(', ') ?? '');
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const save = () => {
+    const result = validateAuthoredScenario({
+      id: scenario?.id,
+      title,
+      description,
+      difficulty,
+      objective,
+      persona,
+      voiceName,
+      openingLine,
+      targetVocabulary: vocabulary.split(/[,\n]/),
+    }, 0);
+    if (!result.value) {
+      // Paths like "scenarios[0].title" mean nothing in a form
+      setErrors(result.errors.map(error => error.replace(/^scenarios\[0\]\./, '')));
+      return;
+    }
+    // Keep learner progress, but drop the checklist if the objective it was built from changed
+    const keepSteps = scenario?.steps && scenario.objective === result.value.objective;
+    onSave({
+      ...result.value,
+      ...(keepSteps ? { steps: scenario.steps } : {}),
+      ...(scenario?.completion ? { completion: scenario.completion } : {}),
+    });
+  };
+
+  return (
+    <div className="max-w-2xl mx-auto bg-white rounded-2xl p-6 shadow-sm border border-gray-100 space-y-5">
+      <h2 className="text-2xl font-bold text-gray-900">{scenario ? 'Edit Scenario' : 'New Scenario'}</h2>
+
+      {errors.length > 0 && (
+        <div className="rounded-lg bg-orange-50 text-orange-800 p-3 text-sm flex gap-2">
+          <AlertTriangle size={16} className="flex-shrink-0 mt-0.5" />
+          <ul>{errors.map(error => <li key={error}>{error}</li>)}</ul>
+        </div>
+      )}
+
+      <Field label="Title">
+        <input className={inputClass} value={title} onChange={(e) => setTitle(e.target.value)} placeholder="Handling a billing complaint" />
+      </Field>
+      <Field label="Description" hint="The situation, as the learner will see it.">
+        <textarea className={inputClass} rows={2} value={description} onChange={(e) => setDescription(e.target.value)} />
+      </Field>
+      <div className="grid grid-cols-2 gap-4">
+        <Field label="Difficulty">
+          <select className={inputClass} value={difficulty} onChange={(e) => setDifficulty(e.target.value as Scenario['difficulty'])}>
+            {DIFFICULTIES.map(level => <option key={level} value={level}>{level}</option>)}
+          </select>
+        </Field>
+        <Field label="Tutor voice">
+          <select className={inputClass} value={voiceName} onChange={(e) => setVoiceName(e.target.value)}>
+            <option value="">Default</option>
+            {TUTOR_VOICES.map(voice => <option key={voice} value={voice}>{voice}</option>)}
+          </select>
+        </Field>
+      </div>
+      <Field label="Objective" hint="What the learner must achieve for the scenario to count as completed.">
+        <textarea className={inputClass} rows={2} value={objective} onChange={(e) => setObjective(e.target.value)} />
+      </Field>
+      <Field label="Tutor persona" hint='Who the tutor plays, e.g. "Dana, a frustrated customer whose invoice is wrong".'>
+        <input className={inputClass} value={persona} onChange={(e) => setPersona(e.target.value)} />
+      </Field>
+      <Field label="Opening line" hint="Leave empty to let the tutor choose.">
+        <input className={inputClass} value={openingLine} onChange={(e) => setOpeningLine(e.target.value)} />
+      </Field>
+      <Field label="Target vocabulary" hint="Comma-separated words or phrases the tutor should draw out.">
+        <textarea className={inputClass} rows={2} value={vocabulary} onChange={(e) => setVocabulary(e.target.value)} />
+      </Field>
+
+      <div className="flex justify-end gap-3 pt-2">
+        <button onClick={onCancel} className="px-5 py-2.5 bg-gray-100 text-gray-700 rounded-lg font-medium hover:bg-gray-200 transition-colors">
+          Cancel
+        </button>
+        <button onClick={save} className="px-5 py-2.5 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors">
+          Save Scenario
+        </button>
+      </div>
+    </div>
+  );
+};
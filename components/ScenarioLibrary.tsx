@@ -0,0 +1,173 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { BookOpen, Download, FolderOpen, Loader2, Pencil, Plus, Trash2, Upload } from 'lucide-react';
+import { ScenarioEditor } from './ScenarioEditor';
+import { ScenarioPackError } from '../services/errors';
+import { LearnerStore } from '../services/learnerStore';
+import { createScenarioPack, parseScenarioPack, scenarioPackFileName, serializeScenarioPack } from '../services/scenarioPacks';
+import { Scenario } from '../types';
+
+interface ScenarioLibraryProps {
+  store: LearnerStore;
+  onPractice: (scenario: Scenario) => void;
+}
+
+const EXPORT_PACK_NAME = 'My scenarios';
+
+export const ScenarioLibrary: React.FC<ScenarioLibraryProps> = ({ store, onPractice }) => {
+  const [scenarios, setScenarios] = useState<Scenario[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [editing, setEditing] = useState<Scenario | 'new' | null>(null);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const reload = () =>
+    store.listCustomScenarios()
+      .then(setScenarios)
+      .catch((error) => console.error("Failed to load scenarios", error));
+
+  useEffect(() => {
+    reload().finally(() => setIsLoading(false));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [store]);
+
+  const save = async (scenario: Scenario) => {
+    await store.saveCustomScenario(scenario);
+    setEditing(null);
+    setMessage(null);
+    await reload();
+  };
+
+  const remove = async (scenario: Scenario) => {
+    if (!window.confirm(`Delete "${scenario.title}"?`)) return;
+    try {
+      await store.deleteCustomScenario(scenario.id);
+      setMessage(null);
+      await reload();
+    } catch (error) {
+      console.error(error);
+      setMessage({ text: `We couldn't delete "${scenario.title}". Please try again.`, isError: true });
+    }
+  };
+
+  const exportPack = () => {
+    const pack = createScenarioPack(EXPORT_PACK_NAME, scenarios);
+    const url = URL.createObjectURL(new Blob([serializeScenarioPack(pack)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = scenarioPackFileName(pack);
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const importPack = async (file: File) => {
+    try {
+      const pack = parseScenarioPack(await file.text());
+      // Scenarios keep their ids, so re-importing an updated pack replaces the older copies
+      await Promise.all(pack.scenarios.map(scenario => store.saveCustomScenario(scenario)));
+      setMessage({ text: `Imported ${pack.scenarios.length} scenario${pack.scenarios.length === 1 ? '' : 's'} from "${pack.name}".`, isError: false });
+      await reload();
+    } catch (error) {
+      console.error(error);
+      setMessage({
+        text: error instanceof ScenarioPackError ? `${error.message}.` : "We couldn't read that file.",
+        isError: true,
+      });
+    }
+  };
+
+  if (editing) {
+    return (
+      <ScenarioEditor
+        scenario={editing === 'new' ? null : editing}
+        onSave={(scenario) => save(scenario).catch((error) => console.error("Failed to save scenario", error))}
+        onCancel={() => setEditing(null)}
+      />
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex flex-col items-center justify-center h-[40vh] text-gray-500">
+        <Loader2 className="w-8 h-8 animate-spin mb-3" />
+        Loading your scenarios...
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h2 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+          <FolderOpen className="text-gray-400" size={22} />
+          Your Scenarios
+        </h2>
+        <div className="flex gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) importPack(file);
+              e.target.value = '';
+            }}
+          />
+          <button onClick={() => fileInputRef.current?.click()} className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-200 transition-colors flex items-center gap-2">
+            <Upload size={16} /> Import Pack
+          </button>
+          <button onClick={exportPack} disabled={scenarios.length === 0} className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-200 transition-colors flex items-center gap-2 disabled:opacity-50">
+            <Download size={16} /> Export Pack
+          </button>
+          <button onClick={() => setEditing('new')} className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 transition-colors flex items-center gap-2">
+            <Plus size={16} /> New Scenario
+          </button>
+        </div>
+      </div>
+
+      {message && (
+        <p className={`text-sm rounded-lg p-3 ${message.isError ? 'bg-orange-50 text-orange-800' : 'bg-green-50 text-green-800'}`}>{message.text}</p>
+      )}
+
+      {scenarios.length === 0 ? (
+        <p className="text-center text-gray-500 py-12">
+          Write your own practice scenarios, such as customer calls from your workplace, or import a pack from your team.
+        </p>
+      ) : (
+        <div className="grid md:grid-cols-2 gap-6">
+          {scenarios.map(scenario => (
+            <div key={scenario.id} className="bg-white rounded-xl p-6 shadow-sm border border-gray-200 flex flex-col">
+              <div className="flex justify-between items-start mb-2">
+                <h4 className="text-lg font-bold text-gray-900">{scenario.title}</h4>
+                <span className="text-xs font-medium text-gray-500">{scenario.difficulty}</span>
+              </div>
+              <p className="text-gray-600 text-sm mb-3 flex-grow">{scenario.description}</p>
+              {scenario.persona && <p className="text-xs text-gray-500 mb-1">Tutor plays: {scenario.persona}</p>}
+              {scenario.targetVocabulary && (
+                <div className="flex flex-wrap gap-1 mb-3">
+                  {scenario.targetVocabulary.map(word => (
+                    <span key={word} className="px-2 py-0.5 rounded-full text-xs bg-blue-50 text-blue-700">{word}</span>
+                  ))}
+                </div>
+              )}
+              <div className="pt-4 border-t border-gray-100 mt-auto flex gap-2">
+                <button
+                  onClick={() => onPractice(scenario)}
+                  className="flex-1 py-2 bg-gray-900 text-white rounded-lg text-sm font-medium hover:bg-gray-800 transition-colors flex items-center justify-center gap-2"
+                >
+                  <BookOpen size={16} /> Practice
+                </button>
+                <button onClick={() => setEditing(scenario)} className="p-2 text-gray-500 rounded-lg hover:bg-gray-100" aria-label="Edit">
+                  <Pencil size={16} />
+                </button>
+                <button onClick={() => remove(scenario)} className="p-2 text-gray-500 rounded-lg hover:bg-red-50 hover:text-red-600" aria-label="Delete">
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,77 @@
+import React from 'react';
+import { Activity, X } from 'lucide-react';
+import { SessionMetrics } from '../types';
+import { averageResponsePauseMs, fillersPer100Words, learnerTalkShare } from '../utils/sessionMetrics';
+
+interface SessionMetricsCardProps {
+  metrics: SessionMetrics;
+  onDismiss?: () => void;
+}
+
+const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+const Stat: React.FC<{ label: string; value: string; hint: string }> = ({ label, value, hint }) => (
+  <div className="bg-gray-50 rounded-xl p-4">
+    <span className="block text-xs font-medium text-gray-500 uppercase tracking-wide">{label}</span>
+    <span className="block text-2xl font-bold text-gray-900 mt-1">{value}</span>
+    <span className="block text-xs text-gray-400 mt-1">{hint}</span>
+  </div>
+);
+
+export const SessionMetricsCard: React.FC<SessionMetricsCardProps> = ({ metrics, onDismiss }) => {
+  const share = learnerTalkShare(metrics);
+  const pause = averageResponsePauseMs(metrics);
+  const fillers = fillersPer100Words(metrics);
+
+  return (
+    <div className="bg-white rounded-2xl p-6 shadow-sm border border-gray-100 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-bold text-gray-900 flex items-center gap-2">
+          <Activity className="text-blue-500" size={20} />
+          How you spoke
+        </h3>
+        {onDismiss && (
+          <button onClick={onDismiss} className="p-1.5 text-gray-400 rounded-lg hover:bg-gray-100" title="Dismiss">
+            <X size={16} />
+          </button>
+        )}
+      </div>
+
+      {share !== null && (
+        <div>
+          <div className="flex justify-between text-sm text-gray-600 mb-1">
+            <span>You {Math.round(share * 100)}% · {formatSeconds(metrics.learnerTalkMs)}</span>
+            <span>Tutor {Math.round((1 - share) * 100)}% · {formatSeconds(metrics.tutorTalkMs)}</span>
+          </div>
+          <div className="h-2.5 bg-blue-100 rounded-full overflow-hidden">
+            <div className="h-full bg-green-500 rounded-full" style={{ width: `${Math.round(share * 100)}%` }} />
+          </div>
+          <p className="text-xs text-gray-400 mt-1">Aim to do at least half of the talking.</p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <Stat
+          label="Speaking rate"
+          value={metrics.wordsPerMinute !== null ? `${metrics.wordsPerMinute} wpm` : '—'}
+          hint={metrics.wordsPerMinute !== null ? 'Conversational English is 120–160 wpm.' : 'Speak a little longer to measure this.'}
+        />
+        <Stat
+          label="Pause before answering"
+          value={pause !== null ? formatSeconds(pause) : '—'}
+          hint={`Average over ${metrics.responsePausesMs.length} ${metrics.responsePausesMs.length === 1 ? 'reply' : 'replies'}.`}
+        />
+        <Stat
+          label="Fillers"
+          value={fillers !== null ? `${fillers}` : '—'}
+          hint='Like "um" or "you know", per 100 words.'
+        />
+        <Stat
+          label="Interruptions"
+          value={`${metrics.interruptions}`}
+          hint="Times you talked over the tutor."
+        />
+      </div>
+    </div>
+  );
+};
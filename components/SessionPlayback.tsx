@@ -0,0 +1,150 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Download, Loader2, Play, X } from 'lucide-react';
+import { LearnerStore } from '../services/learnerStore';
+import { SessionRecord } from '../types';
+import { decodeWav } from '../utils/wav';
+
+interface SessionPlaybackProps {
+  store: LearnerStore;
+  session: SessionRecord;
+  onClose: () => void;
+}
+
+const PEAK_COUNT = 160;
+
+const formatTime = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  return `${Math.floor(totalSeconds / 60)}:${(totalSeconds % 60).toString().padStart(2, '0')}`;
+};
+
+// Max absolute amplitude per bucket, 0-1, for the waveform overview
+const computePeaks = (samples: Int16Array, count: number) => {
+  const bucket = Math.max(1, Math.floor(samples.length / count));
+  return Array.from({ length: count }, (_, i) => {
+    let peak = 0;
+    for (let j = i * bucket; j < Math.min(samples.length, (i + 1) * bucket); j++) peak = Math.max(peak, Math.abs(samples[j]));
+    return peak / 32768;
+  });
+};
+
+export const SessionPlayback: React.FC<SessionPlaybackProps> = ({ store, session, onClose }) => {
+  const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  const [peaks, setPeaks] = useState<number[]>([]);
+  const [durationMs, setDurationMs] = useState(0);
+  const [positionMs, setPositionMs] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const audioRef = useRef<HTMLAudioElement>(null);
+
+  useEffect(() => {
+    if (!session.recordingId) return;
+    let url: string | null = null;
+    let cancelled = false;
+    store.getRecording(session.recordingId)
+      .then(async (recording) => {
+        if (!recording) throw new Error('Recording not found');
+        const wav = decodeWav(await recording.wav.arrayBuffer());
+        if (cancelled) return;
+        url = URL.createObjectURL(recording.wav);
+        setAudioUrl(url);
+        setPeaks(computePeaks(wav.samples, PEAK_COUNT));
+        setDurationMs(recording.durationMs);
+      })
+      .catch((error) => {
+        console.error("Failed to load recording", error);
+        if (!cancelled) setLoadError("This recording couldn't be loaded.");
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [store, session.recordingId]);
+
+  const seekTo = (ms: number) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.currentTime = ms / 1000;
+    audio.play().catch((error) => console.error("Playback failed", error));
+  };
+
+  const turns = session.transcript.turns.filter(turn => turn.text.trim());
+  const activeIndex = turns.findIndex(turn => positionMs >= turn.startMs && positionMs <= turn.endMs + 500);
+  const fileName = `${session.kind === 'ASSESSMENT' ? 'assessment' : 'practice'}-${new Date(session.startedAt).toISOString().slice(0, 10)}.wav`;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h4 className="font-semibold text-gray-800">Recording</h4>
+        <div className="flex items-center gap-2">
+          {audioUrl && (
+            <a href={audioUrl} download={fileName} className="p-2 text-gray-500 rounded-lg hover:bg-gray-200" title="Download WAV">
+              <Download size={16} />
+            </a>
+          )}
+          <button onClick={onClose} className="p-2 text-gray-500 rounded-lg hover:bg-gray-200" title="Close">
+            <X size={16} />
+          </button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-sm text-gray-500">
+          <Loader2 size={16} className="animate-spin" /> Loading recording...
+        </div>
+      ) : loadError ? (
+        <p className="text-sm text-orange-700">{loadError}</p>
+      ) : (
+        <>
+          {/* Waveform with a playhead; click to seek */}
+          <div
+            className="relative h-12 flex items-center gap-px cursor-pointer"
+            onClick={(e) => {
+              const rect = e.currentTarget.getBoundingClientRect();
+              seekTo(((e.clientX - rect.left) / rect.width) * durationMs);
+            }}
+          >
+            {peaks.map((peak, index) => (
+              <div
+                key={index}
+                className={`flex-1 rounded-sm ${(index / peaks.length) * durationMs <= positionMs ? 'bg-blue-500' : 'bg-gray-300'}`}
+                style={{ height: `${Math.max(4, peak * 100)}%` }}
+              />
+            ))}
+          </div>
+          <audio
+            ref={audioRef}
+            src={audioUrl ?? undefined}
+            controls
+            className="w-full"
+            onTimeUpdate={(e) => setPositionMs(e.currentTarget.currentTime * 1000)}
+          />
+        </>
+      )}
+
+      <ol className="space-y-1 text-sm text-gray-700">
+        {turns.map((turn, index) => (
+          <li key={index}>
+            <button
+              onClick={() => seekTo(turn.startMs)}
+              disabled={!audioUrl}
+              className={`w-full flex gap-3 text-left rounded-md px-2 py-1 transition-colors ${
+                index === activeIndex ? 'bg-blue-100' : 'hover:bg-gray-100'
+              }`}
+            >
+              <span className="text-xs text-gray-400 w-10 flex-shrink-0 pt-0.5 flex items-center gap-1">
+                <Play size={10} />{formatTime(turn.startMs)}
+              </span>
+              <span className={`font-semibold flex-shrink-0 ${turn.speaker === 'tutor' ? 'text-blue-600' : 'text-green-600'}`}>
+                {turn.speaker === 'tutor' ? 'Tutor' : 'You'}
+              </span>
+              <span className={turn.interrupted ? 'text-gray-400 italic' : ''}>{turn.text}</span>
+            </button>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
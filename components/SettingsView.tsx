@@ -0,0 +1,194 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CheckCircle2, Loader2, Volume2 } from 'lucide-react';
+import { synthesizeSpeech } from '../services/geminiService';
+import { ASSESSMENT_LENGTHS_MIN, CORRECTION_STYLES, CorrectionStyle, LearnerSettings, SPEAKING_PACES, SpeakingPace, TUTOR_VOICES, TutorVoice } from '../types';
+import { playPCM16 } from '../utils/audio';
+
+interface SettingsViewProps {
+  settings: LearnerSettings;
+  onSave: (settings: LearnerSettings) => Promise<void>;
+}
+
+const PACE_OPTIONS: Record<SpeakingPace, { label: string; description: string }> = {
+  slow: { label: 'Slow', description: 'Short sentences with pauses between them.' },
+  natural: { label: 'Natural', description: 'An everyday conversational pace.' },
+  fast: { label: 'Native', description: 'Full speed, for listening practice.' },
+};
+
+const CORRECTION_OPTIONS: Record<CorrectionStyle, { label: string; description: string }> = {
+  none: { label: 'No corrections', description: 'The tutor keeps the conversation going and lets mistakes pass.' },
+  recast: { label: 'Recast only', description: 'The tutor repeats what you meant correctly in its reply, without stopping.' },
+  explicit: { label: 'Stop and correct', description: 'The tutor points out each mistake and asks you to try again.' },
+};
+
+const PREVIEW_TEXT = "Hi! I'm your tutor. Let's practise your English together.";
+
+const inputClass = 'w-full rounded-lg border border-gray-200 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const Section: React.FC<{ title: string; hint?: string; children: React.ReactNode }> = ({ title, hint, children }) => (
+  <div className="space-y-2">
+    <h3 className="text-sm font-semibold text-gray-800">{title}</h3>
+    {hint && <p className="text-xs text-gray-400">{hint}</p>}
+    {children}
+  </div>
+);
+
+export const SettingsView: React.FC<SettingsViewProps> = ({ settings, onSave }) => {
+  const [draft, setDraft] = useState(settings);
+  const [previewing, setPreviewing] = useState<TutorVoice | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [savedAt, setSavedAt] = useState<number | null>(null);
+  const audioContextRef = useRef<AudioContext | null>(null);
+
+  useEffect(() => () => {
+    audioContextRef.current?.close();
+  }, []);
+
+  const update = (changes: Partial<LearnerSettings>) => {
+    setDraft(current => ({ ...current, ...changes }));
+    setSavedAt(null);
+  };
+
+  const preview = async (voice: TutorVoice) => {
+    setPreviewing(voice);
+    try {
+      if (!audioContextRef.current) {
+        audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
+      }
+      await playPCM16(audioContextRef.current, await synthesizeSpeech(PREVIEW_TEXT, voice));
+    } catch (error) {
+      console.error("Failed to preview voice", error);
+    } finally {
+      setPreviewing(null);
+    }
+  };
+
+  const save = async () => {
+    setIsSaving(true);
+    try {
+      await onSave(draft);
+      setSavedAt(Date.now());
+    } catch (error) {
+      console.error("Failed to save settings", error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const voicePicker = (value: TutorVoice, onChange: (voice: TutorVoice) => void) => (
+    <div className="flex gap-2">
+      <select className={inputClass} value={value} onChange={(e) => onChange(e.target.value as TutorVoice)}>
+        {TUTOR_VOICES.map(voice => <option key={voice} value={voice}>{voice}</option>)}
+      </select>
+      <button
+        onClick={() => preview(value)}
+        disabled={previewing !== null}
+        className="flex items-center gap-1.5 px-3 py-2 rounded-lg bg-blue-50 text-blue-700 text-sm font-medium hover:bg-blue-100 disabled:opacity-50 whitespace-nowrap"
+      >
+        {previewing === value ? <Loader2 size={14} className="animate-spin" /> : <Volume2 size={14} />}
+        Preview
+      </button>
+    </div>
+  );
+
+  const optionButtons = <T extends string,>(
+    options: readonly T[],
+    labels: Record<T, { label: string; description: string }>,
+    value: T,
+    onChange: (option: T) => void,
+  ) => (
+    <div className="grid sm:grid-cols-3 gap-2">
+      {options.map(option => (
+        <button
+          key={option}
+          onClick={() => onChange(option)}
+          className={`text-left rounded-lg border p-3 transition-colors ${
+            value === option ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:border-blue-300'
+          }`}
+        >
+          <span className="block text-sm font-medium text-gray-800">{labels[option].label}</span>
+          <span className="block text-xs text-gray-500 mt-0.5">{labels[option].description}</span>
+        </button>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="max-w-2xl mx-auto bg-white rounded-2xl p-6 shadow-sm border border-gray-100 space-y-6">
+      <h2 className="text-2xl font-bold text-gray-900">Settings</h2>
+
+      <div className="grid sm:grid-cols-2 gap-4">
+        <Section title="Practice tutor voice" hint="Scenarios with their own voice keep it.">
+          {voicePicker(draft.tutorVoice, voice => update({ tutorVoice: voice }))}
+        </Section>
+        <Section title="Examiner voice" hint="Used for level assessments.">
+          {voicePicker(draft.examinerVoice, voice => update({ examinerVoice: voice }))}
+        </Section>
+      </div>
+
+      <Section title="Speaking pace">
+        {optionButtons(SPEAKING_PACES, PACE_OPTIONS, draft.pace, pace => update({ pace }))}
+      </Section>
+
+      <Section title="Corrections during practice" hint="Assessments never correct you, so the result reflects how you really speak.">
+        {optionButtons(CORRECTION_STYLES, CORRECTION_OPTIONS, draft.correctionStyle, correctionStyle => update({ correctionStyle }))}
+      </Section>
+
+      <Section title="Native language" hint="Optional. The practice tutor may briefly explain words or corrections in it.">
+        <input
+          className={inputClass}
+          value={draft.nativeLanguage}
+          onChange={(e) => update({ nativeLanguage: e.target.value })}
+          placeholder="e.g. Spanish"
+        />
+      </Section>
+
+      <div className="grid sm:grid-cols-2 gap-4">
+        <Section title="Default assessment length">
+          <select
+            className={inputClass}
+            value={draft.assessmentMinutes}
+            onChange={(e) => update({ assessmentMinutes: Number(e.target.value) })}
+          >
+            {ASSESSMENT_LENGTHS_MIN.map(minutes => <option key={minutes} value={minutes}>{minutes} min</option>)}
+          </select>
+        </Section>
+        <Section title="Sessions">
+          <label className="flex items-center gap-2 text-sm text-gray-700 py-2">
+            <input
+              type="checkbox"
+              checked={draft.recordSessions}
+              onChange={(e) => update({ recordSessions: e.target.checked })}
+              className="rounded"
+            />
+            Record sessions by default
+          </label>
+          <label className="flex items-center gap-2 text-sm text-gray-700 py-2">
+            <input
+              type="checkbox"
+              checked={draft.textChatByDefault}
+              onChange={(e) => update({ textChatByDefault: e.target.checked })}
+              className="rounded"
+            />
+            Type instead of speaking
+          </label>
+        </Section>
+      </div>
+
+      <div className="flex items-center justify-end gap-3 pt-2">
+        {savedAt && (
+          <span className="text-sm text-green-600 flex items-center gap-1">
+            <CheckCircle2 size={14} /> Saved
+          </span>
+        )}
+        <button
+          onClick={save}
+          disabled={isSaving}
+          className="px-5 py-2.5 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          {isSaving ? 'Saving...' : 'Save Settings'}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, Quote } from 'lucide-react';
+import { AssessmentResult, AssessmentSkill } from '../types';
+
+export const SKILL_LABELS: Record<AssessmentSkill, string> = {
+  grammar: 'Grammar',
+  vocabulary: 'Vocabulary range',
+  fluency: 'Fluency',
+  coherence: 'Coherence',
+  interaction: 'Interaction',
+};
+
+// Hex rather than Tailwind classes so the history chart can use them as SVG strokes
+export const SKILL_COLORS: Record<AssessmentSkill, string> = {
+  grammar: '#2563eb',
+  vocabulary: '#9333ea',
+  fluency: '#16a34a',
+  coherence: '#ea580c',
+  interaction: '#db2777',
+};
+
+interface SkillBreakdownProps {
+  assessment: AssessmentResult;
+}
+
+const confidenceLabel = (confidence: number) =>
+  confidence >= 0.75 ? 'High confidence' : confidence >= 0.45 ? 'Moderate confidence' : 'Low confidence — a longer conversation would help';
+
+export const SkillBreakdown: React.FC<SkillBreakdownProps> = ({ assessment }) => {
+  const [expanded, setExpanded] = useState<AssessmentSkill | null>(null);
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-gray-500">{confidenceLabel(assessment.confidence)} ({Math.round(assessment.confidence * 100)}%)</p>
+      {assessment.skills.map(({ skill, score, level, comment, evidence }) => {
+        const isExpanded = expanded === skill;
+        return (
+          <div key={skill}>
+            <button onClick={() => setExpanded(isExpanded ? null : skill)} className="w-full text-left">
+              <div className="flex items-center justify-between text-sm mb-1">
+                <span className="font-medium text-gray-700 flex items-center gap-1">
+                  {isExpanded ? <ChevronDown size={14} className="text-gray-400" /> : <ChevronRight size={14} className="text-gray-400" />}
+                  {SKILL_LABELS[skill]}
+                </span>
+                <span className="text-gray-500">
+                  <span className="font-semibold text-gray-800">{level}</span> · {score}/100
+                </span>
+              </div>
+              <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                <div className="h-full rounded-full transition-all" style={{ width: `${score}%`, backgroundColor: SKILL_COLORS[skill] }} />
+              </div>
+            </button>
+            {isExpanded && (
+              <div className="mt-2 ml-5 space-y-1.5 text-sm">
+                {comment && <p className="text-gray-600">{comment}</p>}
+                {evidence.map(quote => (
+                  <p key={quote} className="text-gray-500 italic flex items-start gap-1.5">
+                    <Quote size={12} className="flex-shrink-0 mt-1 text-gray-300" />
+                    {quote}
+                  </p>
+                ))}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
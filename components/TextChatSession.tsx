@@ -0,0 +1,215 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Loader2, LogOut, Send, Timer, Volume2, VolumeX } from 'lucide-react';
+import { ObjectiveChecklist } from './ObjectiveChecklist';
+import { TranscriptPanel } from './TranscriptPanel';
+import { synthesizeSpeech } from '../services/geminiService';
+import { buildTextChatPrompt, TEXT_CHAT_START, WRAP_UP_INSTRUCTION } from '../services/prompts';
+import { ChatConnection, getAiProvider } from '../services/providers';
+import { LiveSessionConfig, ObjectiveProgress, ObjectiveStep, Transcript } from '../types';
+import { playPCM16 } from '../utils/audio';
+import { appendFragment, completeTurn, createTranscript, finalizeTranscript } from '../utils/transcript';
+
+const TIMER_TICK_MS = 500;
+const WRAP_UP_LEAD_MS = 30000; // Typing is slower than talking, so the tutor is asked to wrap up earlier
+const END_GRACE_MS = 8000; // Let the tutor finish its goodbye, up to this long past the limit
+
+const formatCountdown = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  return `${Math.floor(totalSeconds / 60)}:${(totalSeconds % 60).toString().padStart(2, '0')}`;
+};
+
+interface TextChatSessionProps {
+  config: LiveSessionConfig;
+  onEndSession: (transcript: Transcript) => void;
+  /** Called with the transcript each time a turn completes. */
+  onTranscriptUpdate?: (transcript: Transcript) => void;
+  checklist?: { steps: ObjectiveStep[]; progress: ObjectiveProgress };
+}
+
+// Typed alternative to LiveSession. It runs the same prompts and produces the same transcript
+// structure, so everything downstream (plans, reports, objectives) treats both alike.
+export const TextChatSession: React.FC<TextChatSessionProps> = ({ config, onEndSession, onTranscriptUpdate, checklist }) => {
+  const [transcript, setTranscript] = useState<Transcript>(() => createTranscript());
+  const [draft, setDraft] = useState('');
+  const [isReplying, setIsReplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [readAloud, setReadAloud] = useState(false);
+  const [remainingMs, setRemainingMs] = useState<number | null>(config.durationMs ?? null);
+
+  const chatRef = useRef<ChatConnection | null>(null);
+  const transcriptRef = useRef<Transcript>(transcript);
+  const isReplyingRef = useRef(false);
+  const readAloudRef = useRef(false);
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const hasSentWrapUpRef = useRef(false);
+  const hasEndedRef = useRef(false);
+  const onTranscriptUpdateRef = useRef(onTranscriptUpdate);
+  onTranscriptUpdateRef.current = onTranscriptUpdate;
+
+  const updateTranscript = (update: (current: Transcript) => Transcript) => {
+    transcriptRef.current = update(transcriptRef.current);
+    setTranscript(transcriptRef.current);
+  };
+
+  const elapsedMs = () => Date.now() - transcriptRef.current.startedAt;
+
+  useEffect(() => {
+    chatRef.current = getAiProvider().startChat({ ...config, systemInstruction: buildTextChatPrompt(config.systemInstruction) });
+    requestReply(TEXT_CHAT_START);
+    return () => {
+      chatRef.current?.close();
+      chatRef.current = null;
+      audioContextRef.current?.close();
+      audioContextRef.current = null;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const speak = async (text: string) => {
+    try {
+      if (!audioContextRef.current) {
+        audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
+      }
+      const audio = await synthesizeSpeech(text, config.voiceName);
+      if (readAloudRef.current && audioContextRef.current) await playPCM16(audioContextRef.current, audio);
+    } catch (err) {
+      console.error("Failed to read reply aloud", err);
+    }
+  };
+
+  // Streams the tutor's reply into the transcript as it arrives
+  const requestReply = async (text: string) => {
+    const chat = chatRef.current;
+    if (!chat) return;
+    isReplyingRef.current = true;
+    setIsReplying(true);
+    setError(null);
+    try {
+      const reply = await chat.send(text, (fragment) => {
+        updateTranscript(current => appendFragment(current, 'tutor', fragment, elapsedMs()));
+      });
+      if (hasEndedRef.current) return;
+      updateTranscript(current => completeTurn(current, elapsedMs()));
+      onTranscriptUpdateRef.current?.(transcriptRef.current);
+      if (readAloudRef.current && reply.trim()) speak(reply);
+    } catch (err: any) {
+      console.error("Chat request failed:", err);
+      setError(err.message || "The tutor couldn't reply. Please try again.");
+    } finally {
+      isReplyingRef.current = false;
+      setIsReplying(false);
+    }
+  };
+
+  const sendMessage = () => {
+    const text = draft.trim();
+    if (!text || isReplyingRef.current) return;
+    setDraft('');
+    updateTranscript(current => completeTurn(appendFragment(current, 'user', text, elapsedMs()), elapsedMs()));
+    onTranscriptUpdateRef.current?.(transcriptRef.current);
+    requestReply(text);
+  };
+
+  const handleEndSession = () => {
+    if (hasEndedRef.current) return;
+    hasEndedRef.current = true;
+    chatRef.current?.close();
+    onEndSession(finalizeTranscript(transcriptRef.current, elapsedMs()));
+  };
+
+  const toggleReadAloud = () => {
+    readAloudRef.current = !readAloud;
+    setReadAloud(!readAloud);
+  };
+
+  // Count down from the start: ask the tutor to wrap up near the end, then end once its reply is in
+  useEffect(() => {
+    const durationMs = config.durationMs;
+    if (!durationMs) return;
+
+    const timer = setInterval(() => {
+      const remaining = durationMs - elapsedMs();
+      setRemainingMs(remaining);
+
+      if (remaining <= Math.min(WRAP_UP_LEAD_MS, durationMs / 4) && !hasSentWrapUpRef.current && !isReplyingRef.current) {
+        hasSentWrapUpRef.current = true;
+        requestReply(WRAP_UP_INSTRUCTION);
+      }
+      if (remaining <= 0 && (!isReplyingRef.current || remaining <= -END_GRACE_MS)) {
+        handleEndSession();
+      }
+    }, TIMER_TICK_MS);
+
+    return () => clearInterval(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [config.durationMs]);
+
+  return (
+    <div className="flex flex-col w-full h-full min-h-[50vh] bg-gradient-to-b from-gray-50 to-gray-100 rounded-3xl p-6 shadow-xl border border-white/50 space-y-4">
+      <div className="flex items-center justify-between flex-shrink-0">
+        <span className="px-4 py-1.5 rounded-full text-sm font-medium bg-blue-100 text-blue-700 border border-blue-200">
+          Text chat
+        </span>
+        {remainingMs !== null && (
+          <span className={`flex items-center gap-1.5 text-sm font-medium tabular-nums ${
+            remainingMs <= WRAP_UP_LEAD_MS ? 'text-orange-600' : 'text-gray-500'
+          }`}>
+            <Timer size={14} />
+            {remainingMs > 0 ? `${formatCountdown(remainingMs)} left` : 'Wrapping up...'}
+          </span>
+        )}
+        <div className="flex items-center gap-2">
+          <button
+            onClick={toggleReadAloud}
+            title={readAloud ? "Stop reading replies aloud" : "Read replies aloud"}
+            className={`p-2.5 rounded-full transition-colors ${
+              readAloud ? 'bg-blue-100 text-blue-600 hover:bg-blue-200' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            {readAloud ? <Volume2 size={18} /> : <VolumeX size={18} />}
+          </button>
+          <button
+            onClick={handleEndSession}
+            title="End session"
+            className="p-2.5 bg-red-500 text-white rounded-full hover:bg-red-600 transition-colors"
+          >
+            <LogOut size={18} />
+          </button>
+        </div>
+      </div>
+
+      {checklist && checklist.steps.length > 0 && (
+        <ObjectiveChecklist steps={checklist.steps} progress={checklist.progress} />
+      )}
+
+      <div className="w-full flex-1 min-h-0 bg-white/70 rounded-2xl p-3 border border-white shadow-inner">
+        <TranscriptPanel transcript={transcript} showTutorCaptions />
+      </div>
+
+      {error && <p className="text-red-500 text-sm text-center">{error}</p>}
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          sendMessage();
+        }}
+        className="flex gap-2 flex-shrink-0"
+      >
+        <input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder={isReplying ? "Tutor is typing..." : "Type your reply in English"}
+          autoFocus
+          className="flex-1 rounded-full border border-gray-200 px-4 py-3 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <button
+          type="submit"
+          disabled={isReplying || !draft.trim()}
+          className="p-3 bg-blue-600 text-white rounded-full hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          {isReplying ? <Loader2 size={20} className="animate-spin" /> : <Send size={20} />}
+        </button>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,60 @@
+import React, { useEffect, useRef } from 'react';
+import { Turn, Transcript } from '../types';
+
+interface TranscriptPanelProps {
+  transcript: Transcript;
+  showTutorCaptions: boolean;
+}
+
+const HIDDEN_TUTOR_TEXT = 'Tutor captions hidden — listen carefully!';
+
+const TurnLine: React.FC<{ turn: Turn; showTutorCaptions: boolean; isLive?: boolean }> = ({ turn, showTutorCaptions, isLive }) => {
+  const isTutor = turn.speaker === 'tutor';
+  const isHidden = isTutor && !showTutorCaptions;
+  return (
+    <div className={`flex ${isTutor ? 'justify-start' : 'justify-end'}`}>
+      <div className={`max-w-[85%] rounded-2xl px-3 py-2 text-sm ${
+        isTutor ? 'bg-blue-50 text-blue-900 rounded-bl-sm' : 'bg-green-50 text-green-900 rounded-br-sm'
+      } ${isLive ? 'opacity-80' : ''}`}>
+        <span className="block text-[10px] font-semibold uppercase tracking-wide opacity-60 mb-0.5">
+          {isTutor ? 'Tutor' : 'You'}{isLive && ' · live'}
+        </span>
+        {isHidden ? (
+          <span className="italic text-blue-400">{HIDDEN_TUTOR_TEXT}</span>
+        ) : (
+          <span className={turn.interrupted ? 'text-gray-400' : ''}>
+            {turn.text}
+            {turn.interrupted && ' …'}
+            {isLive && <span className="inline-block w-1.5 h-3 ml-1 bg-current opacity-50 animate-pulse align-middle" />}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export const TranscriptPanel: React.FC<TranscriptPanelProps> = ({ transcript, showTutorCaptions }) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const completedTurns = transcript.turns.filter(turn => turn.isComplete);
+  const liveTurns = transcript.turns.filter(turn => !turn.isComplete);
+
+  // Keep the newest text in view as captions stream in
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (el) el.scrollTop = el.scrollHeight;
+  }, [transcript]);
+
+  return (
+    <div ref={scrollRef} className="w-full h-full overflow-y-auto space-y-2 pr-1">
+      {transcript.turns.length === 0 && (
+        <p className="text-center text-sm text-gray-400 pt-4">The conversation will appear here.</p>
+      )}
+      {completedTurns.map((turn, index) => (
+        <TurnLine key={`done-${index}`} turn={turn} showTutorCaptions={showTutorCaptions} />
+      ))}
+      {liveTurns.map((turn, index) => (
+        <TurnLine key={`live-${index}`} turn={turn} showTutorCaptions={showTutorCaptions} isLive />
+      ))}
+    </div>
+  );
+};
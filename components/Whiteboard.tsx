@@ -0,0 +1,53 @@
+import React from 'react';
+import { BookOpen, Lightbulb, PenLine, X } from 'lucide-react';
+import { WhiteboardItem } from '../types';
+
+interface WhiteboardProps {
+  items: WhiteboardItem[]; // Oldest first
+  onDismiss: (id: string) => void;
+}
+
+export const Whiteboard: React.FC<WhiteboardProps> = ({ items, onDismiss }) => (
+  <div className="w-full md:w-72 max-h-44 bg-white/70 rounded-2xl p-3 border border-white shadow-inner flex flex-col min-h-0">
+    <span className="text-xs font-semibold uppercase tracking-wide text-gray-500 flex items-center gap-1.5 mb-2">
+      <PenLine size={14} />
+      Whiteboard
+    </span>
+    {items.length === 0 ? (
+      <p className="text-sm text-gray-400">Hints and new words from your tutor will appear here.</p>
+    ) : (
+      <ul className="space-y-2 overflow-y-auto">
+        {/* Newest first, so the latest is always in view */}
+        {[...items].reverse().map(item => (
+          <li
+            key={item.id}
+            className={`relative rounded-xl p-3 pr-7 text-sm ${item.kind === 'hint' ? 'bg-amber-50 text-amber-900' : 'bg-blue-50 text-blue-900'}`}
+          >
+            <button
+              onClick={() => onDismiss(item.id)}
+              className="absolute top-2 right-2 p-0.5 rounded text-gray-400 hover:text-gray-600"
+              title="Dismiss"
+            >
+              <X size={14} />
+            </button>
+            {item.kind === 'hint' ? (
+              <p className="flex items-start gap-2">
+                <Lightbulb size={16} className="flex-shrink-0 mt-0.5 text-amber-500" />
+                {item.text}
+              </p>
+            ) : (
+              <>
+                <p className="font-semibold flex items-center gap-2">
+                  <BookOpen size={16} className="flex-shrink-0 text-blue-500" />
+                  {item.word}
+                </p>
+                <p className="mt-1">{item.definition}</p>
+                <p className="mt-1 italic text-blue-700">"{item.example}"</p>
+              </>
+            )}
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
@@ -0,0 +1,73 @@
+import { CefrLevel, ErrorCategory, LearnerProfile } from '../types';
+import { getLearnerStore } from './learnerStore';
+import { countErrorCategories } from './planEvolution';
+import { toCefrLevel } from './validation';
+
+// Teacher view: one summary row per learner on this device, exportable as CSV.
+
+const TOP_ERROR_COUNT = 3;
+
+export interface LearnerSummary {
+  profile: LearnerProfile;
+  cefr: CefrLevel | null; // From the latest plan; null before the first assessment
+  lastSessionAt: number | null; // epoch ms
+  sessionCount: number;
+  scenariosCompleted: number;
+  topErrors: [ErrorCategory, number][]; // Most frequent first, across all practice reports
+}
+
+export const summarizeLearner = async (profile: LearnerProfile): Promise<LearnerSummary> => {
+  const store = getLearnerStore(profile);
+  const [plans, sessions, reports, customScenarios] = await Promise.all([
+    store.listPlans(),
+    store.listSessions(),
+    store.listReports(),
+    store.listCustomScenarios(),
+  ]);
+  const latest = plans[0]?.plan;
+  // Evolved plans retire completed scenarios, so look through every plan, not just the latest
+  const completed = new Set(
+    [...plans.flatMap(stored => stored.plan.scenarios), ...customScenarios]
+      .filter(scenario => scenario.completion)
+      .map(scenario => scenario.id),
+  );
+
+  return {
+    profile,
+    cefr: latest ? latest.assessment?.cefr ?? toCefrLevel(latest.level) : null,
+    lastSessionAt: sessions[0]?.startedAt ?? null,
+    sessionCount: sessions.length,
+    scenariosCompleted: completed.size,
+    topErrors: countErrorCategories(reports).slice(0, TOP_ERROR_COUNT),
+  };
+};
+
+export const summarizeLearners = (profiles: LearnerProfile[]): Promise<LearnerSummary[]> =>
+  Promise.all(profiles.map(summarizeLearner));
+
+const CSV_HEADERS = ['Learner', 'CEFR level', 'Last session', 'Sessions', 'Scenarios completed', 'Top errors'];
+
+const csvField = (value: string | number) => {
+  let text = String(value);
+  // Spreadsheets run cells starting with these as formulas
+  if (/^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const learnerSummariesToCsv = (summaries: LearnerSummary[]): string =>
+  [
+    CSV_HEADERS,
+    ...summaries.map(summary => [
+      summary.profile.name,
+      summary.cefr ?? '',
+      summary.lastSessionAt ? new Date(summary.lastSessionAt).toISOString() : '',
+      summary.sessionCount,
+      summary.scenariosCompleted,
+      summary.topErrors.map(([category, count]) => `${category} (${count})`).join('; '),
+    ]),
+  ]
+    .map(row => row.map(csvField).join(','))
+    .join('\r\n');
+
+export const classOverviewFileName = (date: Date = new Date()) =>
+  `fluentflow-class-${date.toISOString().slice(0, 10)}.csv`;
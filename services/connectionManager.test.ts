@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { LiveSessionConfig } from '../types';
+import { connectWithRecovery, ConnectionState } from './connectionManager';
+import { AiProvider, LiveConnection, LiveEvent } from './providers';
+
+const config: LiveSessionConfig = { kind: 'PRACTICE', systemInstruction: 'Be a barista.', voiceName: 'Puck' };
+
+// A provider whose connections always open; the test decides what each one does next
+const createFakeProvider = () => {
+  const sessions: { onEvent: (event: LiveEvent) => void; connection: LiveConnection }[] = [];
+  const provider = {
+    connectLive: vi.fn(async (_config: LiveSessionConfig, onEvent: (event: LiveEvent) => void) => {
+      const connection: LiveConnection = {
+        sendAudio: vi.fn(),
+        endAudioStream: vi.fn(),
+        sendText: vi.fn(),
+        sendToolResponse: vi.fn(),
+        close: vi.fn(),
+      };
+      sessions.push({ onEvent, connection });
+      return connection;
+    }),
+  } as unknown as AiProvider;
+  return { provider, sessions, latest: () => sessions[sessions.length - 1] };
+};
+
+describe('connectWithRecovery', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('gives up when every connection is closed straight after opening', async () => {
+    const { provider, sessions, latest } = createFakeProvider();
+    const states: ConnectionState[] = [];
+    connectWithRecovery({
+      provider,
+      config,
+      onEvent: vi.fn(),
+      onStateChange: (state) => states.push(state),
+      getResumeContext: () => '',
+      maxAttempts: 3,
+      baseDelayMs: 100,
+    });
+
+    for (let i = 0; i < 10 && states[states.length - 1] !== 'failed'; i++) {
+      await vi.advanceTimersByTimeAsync(0);
+      latest().onEvent({ type: 'close', reason: 'Quota exceeded' });
+      await vi.advanceTimersByTimeAsync(1000);
+    }
+
+    expect(states[states.length - 1]).toBe('failed');
+    expect(sessions).toHaveLength(4); // The first connection and three retries
+  });
+
+  it('resets the attempt count once the server has sent something', async () => {
+    const { provider, latest } = createFakeProvider();
+    const onStateChange = vi.fn();
+    connectWithRecovery({ provider, config, onEvent: vi.fn(), onStateChange, getResumeContext: () => '', maxAttempts: 1, baseDelayMs: 100 });
+
+    for (let i = 0; i < 3; i++) {
+      await vi.advanceTimersByTimeAsync(0);
+      latest().onEvent({ type: 'close', reason: 'Network' });
+      await vi.advanceTimersByTimeAsync(100);
+      latest().onEvent({ type: 'turnComplete' });
+    }
+
+    expect(onStateChange).not.toHaveBeenCalledWith('failed', expect.anything());
+  });
+
+  it('resets the attempt count after staying connected for a while', async () => {
+    const { provider, latest } = createFakeProvider();
+    const onStateChange = vi.fn();
+    connectWithRecovery({
+      provider,
+      config,
+      onEvent: vi.fn(),
+      onStateChange,
+      getResumeContext: () => '',
+      maxAttempts: 1,
+      baseDelayMs: 100,
+      stableAfterMs: 5000,
+    });
+
+    for (let i = 0; i < 3; i++) {
+      await vi.advanceTimersByTimeAsync(0);
+      latest().onEvent({ type: 'close', reason: 'Network' });
+      await vi.advanceTimersByTimeAsync(100 + 5000);
+    }
+
+    expect(onStateChange).not.toHaveBeenCalledWith('failed', expect.anything());
+  });
+
+  it('resumes a reconnected session with the conversation so far', async () => {
+    const { provider, latest } = createFakeProvider();
+    connectWithRecovery({ provider, config, onEvent: vi.fn(), onStateChange: vi.fn(), getResumeContext: () => 'User: Hello', baseDelayMs: 100 });
+    await vi.advanceTimersByTimeAsync(0);
+    latest().onEvent({ type: 'close', reason: 'Network' });
+    await vi.advanceTimersByTimeAsync(100);
+
+    const resumed = vi.mocked(provider.connectLive).mock.calls[1][0];
+    expect(resumed.systemInstruction).toContain('User: Hello');
+  });
+});
@@ -0,0 +1,231 @@
+import { AudioChunk, LiveSessionConfig } from '../types';
+import { AiProvider, LiveConnection, LiveEvent, ToolDeclaration } from './providers';
+
+// Keeps a live session alive across dropped connections: reconnects with exponential
+// backoff, buffers mic audio while disconnected, and re-seeds the new session with the
+// conversation so far so the tutor can pick up where it left off.
+
+export type ConnectionState = 'connecting' | 'connected' | 'reconnecting' | 'failed' | 'closed';
+
+export interface ConnectionStateInfo {
+  attempt: number; // Reconnection attempt in progress, 0 for the initial connection
+  nextRetryMs?: number;
+  error?: unknown;
+}
+
+export interface ConnectionManagerOptions {
+  provider: AiProvider;
+  config: LiveSessionConfig;
+  tools?: ToolDeclaration[];
+  /** Session events. `open` is emitted once for the first connection; drops surface as state changes instead of `close`/`error`. */
+  onEvent: (event: LiveEvent) => void;
+  onStateChange: (state: ConnectionState, info: ConnectionStateInfo) => void;
+  /** Returns the conversation so far, used to re-seed a resumed session. */
+  getResumeContext: () => string;
+  maxAttempts?: number;
+  /** How long a connection must stay up, without hearing from the server, before the attempt count resets. */
+  stableAfterMs?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  maxBufferedSamples?: number;
+}
+
+export interface ManagedConnection extends LiveConnection {
+  readonly state: ConnectionState;
+  /** Starts over after the manager gave up (`failed`). */
+  retry(): void;
+}
+
+const INPUT_SAMPLE_RATE = 16000;
+
+export const getBackoffDelay = (attempt: number, baseDelayMs: number, maxDelayMs: number) =>
+  Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+
+export const buildResumeInstruction = (systemInstruction: string, context: string) =>
+  context.trim()
+    ? `${systemInstruction}
+
+The connection briefly dropped and has now been restored. This is the conversation so far:
+${context}
+
+Continue naturally from where you left off. Do not introduce yourself again or restart the conversation.`
+    : systemInstruction;
+
+// Base64 PCM16 length → sample count
+const chunkSamples = (chunk: AudioChunk) => Math.floor((chunk.data.length * 3) / 4 / 2);
+
+export const connectWithRecovery = ({
+  provider,
+  config,
+  tools,
+  onEvent,
+  onStateChange,
+  getResumeContext,
+  maxAttempts = 5,
+  stableAfterMs = 10000,
+  baseDelayMs = 1000,
+  maxDelayMs = 16000,
+  maxBufferedSamples = INPUT_SAMPLE_RATE * 10,
+}: ConnectionManagerOptions): ManagedConnection => {
+  let state: ConnectionState = 'connecting';
+  let connection: LiveConnection | null = null;
+  let generation = 0; // Ignores events from connections that have been replaced
+  let attempt = 0;
+  let hasOpened = false;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let stableTimer: ReturnType<typeof setTimeout> | null = null;
+  let buffer: AudioChunk[] = [];
+  let bufferedSamples = 0;
+  let pendingStreamEnd = false;
+  let pendingTexts: string[] = [];
+
+  const setState = (next: ConnectionState, info: Partial<ConnectionStateInfo> = {}) => {
+    state = next;
+    onStateChange(next, { attempt, ...info });
+  };
+
+  const flushBuffer = (target: LiveConnection) => {
+    buffer.forEach(chunk => target.sendAudio(chunk));
+    buffer = [];
+    bufferedSamples = 0;
+    if (pendingStreamEnd) {
+      target.endAudioStream();
+      pendingStreamEnd = false;
+    }
+    pendingTexts.forEach(text => target.sendText(text));
+    pendingTexts = [];
+  };
+
+  // A server that accepts the socket and then closes it (bad config, quota) must still run
+  // out of attempts, so they only reset once the connection has proven itself
+  const clearStableTimer = () => {
+    if (stableTimer) clearTimeout(stableTimer);
+    stableTimer = null;
+  };
+
+  const markStable = () => {
+    clearStableTimer();
+    attempt = 0;
+  };
+
+  const handleDrop = (error?: unknown) => {
+    if (state === 'closed' || state === 'failed' || state === 'reconnecting') return;
+    clearStableTimer();
+    connection = null;
+    generation += 1;
+
+    if (attempt >= maxAttempts) {
+      setState('failed', { error });
+      return;
+    }
+    attempt += 1;
+    const delay = getBackoffDelay(attempt, baseDelayMs, maxDelayMs);
+    setState('reconnecting', { nextRetryMs: delay, error });
+    retryTimer = setTimeout(() => {
+      retryTimer = null;
+      // Leave `reconnecting` so a failure of this attempt schedules the next one
+      state = 'connecting';
+      open();
+    }, delay);
+  };
+
+  const open = async () => {
+    const current = ++generation;
+    const sessionConfig: LiveSessionConfig = hasOpened
+      ? { ...config, systemInstruction: buildResumeInstruction(config.systemInstruction, getResumeContext()) }
+      : config;
+
+    try {
+      const next = await provider.connectLive(sessionConfig, (event) => {
+        if (current !== generation) return;
+        switch (event.type) {
+          case 'open':
+            break; // Handled once connectLive resolves
+          case 'close':
+          case 'error':
+            handleDrop(event.type === 'error' ? event.error : event.reason);
+            break;
+          default:
+            if (attempt > 0) markStable();
+            onEvent(event);
+        }
+      }, tools);
+
+      if (current !== generation || state === 'closed') {
+        next.close();
+        return;
+      }
+      connection = next;
+      if (attempt > 0) stableTimer = setTimeout(markStable, stableAfterMs);
+      if (!hasOpened) {
+        hasOpened = true;
+        onEvent({ type: 'open' });
+      }
+      setState('connected');
+      flushBuffer(next);
+    } catch (error) {
+      if (current === generation) handleDrop(error);
+    }
+  };
+
+  open();
+
+  return {
+    get state() {
+      return state;
+    },
+
+    sendAudio: (chunk) => {
+      if (state === 'closed') return;
+      if (connection && state === 'connected') {
+        connection.sendAudio(chunk);
+        return;
+      }
+      // Keep the most recent audio while disconnected
+      buffer.push(chunk);
+      bufferedSamples += chunkSamples(chunk);
+      while (buffer.length > 1 && bufferedSamples > maxBufferedSamples) {
+        bufferedSamples -= chunkSamples(buffer.shift()!);
+      }
+    },
+
+    endAudioStream: () => {
+      if (connection && state === 'connected') {
+        connection.endAudioStream();
+      } else if (buffer.length) {
+        pendingStreamEnd = true;
+      }
+    },
+
+    sendText: (text) => {
+      if (state === 'closed') return;
+      if (connection && state === 'connected') connection.sendText(text);
+      else pendingTexts.push(text);
+    },
+
+    // Tool calls belong to the connection that made them; after a drop there's nobody to answer
+    sendToolResponse: (responses) => {
+      if (connection && state === 'connected') connection.sendToolResponse(responses);
+    },
+
+    retry: () => {
+      if (state !== 'failed') return;
+      attempt = 0;
+      setState('connecting');
+      open();
+    },
+
+    close: () => {
+      if (state === 'closed') return;
+      if (retryTimer) clearTimeout(retryTimer);
+      clearStableTimer();
+      generation += 1;
+      setState('closed');
+      connection?.close();
+      connection = null;
+      buffer = [];
+      bufferedSamples = 0;
+      pendingTexts = [];
+    },
+  };
+};
@@ -0,0 +1,37 @@
+/** Thrown when the model's JSON output can't be parsed or repaired into the expected shape. */
+export class ResponseValidationError extends Error {
+  readonly issues: string[];
+
+  constructor(message: string, issues: string[] = []) {
+    super(issues.length ? `${message}: ${issues.join('; ')}` : message);
+    this.name = 'ResponseValidationError';
+    this.issues = issues;
+  }
+}
+
+/** Thrown when an imported scenario pack isn't in a format this version can read. */
+export class ScenarioPackError extends Error {
+  readonly issues: string[];
+
+  constructor(message: string, issues: string[] = []) {
+    super(issues.length ? `${message}: ${issues.join('; ')}` : message);
+    this.name = 'ScenarioPackError';
+    this.issues = issues;
+  }
+}
+
+/** Thrown by a tutor tool when the arguments the tutor sent are missing or malformed. */
+export class ToolArgumentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ToolArgumentError';
+  }
+}
+
+/** Thrown when the app's environment doesn't say which AI provider to use, or lacks what that provider needs. */
+export class ConfigurationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfigurationError';
+  }
+}
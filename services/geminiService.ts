@@ -1,45 +1,500 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { UserPlan } from "../types";
-
-export const generateTrainingPlan = async (transcript: string): Promise<UserPlan> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  
-  // If transcript is too short, use a default fallback to avoid errors
-  const promptContext = transcript.length > 50 
-    ? `Based on the following conversation transcript between an English tutor and a student, assess the student's level and create a study plan:\n\n${transcript}`
-    : `The user is a beginner English learner. Create a beginner study plan.`;
-
-  const response = await ai.models.generateContent({
-    model: "gemini-2.5-flash",
-    contents: promptContext,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          level: { type: Type.STRING, description: "CEFR Level (e.g., A1, B2)" },
-          feedback: { type: Type.STRING, description: "Brief constructive feedback on strengths and weaknesses." },
-          scenarios: {
+import { Schema, Type } from "@google/genai";
+import { ASSESSMENT_SKILLS, AudioChunk, CEFR_LABELS, CEFR_LEVELS, CefrLevel, ERROR_CATEGORIES, Flashcard, ListeningGrade, ListeningPassage, ListeningQuestion, ObjectiveProgress, ObjectiveStep, PracticeReport, PronunciationAttempt, Scenario, Transcript, UserPlan } from "../types";
+import { createPCM16Blob } from "../utils/audio";
+import { createId } from "../utils/id";
+import { createSrsState } from "../utils/srs";
+import { gradeLocally } from "../utils/listening";
+import { analyzeSpeechTiming, scoreWords, tokenizeWords, wordsPerMinute } from "../utils/pronunciation";
+import { serializeTranscript } from "../utils/transcript";
+import { ResponseValidationError } from "./errors";
+import { getAiProvider, StructuredTask } from "./providers";
+import { createListeningGradingValidator, createListeningQuizValidator, createObjectiveProgressValidator, createPlanEvolutionValidator, PlanEvolutionDraft, validateDrillSentences, validateFlashcards, validateObjectiveSteps, validatePracticeReport, validatePronunciationResponse, validateListeningPassage, validateUserPlan, Validator } from "./validation";
+
+const parseJson = (text: string | undefined): { value?: unknown; error?: string } => {
+  if (!text) return { error: "Response was empty" };
+  try {
+    return { value: JSON.parse(text) };
+  } catch {
+    return { error: "Response was not valid JSON" };
+  }
+};
+
+// Requests structured output and validates it. On failure the model is asked once more,
+// with the validation errors appended to the prompt, before giving up.
+const generateValidatedJson = async <T,>(
+  task: StructuredTask,
+  prompt: string,
+  responseSchema: Schema,
+  validate: Validator<T>,
+  audio?: AudioChunk,
+): Promise<T> => {
+  let issues: string[] = [];
+
+  for (let attempt = 0; attempt < 2; attempt++) {
+    const contents = attempt === 0
+      ? prompt
+      : `${prompt}\n\nYour previous response was rejected for these reasons:\n- ${issues.join("\n- ")}\nReturn a corrected JSON response.`;
+
+    const text = await getAiProvider().generateStructured({ task, prompt: contents, schema: responseSchema, audio });
+
+    const parsed = parseJson(text);
+    if (parsed.error) {
+      issues = [parsed.error];
+      continue;
+    }
+
+    const result = validate(parsed.value);
+    if (result.value) {
+      if (result.warnings.length) console.warn("Repaired model response:", result.warnings);
+      return result.value;
+    }
+    issues = [...result.errors, ...result.warnings];
+  }
+
+  throw new ResponseValidationError("Model response failed validation", issues);
+};
+
+const USER_PLAN_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    level: { type: Type.STRING, description: "CEFR Level (e.g., A1, B2)" },
+    cefr: { type: Type.STRING, enum: [...CEFR_LEVELS] },
+    confidence: { type: Type.NUMBER, description: "0-1: how confident the assessment is, given how much the learner said." },
+    skills: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          skill: { type: Type.STRING, enum: [...ASSESSMENT_SKILLS] },
+          score: { type: Type.NUMBER, description: "0-100" },
+          level: { type: Type.STRING, enum: [...CEFR_LEVELS] },
+          comment: { type: Type.STRING },
+          evidence: { type: Type.ARRAY, items: { type: Type.STRING, description: "A verbatim quote of the learner from the transcript." } }
+        },
+        required: ["skill", "score", "level", "comment", "evidence"]
+      }
+    },
+    feedback: { type: Type.STRING, description: "Brief constructive feedback on strengths and weaknesses." },
+    scenarios: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          id: { type: Type.STRING },
+          title: { type: Type.STRING },
+          description: { type: Type.STRING },
+          difficulty: { type: Type.STRING, enum: ["Beginner", "Intermediate", "Advanced"] },
+          objective: { type: Type.STRING }
+        },
+        required: ["id", "title", "description", "difficulty", "objective"]
+      }
+    }
+  },
+  required: ["level", "cefr", "confidence", "skills", "feedback", "scenarios"]
+};
+
+export const generateTrainingPlan = async (transcript: Transcript): Promise<UserPlan> => {
+  // Short conversations are still assessed from what was said (App warns the learner before
+  // analysing one); the model is told to lower its confidence rather than guess
+  const prompt = `Based on the following conversation transcript between an English tutor and a student, assess the student's level and create a study plan.
+Score each skill (${ASSESSMENT_SKILLS.join(", ")}) separately, and back every judgement with short verbatim quotes of what the student said.
+Judge only from what the student actually said. If they said little, score only the skills there is evidence for and report a low confidence.
+
+${serializeTranscript(transcript)}`;
+
+  return generateValidatedJson("trainingPlan", prompt, USER_PLAN_SCHEMA, validateUserPlan);
+};
+
+const PLAN_EVOLUTION_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    feedback: { type: Type.STRING, description: "Updated feedback reflecting the learner's recent practice." },
+    scenarios: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          id: { type: Type.STRING, description: "The existing scenario id when keeping or adapting a scenario; \"new\" for a new one." },
+          title: { type: Type.STRING },
+          description: { type: Type.STRING },
+          difficulty: { type: Type.STRING, enum: ["Beginner", "Intermediate", "Advanced"] },
+          objective: { type: Type.STRING },
+          reason: { type: Type.STRING, description: "One sentence on why the scenario was kept, changed or added." }
+        },
+        required: ["id", "title", "description", "difficulty", "objective", "reason"]
+      }
+    },
+    retired: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          id: { type: Type.STRING },
+          reason: { type: Type.STRING }
+        },
+        required: ["id", "reason"]
+      }
+    }
+  },
+  required: ["feedback", "scenarios", "retired"]
+};
+
+/** Asks for the next set of scenarios given the current plan and a summary of practice performance. */
+export const generateEvolvedPlan = async (plan: UserPlan, performance: string): Promise<PlanEvolutionDraft> => {
+  const prompt = `You are updating the training plan of a ${plan.level} English learner based on their practice so far.
+- Raise the difficulty of scenarios the learner completed well, or replace them with a harder variation.
+- Add scenarios that target the learner's recurring error categories.
+- Retire scenarios the learner has mastered at the hardest difficulty.
+- Keep scenarios the learner hasn't finished yet, unchanged and with the same id.
+Return 3-6 scenarios in total.
+
+Current plan and performance:
+${performance}`;
+
+  return generateValidatedJson("planEvolution", prompt, PLAN_EVOLUTION_SCHEMA, createPlanEvolutionValidator(plan));
+};
+
+const PRACTICE_REPORT_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    summary: { type: Type.STRING, description: "Two or three sentences of encouraging overall feedback." },
+    objectiveAchieved: { type: Type.BOOLEAN },
+    objectiveNotes: { type: Type.STRING, description: "Why the objective was or wasn't achieved." },
+    utterances: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          original: { type: Type.STRING },
+          corrected: { type: Type.STRING },
+          errorCategories: { type: Type.ARRAY, items: { type: Type.STRING, enum: [...ERROR_CATEGORIES] } },
+          explanation: { type: Type.STRING },
+          vocabulary: {
             type: Type.ARRAY,
             items: {
               type: Type.OBJECT,
               properties: {
-                id: { type: Type.STRING },
-                title: { type: Type.STRING },
-                description: { type: Type.STRING },
-                difficulty: { type: Type.STRING, enum: ["Beginner", "Intermediate", "Advanced"] },
-                objective: { type: Type.STRING }
-              }
+                original: { type: Type.STRING },
+                alternatives: { type: Type.ARRAY, items: { type: Type.STRING } }
+              },
+              required: ["original", "alternatives"]
             }
           }
-        }
+        },
+        required: ["original", "corrected", "errorCategories", "explanation", "vocabulary"]
       }
     }
-  });
+  },
+  required: ["summary", "objectiveAchieved", "objectiveNotes", "utterances"]
+};
+
+export const generatePracticeReport = async (
+  transcript: Transcript,
+  scenario: Scenario,
+  sessionId?: string,
+): Promise<PracticeReport> => {
+  const base = { id: createId(), sessionId, scenarioId: scenario.id, createdAt: Date.now() };
+
+  // Nothing to analyse if the learner never spoke
+  if (!transcript.turns.some(turn => turn.speaker === "user" && turn.text.trim())) {
+    return {
+      ...base,
+      objectiveAchieved: false,
+      objectiveNotes: "No speech from you was captured during this session.",
+      summary: "We couldn't hear you in this session, so there is nothing to review yet.",
+      utterances: [],
+    };
+  }
+
+  const prompt = `You are reviewing an English learner's roleplay practice session.
+Scenario: ${scenario.title}
+Context: ${scenario.description}
+Objective: ${scenario.objective}
+
+For EVERY line spoken by "User" in the transcript below, return an entry with the original text, a corrected version (identical if it was already correct), the grammatical error categories present, a one-sentence explanation, and more natural or advanced vocabulary alternatives for weak word choices.
+Then decide whether the user achieved the scenario objective and explain briefly.
+
+Transcript:
+${serializeTranscript(transcript)}`;
+
+  const body = await generateValidatedJson("practiceReport", prompt, PRACTICE_REPORT_SCHEMA, validatePracticeReport);
+  return { ...base, ...body };
+};
+
+const DRILL_SENTENCES_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    sentences: { type: Type.ARRAY, items: { type: Type.STRING } }
+  },
+  required: ["sentences"]
+};
+
+export const generateDrillSentences = async (scenario: Scenario, level?: string): Promise<string[]> => {
+  const prompt = `Write 5 short sentences (6-14 words each) that an English learner${level ? ` at ${level} level` : ""} would naturally say in this roleplay scenario, for pronunciation practice.
+Scenario: ${scenario.title}
+Context: ${scenario.description}
+Objective: ${scenario.objective}
+Include words that are commonly mispronounced by learners where it fits naturally.`;
+
+  return generateValidatedJson("drillSentences", prompt, DRILL_SENTENCES_SCHEMA, validateDrillSentences);
+};
+
+const PRONUNCIATION_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    transcription: { type: Type.STRING, description: "Exactly what was said in the recording, including mistakes." },
+    words: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          word: { type: Type.STRING, description: "A word from the reference sentence." },
+          score: { type: Type.NUMBER, description: "Pronunciation accuracy from 0 to 100." },
+          issue: { type: Type.STRING, description: "Short tip if the word was mispronounced, otherwise empty." }
+        },
+        required: ["word", "score"]
+      }
+    }
+  },
+  required: ["transcription", "words"]
+};
 
-  if (response.text) {
-    return JSON.parse(response.text) as UserPlan;
+export const assessPronunciation = async (
+  sentence: string,
+  samples: Float32Array,
+  sampleRate: number,
+  scenarioId?: string,
+): Promise<PronunciationAttempt> => {
+  const { speechMs, pauses } = analyzeSpeechTiming(samples, sampleRate);
+  const base = { id: createId(), scenarioId, sentence, createdAt: Date.now(), pauses };
+
+  // Skip the request entirely when nothing audible was recorded
+  if (speechMs === 0) {
+    return { ...base, transcription: "", overallScore: 0, wordsPerMinute: 0, words: scoreWords(sentence, "", []) };
   }
-  
-  throw new Error("Failed to generate plan");
+
+  const prompt = `You are an English pronunciation coach. The attached audio is a learner reading a sentence aloud.
+Reference sentence: "${sentence}"
+Transcribe exactly what was said, then score the pronunciation of each word of the reference sentence from 0 to 100, with a short tip for any word below 70.`;
+
+  const response = await generateValidatedJson(
+    "pronunciation",
+    prompt,
+    PRONUNCIATION_SCHEMA,
+    validatePronunciationResponse,
+    createPCM16Blob(samples, sampleRate),
+  );
+
+  const words = scoreWords(sentence, response.transcription, response.words);
+  const overallScore = words.length ? Math.round(words.reduce((sum, w) => sum + w.score, 0) / words.length) : 0;
+  return {
+    ...base,
+    transcription: response.transcription,
+    overallScore,
+    wordsPerMinute: wordsPerMinute(tokenizeWords(response.transcription).length, speechMs),
+    words,
+  };
+};
+
+const FLASHCARDS_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    cards: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          kind: { type: Type.STRING, enum: ["vocabulary", "correction", "idiom"] },
+          front: { type: Type.STRING, description: "The word, idiom, or the learner's original (incorrect) wording." },
+          back: { type: Type.STRING, description: "The meaning, or the corrected wording." },
+          example: { type: Type.STRING, description: "A short natural example sentence." }
+        },
+        required: ["kind", "front", "back"]
+      }
+    }
+  },
+  required: ["cards"]
+};
+
+export const extractFlashcards = async (
+  transcript: Transcript,
+  source: { sessionId?: string; scenario?: Scenario | null },
+): Promise<Flashcard[]> => {
+  if (!transcript.turns.some(turn => turn.speaker === "user" && turn.text.trim())) return [];
+
+  const prompt = `From this English tutoring conversation, create up to 8 study flashcards for the learner ("User"):
+- "correction": a phrase the learner got wrong (front) and the corrected version (back), including anything the tutor recast.
+- "vocabulary": useful words the tutor used that are likely new for the learner, with a simple definition.
+- "idiom": idioms or set phrases from the conversation, with their meaning.
+Skip anything trivial.
+
+Transcript:
+${serializeTranscript(transcript)}`;
+
+  const drafts = await generateValidatedJson("flashcards", prompt, FLASHCARDS_SCHEMA, validateFlashcards);
+  const now = Date.now();
+  return drafts.map(draft => ({
+    ...draft,
+    id: createId(),
+    sourceSessionId: source.sessionId,
+    scenarioId: source.scenario?.id,
+    scenarioTitle: source.scenario?.title,
+    createdAt: now,
+    srs: createSrsState(now),
+  }));
+};
+
+export const synthesizeSpeech = (text: string, voiceName: string): Promise<string> =>
+  getAiProvider().synthesizeSpeech(text, voiceName);
+
+const OBJECTIVE_STEPS_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    steps: { type: Type.ARRAY, items: { type: Type.STRING, description: "One concrete thing the learner must do or say." } }
+  },
+  required: ["steps"]
+};
+
+export const generateObjectiveSteps = async (scenario: Scenario): Promise<ObjectiveStep[]> => {
+  const prompt = `Break this roleplay objective into 3-5 short, observable checklist sub-goals, in the order they would usually happen in the conversation.
+Scenario: ${scenario.title}
+Context: ${scenario.description}
+Objective: ${scenario.objective}`;
+
+  return generateValidatedJson("objectiveSteps", prompt, OBJECTIVE_STEPS_SCHEMA, validateObjectiveSteps);
+};
+
+const OBJECTIVE_PROGRESS_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    completedStepIds: { type: Type.ARRAY, items: { type: Type.STRING } },
+    score: { type: Type.NUMBER, description: "0-100: how well the learner is carrying out the objective so far." }
+  },
+  required: ["completedStepIds", "score"]
+};
+
+export const checkObjectiveProgress = async (
+  transcript: Transcript,
+  scenario: Scenario,
+  steps: ObjectiveStep[],
+): Promise<ObjectiveProgress> => {
+  const prompt = `An English learner ("User") is doing a roleplay. Decide which of these sub-goals the learner has clearly accomplished in the conversation so far. Only count what the learner actually said.
+Objective: ${scenario.objective}
+Sub-goals:
+${steps.map(step => `- [${step.id}] ${step.description}`).join("\n")}
+
+Transcript:
+${serializeTranscript(transcript)}`;
+
+  return generateValidatedJson("objectiveProgress", prompt, OBJECTIVE_PROGRESS_SCHEMA, createObjectiveProgressValidator(steps));
+};
+
+const LISTENING_PASSAGE_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    title: { type: Type.STRING },
+    format: { type: Type.STRING, enum: ["story", "dialogue"] },
+    segments: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          speaker: { type: Type.STRING, description: "\"Narrator\" for a story; the character's first name in a dialogue." },
+          text: { type: Type.STRING, description: "One or two sentences, read aloud as one segment." }
+        },
+        required: ["speaker", "text"]
+      }
+    }
+  },
+  required: ["title", "format", "segments"]
+};
+
+export const generateListeningPassage = async (level: CefrLevel, scenarios: Scenario[]): Promise<ListeningPassage> => {
+  // Rotate through the plan so repeated exercises cover different situations
+  const scenario = scenarios.length ? scenarios[Math.floor(Math.random() * scenarios.length)] : undefined;
+  const prompt = `Write a short listening-comprehension passage for an English learner at CEFR ${level} (${CEFR_LABELS[level]}) level.
+${scenario ? `Set it in this situation from their training plan: ${scenario.title}. ${scenario.description}` : "Set it in an everyday situation."}
+Choose either a short story told by a narrator or a natural dialogue between two people, 8-12 segments long. Keep grammar and vocabulary at ${level} level, and include concrete details (names, times, numbers, places) that a listener could be asked about.`;
+
+  const draft = await generateValidatedJson("listeningPassage", prompt, LISTENING_PASSAGE_SCHEMA, validateListeningPassage);
+  return { ...draft, level, scenarioId: scenario?.id };
+};
+
+const LISTENING_QUIZ_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    questions: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          kind: { type: Type.STRING, enum: ["choice", "short"] },
+          prompt: { type: Type.STRING },
+          options: { type: Type.ARRAY, items: { type: Type.STRING }, description: "3-4 options, for multiple choice only." },
+          answerIndex: { type: Type.INTEGER, description: "Index of the correct option, for multiple choice only." },
+          acceptedAnswers: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Short correct answers, for short-answer questions only." },
+          segmentIndex: { type: Type.INTEGER, description: "Index of the segment where the answer is heard." },
+          explanation: { type: Type.STRING, description: "One sentence on where the answer comes from." }
+        },
+        required: ["kind", "prompt", "segmentIndex", "explanation"]
+      }
+    }
+  },
+  required: ["questions"]
+};
+
+export const generateListeningQuiz = async (passage: ListeningPassage): Promise<ListeningQuestion[]> => {
+  const prompt = `Write 5 comprehension questions about this passage for a CEFR ${passage.level} listener: 3 multiple choice ("choice") and 2 short answer ("short"), in the order the answers are heard.
+Each question must be answerable from what is said, not general knowledge. Test details and the speakers' intentions, not single isolated words.
+
+Passage (${passage.format}): ${passage.title}
+${passage.segments.map((segment, index) => `[${index}] ${segment.speaker}: ${segment.text}`).join("\n")}`;
+
+  return generateValidatedJson("listeningQuiz", prompt, LISTENING_QUIZ_SCHEMA, createListeningQuizValidator(passage.segments.length));
+};
+
+const LISTENING_GRADING_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    grades: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          questionId: { type: Type.STRING },
+          isCorrect: { type: Type.BOOLEAN },
+          feedback: { type: Type.STRING, description: "One short sentence for the learner." }
+        },
+        required: ["questionId", "isCorrect", "feedback"]
+      }
+    }
+  },
+  required: ["grades"]
+};
+
+/** Grades in question order. Only short answers that don't match an accepted answer are sent to the model. */
+export const gradeListeningAnswers = async (
+  passage: ListeningPassage,
+  questions: ListeningQuestion[],
+  answers: Record<string, string>,
+): Promise<ListeningGrade[]> => {
+  const local = questions.map(question => gradeLocally(question, answers[question.id] ?? ''));
+  const toJudge = questions.filter((question, index): question is Extract<ListeningQuestion, { kind: 'short' }> => !local[index] && question.kind === 'short');
+  if (toJudge.length === 0) return local as ListeningGrade[];
+
+  const prompt = `An English learner answered short comprehension questions about a passage they listened to. Mark each answer correct if it shows they understood, even with spelling or grammar mistakes or different wording; mark it incorrect if the meaning is wrong or missing. Give brief, encouraging feedback.
+
+Passage:
+${passage.segments.map(segment => `${segment.speaker}: ${segment.text}`).join("\n")}
+
+Answers:
+${toJudge.map(question => `- [${question.id}] Question: ${question.prompt} | Expected: ${question.acceptedAnswers.join(" / ")} | Learner: ${answers[question.id]}`).join("\n")}`;
+
+  const judged = await generateValidatedJson("listeningGrading", prompt, LISTENING_GRADING_SCHEMA, createListeningGradingValidator(toJudge.map(question => question.id)));
+  return questions.map((question, index) => {
+    const grade = local[index];
+    if (grade) return grade;
+    const draft = judged.find(g => g.questionId === question.id)!;
+    return { ...draft, answer: answers[question.id] ?? '' };
+  });
 };
@@ -0,0 +1,112 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { Flashcard, PronunciationAttempt, SessionRecord } from '../types';
+import { createSrsState } from '../utils/srs';
+import { createLearnerStore, LearnerStore } from './learnerStore';
+import { createInMemoryBackend, StorageBackend } from './storage';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const session = (startedAt: number, scenarioId?: string): Omit<SessionRecord, 'id'> => ({
+  kind: scenarioId ? 'PRACTICE' : 'ASSESSMENT',
+  scenarioId,
+  transcript: { startedAt, turns: [] },
+  startedAt,
+  endedAt: startedAt + 60000,
+});
+
+const attempt = (id: string, sentence: string, scores: Record<string, number>): PronunciationAttempt => ({
+  id,
+  sentence,
+  createdAt: 0,
+  transcription: sentence,
+  overallScore: 0,
+  wordsPerMinute: 0,
+  pauses: [],
+  words: Object.entries(scores).map(([word, score]) => ({ word, heard: word, score })),
+});
+
+const card = (id: string, front: string, dueAt = 0): Flashcard => ({
+  id,
+  kind: 'vocabulary',
+  front,
+  back: 'meaning',
+  createdAt: 0,
+  srs: { ...createSrsState(0), dueAt },
+});
+
+describe('createLearnerStore', () => {
+  let backend: StorageBackend;
+  let store: LearnerStore;
+
+  beforeEach(() => {
+    backend = createInMemoryBackend();
+    store = createLearnerStore(backend);
+  });
+
+  it('lists saved sessions newest first', async () => {
+    const first = await store.saveSession(session(1000));
+    const second = await store.saveSession(session(3000, 'cafe'));
+    const third = await store.saveSession(session(2000, 'interview'));
+
+    expect((await store.listSessions()).map(s => s.id)).toEqual([second.id, third.id, first.id]);
+    expect(await store.getSession(third.id)).toEqual(third);
+    expect(await store.getSession('missing')).toBeNull();
+  });
+
+  it('filters sessions by scenario', async () => {
+    await store.saveSession(session(1000, 'cafe'));
+    await store.saveSession(session(2000, 'interview'));
+    await store.saveSession(session(3000, 'cafe'));
+
+    const cafe = await store.listSessions('cafe');
+    expect(cafe.map(s => s.startedAt)).toEqual([3000, 1000]);
+    expect(await store.listSessions('unknown')).toEqual([]);
+  });
+
+  it('returns copies, so callers cannot change stored records', async () => {
+    const saved = await store.saveSession(session(1000));
+    (await store.listSessions())[0].startedAt = 0;
+    expect((await store.getSession(saved.id))?.startedAt).toBe(1000);
+  });
+
+  it('aggregates low-scoring words across attempts, worst first', async () => {
+    await store.savePronunciationAttempt(attempt('a', 'The weather is rather nice.', { weather: 50, rather: 65, nice: 95 }));
+    await store.savePronunciationAttempt(attempt('b', 'Whether or not, rather late.', { weather: 40, rather: 95 }));
+    await store.savePronunciationAttempt(attempt('c', 'Nice weather.', { weather: 60, nice: 30 }));
+
+    const words = await store.getProblemWords();
+    expect(words).toEqual([
+      {
+        word: 'weather',
+        attempts: 3,
+        averageScore: 50,
+        sentences: ['The weather is rather nice.', 'Whether or not, rather late.', 'Nice weather.'],
+      },
+    ]);
+    expect((await store.getProblemWords(1)).map(w => w.word)).toEqual(['nice', 'weather', 'rather']);
+  });
+
+  it('skips flashcards whose front is already in the deck', async () => {
+    await store.addFlashcards([card('1', 'Rewarding')]);
+    const added = await store.addFlashcards([card('2', ' rewarding! '), card('3', 'pick up'), card('4', 'Pick up')]);
+
+    expect(added.map(c => c.id)).toEqual(['3']);
+    expect((await store.listFlashcards()).map(c => c.id).sort()).toEqual(['1', '3']);
+  });
+
+  it('returns due flashcards, most overdue first', async () => {
+    const now = 10 * DAY_MS;
+    await store.addFlashcards([card('later', 'later', now + DAY_MS), card('recent', 'recent', now - DAY_MS), card('old', 'old', now - 5 * DAY_MS)]);
+
+    expect((await store.getDueFlashcards(now)).map(c => c.id)).toEqual(['old', 'recent']);
+  });
+
+  it('deletes everything on deleteAll', async () => {
+    await store.saveSession(session(1000));
+    await store.addFlashcards([card('1', 'word')]);
+    await store.deleteAll();
+
+    expect(await backend.getAll('sessions')).toEqual([]);
+    expect(await backend.getAll('flashcards')).toEqual([]);
+  });
+});
@@ -0,0 +1,225 @@
+import { CORRECTION_STYLES, DEFAULT_SETTINGS, Flashcard, LearnerProfile, LearnerSettings, PlanChange, PracticeReport, ProblemWord, PronunciationAttempt, Scenario, SessionRecord, SessionRecording, SPEAKING_PACES, StoredPlan, TUTOR_VOICES, UserPlan } from '../types';
+import { PROBLEM_WORD_SCORE } from '../utils/pronunciation';
+import { isDue } from '../utils/srs';
+import { createId } from '../utils/id';
+import { createDefaultBackend, StorageBackend } from './storage';
+
+export interface LearnerStore {
+  savePlan(plan: UserPlan, sourceSessionId?: string, changes?: PlanChange[]): Promise<StoredPlan>;
+  /** Overwrites a stored plan in place, e.g. to record scenario progress. */
+  updatePlan(stored: StoredPlan): Promise<StoredPlan>;
+  getLatestPlan(): Promise<StoredPlan | null>;
+  listPlans(): Promise<StoredPlan[]>;
+  saveSession(session: Omit<SessionRecord, 'id'>): Promise<SessionRecord>;
+  getSession(id: string): Promise<SessionRecord | null>;
+  /** Newest first; pass a scenario id to list only that scenario's sessions. */
+  listSessions(scenarioId?: string): Promise<SessionRecord[]>;
+  /** Recordings live apart from sessions so listing sessions doesn't load audio. */
+  saveRecording(recording: SessionRecording): Promise<SessionRecording>;
+  getRecording(id: string): Promise<SessionRecording | null>;
+  saveReport(report: PracticeReport): Promise<PracticeReport>;
+  getReportForSession(sessionId: string): Promise<PracticeReport | null>;
+  listReports(): Promise<PracticeReport[]>;
+  savePronunciationAttempt(attempt: PronunciationAttempt): Promise<PronunciationAttempt>;
+  listPronunciationAttempts(): Promise<PronunciationAttempt[]>;
+  /** Words that repeatedly scored below the problem threshold, worst first. */
+  getProblemWords(minAttempts?: number): Promise<ProblemWord[]>;
+  /** Adds cards, skipping any whose front text is already in the deck. Returns the cards added. */
+  addFlashcards(cards: Flashcard[]): Promise<Flashcard[]>;
+  updateFlashcard(card: Flashcard): Promise<Flashcard>;
+  listFlashcards(): Promise<Flashcard[]>;
+  getDueFlashcards(now?: number): Promise<Flashcard[]>;
+  saveCustomScenario(scenario: Scenario): Promise<Scenario>;
+  listCustomScenarios(): Promise<Scenario[]>;
+  deleteCustomScenario(id: string): Promise<void>;
+  /** Always resolves; anything never saved (or no longer valid) falls back to the defaults. */
+  getSettings(): Promise<LearnerSettings>;
+  saveSettings(settings: LearnerSettings): Promise<LearnerSettings>;
+  /** Permanently deletes everything stored for this learner. */
+  deleteAll(): Promise<void>;
+}
+
+const SETTINGS_ID = 'learner';
+
+const oneOf = <T,>(options: readonly T[], value: unknown, fallback: T): T =>
+  options.includes(value as T) ? (value as T) : fallback;
+
+// Settings saved by older versions may lack newer fields, or hold options that were since removed
+const withDefaultSettings = (stored: Partial<LearnerSettings> | undefined): LearnerSettings => ({
+  tutorVoice: oneOf(TUTOR_VOICES, stored?.tutorVoice, DEFAULT_SETTINGS.tutorVoice),
+  examinerVoice: oneOf(TUTOR_VOICES, stored?.examinerVoice, DEFAULT_SETTINGS.examinerVoice),
+  pace: oneOf(SPEAKING_PACES, stored?.pace, DEFAULT_SETTINGS.pace),
+  correctionStyle: oneOf(CORRECTION_STYLES, stored?.correctionStyle, DEFAULT_SETTINGS.correctionStyle),
+  nativeLanguage: typeof stored?.nativeLanguage === 'string' ? stored.nativeLanguage.trim() : DEFAULT_SETTINGS.nativeLanguage,
+  assessmentMinutes: typeof stored?.assessmentMinutes === 'number' && stored.assessmentMinutes > 0
+    ? stored.assessmentMinutes
+    : DEFAULT_SETTINGS.assessmentMinutes,
+  recordSessions: typeof stored?.recordSessions === 'boolean' ? stored.recordSessions : DEFAULT_SETTINGS.recordSessions,
+  textChatByDefault: typeof stored?.textChatByDefault === 'boolean' ? stored.textChatByDefault : DEFAULT_SETTINGS.textChatByDefault,
+});
+
+const normalizeCardText = (text: string) => text.trim().toLowerCase().replace(/[^a-z0-9' ]+/g, '');
+
+// Newest first
+const byDesc = <T,>(key: (item: T) => number) => (a: T, b: T) => key(b) - key(a);
+
+export const createLearnerStore = (backend: StorageBackend): LearnerStore => ({
+  savePlan: async (plan, sourceSessionId, changes) => {
+    const stored: StoredPlan = { id: createId(), createdAt: Date.now(), sourceSessionId, plan, ...(changes ? { changes } : {}) };
+    await backend.put('plans', stored);
+    return stored;
+  },
+
+  updatePlan: async (stored) => {
+    await backend.put('plans', stored);
+    return stored;
+  },
+
+  getLatestPlan: async () => {
+    const plans = await backend.getAll<StoredPlan>('plans');
+    return plans.sort(byDesc(p => p.createdAt))[0] ?? null;
+  },
+
+  listPlans: async () => {
+    const plans = await backend.getAll<StoredPlan>('plans');
+    return plans.sort(byDesc(p => p.createdAt));
+  },
+
+  saveSession: async (session) => {
+    const record: SessionRecord = { id: createId(), ...session };
+    await backend.put('sessions', record);
+    return record;
+  },
+
+  getSession: async (id) => (await backend.get<SessionRecord>('sessions', id)) ?? null,
+
+  listSessions: async (scenarioId) => {
+    const sessions = await backend.getAll<SessionRecord>('sessions');
+    return sessions
+      .filter(s => scenarioId === undefined || s.scenarioId === scenarioId)
+      .sort(byDesc(s => s.startedAt));
+  },
+
+  saveRecording: async (recording) => {
+    await backend.put('recordings', recording);
+    return recording;
+  },
+
+  getRecording: async (id) => (await backend.get<SessionRecording>('recordings', id)) ?? null,
+
+  saveReport: async (report) => {
+    await backend.put('reports', report);
+    return report;
+  },
+
+  getReportForSession: async (sessionId) => {
+    const reports = await backend.getAll<PracticeReport>('reports');
+    return reports.find(r => r.sessionId === sessionId) ?? null;
+  },
+
+  listReports: async () => {
+    const reports = await backend.getAll<PracticeReport>('reports');
+    return reports.sort(byDesc(r => r.createdAt));
+  },
+
+  savePronunciationAttempt: async (attempt) => {
+    await backend.put('pronunciation', attempt);
+    return attempt;
+  },
+
+  listPronunciationAttempts: async () => {
+    const attempts = await backend.getAll<PronunciationAttempt>('pronunciation');
+    return attempts.sort(byDesc(a => a.createdAt));
+  },
+
+  getProblemWords: async (minAttempts = 2) => {
+    const attempts = await backend.getAll<PronunciationAttempt>('pronunciation');
+    const byWord = new Map<string, { scores: number[]; sentences: Set<string> }>();
+    attempts.forEach(attempt => attempt.words.forEach(({ word, score }) => {
+      if (score >= PROBLEM_WORD_SCORE) return;
+      const entry = byWord.get(word) ?? { scores: [], sentences: new Set<string>() };
+      entry.scores.push(score);
+      entry.sentences.add(attempt.sentence);
+      byWord.set(word, entry);
+    }));
+
+    return Array.from(byWord.entries())
+      .filter(([, entry]) => entry.scores.length >= minAttempts)
+      .map(([word, entry]) => ({
+        word,
+        attempts: entry.scores.length,
+        averageScore: Math.round(entry.scores.reduce((sum, s) => sum + s, 0) / entry.scores.length),
+        sentences: Array.from(entry.sentences),
+      }))
+      .sort((a, b) => a.averageScore - b.averageScore);
+  },
+
+  addFlashcards: async (cards) => {
+    const existing = await backend.getAll<Flashcard>('flashcards');
+    const seen = new Set(existing.map(card => normalizeCardText(card.front)));
+    const added = cards.filter(card => {
+      const key = normalizeCardText(card.front);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+    await Promise.all(added.map(card => backend.put('flashcards', card)));
+    return added;
+  },
+
+  updateFlashcard: async (card) => {
+    await backend.put('flashcards', card);
+    return card;
+  },
+
+  listFlashcards: async () => {
+    const cards = await backend.getAll<Flashcard>('flashcards');
+    return cards.sort(byDesc(c => c.createdAt));
+  },
+
+  getDueFlashcards: async (now = Date.now()) => {
+    const cards = await backend.getAll<Flashcard>('flashcards');
+    return cards.filter(card => isDue(card.srs, now)).sort((a, b) => a.srs.dueAt - b.srs.dueAt);
+  },
+
+  saveCustomScenario: async (scenario) => {
+    const stored: Scenario = { ...scenario, isCustom: true };
+    await backend.put('scenarios', stored);
+    return stored;
+  },
+
+  listCustomScenarios: async () => {
+    const scenarios = await backend.getAll<Scenario>('scenarios');
+    return scenarios.sort((a, b) => a.title.localeCompare(b.title));
+  },
+
+  deleteCustomScenario: (id) => backend.delete('scenarios', id),
+
+  getSettings: async () =>
+    withDefaultSettings(await backend.get<Partial<LearnerSettings>>('settings', SETTINGS_ID)),
+
+  saveSettings: async (settings) => {
+    const normalized = withDefaultSettings(settings);
+    await backend.put('settings', { id: SETTINGS_ID, ...normalized });
+    return normalized;
+  },
+
+  deleteAll: () => backend.destroy(),
+});
+
+// One store per learner database, shared by everything that reads that learner's data
+const stores = new Map<string, LearnerStore>();
+
+export const getLearnerStore = ({ dbName }: LearnerProfile): LearnerStore => {
+  let store = stores.get(dbName);
+  if (!store) {
+    store = createLearnerStore(createDefaultBackend(dbName));
+    stores.set(dbName, store);
+  }
+  return store;
+};
+
+export const deleteLearnerData = async (profile: LearnerProfile): Promise<void> => {
+  await getLearnerStore(profile).deleteAll();
+  stores.delete(profile.dbName);
+};
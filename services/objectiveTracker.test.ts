@@ -0,0 +1,78 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ObjectiveProgress, Scenario, Transcript } from '../types';
+import { checkObjectiveProgress } from './geminiService';
+import { createObjectiveTracker } from './objectiveTracker';
+
+vi.mock('./geminiService', () => ({ checkObjectiveProgress: vi.fn() }));
+
+const check = vi.mocked(checkObjectiveProgress);
+
+const scenario = { id: 'cafe', title: 'Café', description: '', difficulty: 'Beginner', objective: 'Order a drink' } as Scenario;
+const steps = [{ id: 'greet', description: 'Greet' }, { id: 'order', description: 'Order' }];
+
+const transcriptWith = (userTurns: number): Transcript => ({
+  startedAt: 0,
+  turns: Array.from({ length: userTurns }, (_, i) => ({ speaker: 'user', text: `line ${i}`, startMs: i, endMs: i, isComplete: true })),
+});
+
+// A check that only answers when told to
+const deferredCheck = () => {
+  let resolve!: (progress: ObjectiveProgress) => void;
+  check.mockImplementationOnce(() => new Promise(r => { resolve = r; }));
+  return (progress: ObjectiveProgress) => resolve(progress);
+};
+
+describe('createObjectiveTracker', () => {
+  beforeEach(() => {
+    check.mockReset();
+  });
+
+  it('marks known steps and completes once all are done', () => {
+    const onComplete = vi.fn();
+    const tracker = createObjectiveTracker({ scenario, steps, onProgress: vi.fn(), onComplete });
+    expect(tracker.markStep('missing')).toBe(false);
+    expect(tracker.markStep('order')).toBe(true);
+    expect(tracker.markStep('greet')).toBe(true);
+    expect(tracker.progress.completedStepIds).toEqual(['greet', 'order']);
+    expect(onComplete).toHaveBeenCalledOnce();
+  });
+
+  it('skips checks within the interval unless forced', async () => {
+    check.mockResolvedValue({ completedStepIds: [], score: null });
+    const tracker = createObjectiveTracker({ scenario, steps, onProgress: vi.fn(), onComplete: vi.fn(), minCheckIntervalMs: 60000 });
+    await tracker.checkTranscript(transcriptWith(1));
+    await tracker.checkTranscript(transcriptWith(2));
+    expect(check).toHaveBeenCalledTimes(1);
+    await tracker.checkTranscript(transcriptWith(2), true);
+    expect(check).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps the result of a check in flight when a forced check comes in', async () => {
+    const answerFirst = deferredCheck();
+    check.mockResolvedValueOnce({ completedStepIds: ['order'], score: 90 });
+    const onComplete = vi.fn();
+    const tracker = createObjectiveTracker({ scenario, steps, onProgress: vi.fn(), onComplete });
+
+    const periodic = tracker.checkTranscript(transcriptWith(1));
+    const final = tracker.checkTranscript(transcriptWith(2), true);
+    answerFirst({ completedStepIds: ['greet'], score: 70 });
+    await Promise.all([periodic, final]);
+
+    // The forced check still looked at the turn the first one hadn't seen
+    expect(check).toHaveBeenCalledTimes(2);
+    expect(check.mock.calls[1][0].turns).toHaveLength(2);
+    expect(tracker.isComplete).toBe(true);
+    expect(onComplete).toHaveBeenCalledOnce();
+  });
+
+  it('ignores results that arrive after dispose', async () => {
+    const answer = deferredCheck();
+    const onProgress = vi.fn();
+    const tracker = createObjectiveTracker({ scenario, steps, onProgress, onComplete: vi.fn() });
+    const pending = tracker.checkTranscript(transcriptWith(1));
+    tracker.dispose();
+    answer({ completedStepIds: ['greet'], score: 50 });
+    await pending;
+    expect(onProgress).not.toHaveBeenCalled();
+  });
+});
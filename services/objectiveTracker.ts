@@ -0,0 +1,106 @@
+import { ObjectiveProgress, ObjectiveStep, Scenario, Transcript } from '../types';
+import { checkObjectiveProgress } from './geminiService';
+
+// Tracks checklist sub-goals during a practice session. Progress comes from periodic
+// transcript checks, and steps can also be marked directly (e.g. by the tutor).
+// Steps only ever move to completed; a later check can't un-tick them.
+
+export interface ObjectiveTrackerOptions {
+  scenario: Scenario;
+  steps: ObjectiveStep[];
+  onProgress: (progress: ObjectiveProgress) => void;
+  onComplete: (progress: ObjectiveProgress) => void;
+  minCheckIntervalMs?: number;
+}
+
+export interface ObjectiveTracker {
+  readonly progress: ObjectiveProgress;
+  readonly isComplete: boolean;
+  /** Returns false if no step has this id. */
+  markStep(id: string): boolean;
+  /**
+   * Re-checks the transcript unless a check ran recently, or nothing new was said.
+   * A forced check first waits for any check in flight, so its result isn't lost.
+   */
+  checkTranscript(transcript: Transcript, force?: boolean): Promise<void>;
+  dispose(): void;
+}
+
+const countUserTurns = (transcript: Transcript) =>
+  transcript.turns.filter(turn => turn.speaker === 'user' && turn.isComplete).length;
+
+export const createObjectiveTracker = ({
+  scenario,
+  steps,
+  onProgress,
+  onComplete,
+  minCheckIntervalMs = 10000,
+}: ObjectiveTrackerOptions): ObjectiveTracker => {
+  let progress: ObjectiveProgress = { completedStepIds: [], score: null };
+  let lastCheckAt = 0;
+  let lastCheckedUserTurns = 0;
+  let pendingCheck: Promise<void> | null = null;
+  let isDisposed = false;
+  let hasCompleted = false;
+
+  const update = (completedIds: string[], score: number | null) => {
+    if (isDisposed) return;
+    const merged = new Set([...progress.completedStepIds, ...completedIds]);
+    // Keep checklist order stable
+    progress = {
+      completedStepIds: steps.map(step => step.id).filter(id => merged.has(id)),
+      score: score ?? progress.score,
+    };
+    onProgress(progress);
+
+    if (!hasCompleted && progress.completedStepIds.length === steps.length) {
+      hasCompleted = true;
+      onComplete(progress);
+    }
+  };
+
+  return {
+    get progress() {
+      return progress;
+    },
+
+    get isComplete() {
+      return hasCompleted;
+    },
+
+    markStep: (id) => {
+      if (!steps.some(step => step.id === id)) return false;
+      update([id], null);
+      return true;
+    },
+
+    checkTranscript: async (transcript, force = false) => {
+      while (force && pendingCheck) await pendingCheck;
+
+      const userTurns = countUserTurns(transcript);
+      const now = Date.now();
+      if (isDisposed || hasCompleted || pendingCheck) return;
+      if (userTurns === lastCheckedUserTurns) return;
+      if (!force && now - lastCheckAt < minCheckIntervalMs) return;
+
+      lastCheckAt = now;
+      lastCheckedUserTurns = userTurns;
+      const check = (async () => {
+        try {
+          const result = await checkObjectiveProgress(transcript, scenario, steps);
+          update(result.completedStepIds, result.score);
+        } catch (error) {
+          console.error("Objective check failed", error);
+        } finally {
+          pendingCheck = null;
+        }
+      })();
+      pendingCheck = check;
+      await check;
+    },
+
+    dispose: () => {
+      isDisposed = true;
+    },
+  };
+};
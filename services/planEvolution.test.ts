@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest';
+import { PracticeReport, Scenario, UserPlan } from '../types';
+import { applyPlanDraft, canEvolvePlan, countErrorCategories, summarizePerformance } from './planEvolution';
+
+const scenario = (id: string, overrides: Partial<Scenario> = {}): Scenario => ({
+  id,
+  title: `Scenario ${id}`,
+  description: `Description ${id}.`,
+  difficulty: 'Beginner',
+  objective: `Objective ${id}.`,
+  ...overrides,
+});
+
+const plan = (scenarios: Scenario[]): UserPlan => ({ level: 'B1 (Intermediate)', feedback: 'Keep going.', scenarios });
+
+const report = (scenarioId: string, createdAt: number, overrides: Partial<PracticeReport> = {}): PracticeReport => ({
+  id: `${scenarioId}-${createdAt}`,
+  scenarioId,
+  createdAt,
+  objectiveAchieved: false,
+  objectiveNotes: '',
+  summary: '',
+  utterances: [],
+  ...overrides,
+});
+
+const PLAN_CREATED_AT = 1000;
+
+describe('canEvolvePlan', () => {
+  const current = plan([scenario('a'), scenario('b')]);
+
+  it('is false until a scenario has been practised', () => {
+    expect(canEvolvePlan(current, [], PLAN_CREATED_AT)).toBe(false);
+    expect(canEvolvePlan(current, [report('other', 2000)], PLAN_CREATED_AT)).toBe(false);
+  });
+
+  it('is true once a scenario of the plan has a report', () => {
+    expect(canEvolvePlan(current, [report('b', 2000)], PLAN_CREATED_AT)).toBe(true);
+  });
+
+  it('ignores reports from before the plan was created', () => {
+    expect(canEvolvePlan(current, [report('a', 500)], PLAN_CREATED_AT)).toBe(false);
+  });
+
+  it('counts completions only since the plan was created', () => {
+    const completed = (completedAt: number) => plan([scenario('a', { completion: { completedAt, score: 80 } })]);
+    expect(canEvolvePlan(completed(2000), [], PLAN_CREATED_AT)).toBe(true);
+    expect(canEvolvePlan(completed(500), [], PLAN_CREATED_AT)).toBe(false);
+  });
+});
+
+describe('summarizePerformance', () => {
+  it('describes each scenario with its practice since the plan was created', () => {
+    const summary = summarizePerformance(
+      plan([scenario('a'), scenario('b', { completion: { completedAt: 2000, score: 85 } }), scenario('c')]),
+      [
+        report('a', 500, { objectiveAchieved: true }), // An earlier version of "a"
+        report('a', 2000, {
+          utterances: [{ original: 'I go', corrected: 'I went', errorCategories: ['tense'], explanation: '', vocabulary: [] }],
+        }),
+        report('b', 3000, { objectiveAchieved: true }),
+      ],
+      PLAN_CREATED_AT,
+    );
+
+    expect(summary).toContain('- [a] Scenario a (Beginner): Description a. Objective: Objective a.');
+    expect(summary).toContain('Performance: in progress; 1 practice sessions, objective achieved in 0; frequent errors: tense (1)');
+    expect(summary).toContain('Performance: completed (score 85/100); 1 practice sessions, objective achieved in 1');
+    expect(summary).toContain('Performance: not started; 0 practice sessions');
+    expect(summary).toContain('Recurring errors across all practice: tense (1)');
+  });
+
+  it('does not make up a score for completions the tutor never scored', () => {
+    const summary = summarizePerformance(
+      plan([scenario('a', { completion: { completedAt: 2000, score: null } })]),
+      [report('a', 2000, { objectiveAchieved: true })],
+      PLAN_CREATED_AT,
+    );
+
+    expect(summary).toContain('Performance: completed (not scored); 1 practice sessions, objective achieved in 1');
+  });
+});
+
+describe('countErrorCategories', () => {
+  it('counts categories across utterances, most frequent first', () => {
+    const utterance = (errorCategories: PracticeReport['utterances'][number]['errorCategories']) =>
+      ({ original: '', corrected: '', errorCategories, explanation: '', vocabulary: [] });
+    const counts = countErrorCategories([
+      report('a', 0, { utterances: [utterance(['article']), utterance(['tense', 'article'])] }),
+      report('b', 0, { utterances: [utterance(['article'])] }),
+    ]);
+    expect(counts).toEqual([['article', 3], ['tense', 1]]);
+  });
+});
+
+describe('applyPlanDraft', () => {
+  const steps = [{ id: 'greet', description: 'Greet' }];
+  const completion = { completedAt: 2000, score: 90 };
+  const previous: UserPlan = {
+    ...plan([
+      scenario('same', { steps, completion }),
+      scenario('harder', { steps, completion }),
+      scenario('revised', { steps }),
+      scenario('gone'),
+    ]),
+    assessment: { cefr: 'B1', confidence: 0.8, skills: [] },
+  };
+
+  const { plan: next, changes } = applyPlanDraft(previous, {
+    feedback: 'New feedback.',
+    scenarios: [
+      { scenario: scenario('same'), reason: 'Still useful.' },
+      { scenario: scenario('harder', { difficulty: 'Intermediate' }), reason: 'Completed.' },
+      { scenario: scenario('revised', { objective: 'A new objective.' }), reason: 'Needs focus.' },
+      { scenario: scenario('new'), reason: 'Targets tense errors.' },
+    ],
+    retired: [{ id: 'gone', reason: 'Mastered.' }],
+  });
+
+  it('classifies every change against the previous plan', () => {
+    expect(changes.map(change => [change.scenarioId, change.kind, change.reason])).toEqual([
+      ['same', 'unchanged', 'Still useful.'],
+      ['harder', 'harder', 'Completed.'],
+      ['revised', 'revised', 'Needs focus.'],
+      ['new', 'added', 'Targets tense errors.'],
+      ['gone', 'retired', 'Mastered.'],
+    ]);
+    expect(changes[1].previous?.difficulty).toBe('Beginner');
+  });
+
+  it('keeps checklist steps only while the objective is the same', () => {
+    expect(next.scenarios.map(s => s.steps)).toEqual([steps, steps, undefined, undefined]);
+  });
+
+  it('keeps a completion only on unchanged scenarios', () => {
+    expect(next.scenarios.map(s => s.completion)).toEqual([completion, undefined, undefined, undefined]);
+  });
+
+  it('carries over the level and assessment with the new feedback', () => {
+    expect(next.level).toBe(previous.level);
+    expect(next.assessment).toBe(previous.assessment);
+    expect(next.feedback).toBe('New feedback.');
+  });
+
+  it('gives retired scenarios a default reason when the draft has none', () => {
+    const result = applyPlanDraft(previous, { feedback: '', scenarios: [{ scenario: scenario('same'), reason: '' }], retired: [] });
+    expect(result.changes.filter(change => change.kind === 'retired').map(change => change.reason))
+      .toEqual(['No longer part of the plan.', 'No longer part of the plan.', 'No longer part of the plan.']);
+  });
+});
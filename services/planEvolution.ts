@@ -0,0 +1,102 @@
+import { ErrorCategory, PlanChange, PlanChangeKind, PlanEvolution, PracticeReport, Scenario, UserPlan } from '../types';
+import { generateEvolvedPlan } from './geminiService';
+import { PlanEvolutionDraft } from './validation';
+
+// Evolves a training plan from accumulated practice: summarises performance per scenario,
+// asks the model for the next set of scenarios, then diffs the result against the current plan.
+// Only practice since the current plan was created counts: an evolved scenario keeps its id,
+// so earlier reports would otherwise be credited to its new version.
+
+const DIFFICULTY_RANK: Record<Scenario['difficulty'], number> = { Beginner: 0, Intermediate: 1, Advanced: 2 };
+
+/** Error categories across the reports, most frequent first. */
+export const countErrorCategories = (reports: PracticeReport[]): [ErrorCategory, number][] => {
+  const counts = new Map<ErrorCategory, number>();
+  reports.forEach(report => report.utterances.forEach(utterance =>
+    utterance.errorCategories.forEach(category => counts.set(category, (counts.get(category) ?? 0) + 1))));
+  return [...counts.entries()].sort((a, b) => b[1] - a[1]);
+};
+
+const formatCategories = (counts: [ErrorCategory, number][]) =>
+  counts.map(([category, count]) => `${category} (${count})`).join(', ');
+
+const reportsSince = (reports: PracticeReport[], planCreatedAt: number) =>
+  reports.filter(report => report.createdAt >= planCreatedAt);
+
+export const summarizePerformance = (plan: UserPlan, allReports: PracticeReport[], planCreatedAt: number): string => {
+  const reports = reportsSince(allReports, planCreatedAt);
+  const lines = plan.scenarios.map(scenario => {
+    const scenarioReports = reports.filter(report => report.scenarioId === scenario.id);
+    const achieved = scenarioReports.filter(report => report.objectiveAchieved).length;
+    const score = scenario.completion?.score;
+    const status = scenario.completion
+      ? `completed (${score == null ? 'not scored' : `score ${score}/100`})`
+      : scenarioReports.length ? 'in progress' : 'not started';
+    const errors = countErrorCategories(scenarioReports).slice(0, 3);
+    return [
+      `- [${scenario.id}] ${scenario.title} (${scenario.difficulty}): ${scenario.description} Objective: ${scenario.objective}`,
+      `  Performance: ${status}; ${scenarioReports.length} practice sessions, objective achieved in ${achieved}`
+        + (errors.length ? `; frequent errors: ${formatCategories(errors)}` : ''),
+    ].join('\n');
+  });
+
+  const overall = countErrorCategories(reports).slice(0, 5);
+  return `${lines.join('\n')}\n\nRecurring errors across all practice: ${overall.length ? formatCategories(overall) : 'none recorded'}`;
+};
+
+/** The plan is worth evolving once at least one of its scenarios has been practised since it was created. */
+export const canEvolvePlan = (plan: UserPlan, reports: PracticeReport[], planCreatedAt: number): boolean =>
+  plan.scenarios.some(scenario =>
+    (scenario.completion && scenario.completion.completedAt >= planCreatedAt)
+    || reportsSince(reports, planCreatedAt).some(report => report.scenarioId === scenario.id));
+
+const classifyChange = (previous: Scenario, next: Scenario): PlanChangeKind => {
+  const delta = DIFFICULTY_RANK[next.difficulty] - DIFFICULTY_RANK[previous.difficulty];
+  if (delta > 0) return 'harder';
+  if (delta < 0) return 'easier';
+  if (next.title !== previous.title || next.description !== previous.description || next.objective !== previous.objective) {
+    return 'revised';
+  }
+  return 'unchanged';
+};
+
+/** Builds the next plan from the model's draft and lists what changed relative to the previous plan. */
+export const applyPlanDraft = (previous: UserPlan, draft: PlanEvolutionDraft): PlanEvolution => {
+  const previousById = new Map(previous.scenarios.map(scenario => [scenario.id, scenario]));
+  const changes: PlanChange[] = [];
+
+  const scenarios = draft.scenarios.map(({ scenario, reason }) => {
+    const before = previousById.get(scenario.id);
+    if (!before) {
+      changes.push({ kind: 'added', scenarioId: scenario.id, title: scenario.title, reason });
+      return scenario;
+    }
+    const kind = classifyChange(before, scenario);
+    changes.push({ kind, scenarioId: scenario.id, title: scenario.title, previous: before, reason });
+    // Checklist steps still apply while the objective is the same; a completion only while nothing changed
+    return {
+      ...scenario,
+      ...(before.steps && before.objective === scenario.objective ? { steps: before.steps } : {}),
+      ...(kind === 'unchanged' && before.completion ? { completion: before.completion } : {}),
+    };
+  });
+
+  const retiredReasons = new Map(draft.retired.map(item => [item.id, item.reason]));
+  const kept = new Set(scenarios.map(scenario => scenario.id));
+  previous.scenarios
+    .filter(scenario => !kept.has(scenario.id))
+    .forEach(scenario => changes.push({
+      kind: 'retired',
+      scenarioId: scenario.id,
+      title: scenario.title,
+      previous: scenario,
+      reason: retiredReasons.get(scenario.id) || 'No longer part of the plan.',
+    }));
+
+  const plan: UserPlan = { level: previous.level, feedback: draft.feedback, scenarios };
+  if (previous.assessment) plan.assessment = previous.assessment;
+  return { plan, changes };
+};
+
+export const evolvePlan = async (plan: UserPlan, reports: PracticeReport[], planCreatedAt: number): Promise<PlanEvolution> =>
+  applyPlanDraft(plan, await generateEvolvedPlan(plan, summarizePerformance(plan, reports, planCreatedAt)));
@@ -0,0 +1,78 @@
+import { LearnerProfile } from '../types';
+import { createId } from '../utils/id';
+import { deleteLearnerData } from './learnerStore';
+import { createDefaultBackend, StorageBackend } from './storage';
+
+// Directory of the learners sharing this device. Each learner's data lives in its own
+// database, so switching or deleting a learner never touches anyone else's.
+
+const DIRECTORY_DB_NAME = 'fluentflow-profiles';
+// Data saved before profiles existed stays where it was and becomes the first learner's
+const LEGACY_DB_NAME = 'fluentflow';
+const FIRST_PROFILE: Omit<LearnerProfile, 'createdAt'> = { id: 'default', name: 'Learner 1', dbName: LEGACY_DB_NAME };
+const ACTIVE_PROFILE_KEY = 'fluentflow.activeProfileId';
+
+export interface ProfileStore {
+  /** Oldest first. The first profile is created on first use. */
+  listProfiles(): Promise<LearnerProfile[]>;
+  createProfile(name: string): Promise<LearnerProfile>;
+  /** Removes the profile along with all of its plans, history and settings. */
+  deleteProfile(profile: LearnerProfile): Promise<void>;
+  /** The learner last switched to on this device, if remembered. */
+  getActiveProfileId(): string | null;
+  setActiveProfileId(id: string): void;
+}
+
+// localStorage can be unavailable (privacy modes, sandboxed frames); forgetting the active learner is harmless
+const readActiveProfileId = () => {
+  try {
+    return localStorage.getItem(ACTIVE_PROFILE_KEY);
+  } catch {
+    return null;
+  }
+};
+
+const writeActiveProfileId = (id: string) => {
+  try {
+    localStorage.setItem(ACTIVE_PROFILE_KEY, id);
+  } catch (error) {
+    console.warn("Couldn't remember the active learner", error);
+  }
+};
+
+export const createProfileStore = (backend: StorageBackend): ProfileStore => ({
+  listProfiles: async () => {
+    const profiles = await backend.getAll<LearnerProfile>('profiles');
+    if (profiles.length === 0) {
+      // Fixed id, so concurrent first loads don't create two
+      const first: LearnerProfile = { ...FIRST_PROFILE, createdAt: Date.now() };
+      await backend.put('profiles', first);
+      return [first];
+    }
+    return profiles.sort((a, b) => a.createdAt - b.createdAt);
+  },
+
+  createProfile: async (name) => {
+    const id = createId();
+    const profile: LearnerProfile = { id, name: name.trim(), createdAt: Date.now(), dbName: `fluentflow-learner-${id}` };
+    await backend.put('profiles', profile);
+    return profile;
+  },
+
+  deleteProfile: async (profile) => {
+    await deleteLearnerData(profile);
+    await backend.delete('profiles', profile.id);
+  },
+
+  getActiveProfileId: readActiveProfileId,
+  setActiveProfileId: writeActiveProfileId,
+});
+
+let defaultProfileStore: ProfileStore | null = null;
+
+export const getProfileStore = (): ProfileStore => {
+  if (!defaultProfileStore) {
+    defaultProfileStore = createProfileStore(createDefaultBackend(DIRECTORY_DB_NAME, ['profiles']));
+  }
+  return defaultProfileStore;
+};
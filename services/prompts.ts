@@ -0,0 +1,109 @@
+import { CorrectionStyle, LearnerSettings, Scenario, SpeakingPace, Transcript } from '../types';
+import { serializeTranscript } from '../utils/transcript';
+
+// System instructions for the live tutors, composed from sections so learner settings
+// (pace, correction style, native language) slot into every prompt the same way.
+
+export interface PromptSection {
+  label?: string; // Rendered as "Label: body"
+  body: string;
+}
+
+type SectionInput = PromptSection | string | null | undefined | false;
+
+/** Joins sections one per line. Falsy entries are skipped, so optional sections can be written inline. */
+export const composePrompt = (sections: SectionInput[]): string =>
+  sections
+    .filter((section): section is PromptSection | string => Boolean(section))
+    .map(section => typeof section === 'string'
+      ? section
+      : section.label ? `${section.label}: ${section.body}` : section.body)
+    .join('\n');
+
+// Out-of-band instructions from the app; parenthesised so the tutor doesn't take them as the learner speaking
+export const WRAP_UP_INSTRUCTION = "(Time is nearly up. Wrap up the conversation naturally in one or two sentences and say goodbye. Don't ask any new questions.)";
+export const TEXT_CHAT_START = '(The learner has joined the chat. Begin.)';
+
+const PACE_INSTRUCTIONS: Record<SpeakingPace, string> = {
+  slow: 'Speak slowly and clearly, in short sentences, with a brief pause between them.',
+  natural: 'Speak at a natural conversational pace.',
+  fast: "Speak at a normal native pace; don't slow down for the user.",
+};
+
+const CORRECTION_INSTRUCTIONS: Record<CorrectionStyle, string> = {
+  none: "Don't correct the user's mistakes. Keep the conversation flowing and only help when they can't make themselves understood.",
+  recast: 'Gently correct major grammatical errors by rephrasing what the user said correctly in your response, but prioritize conversation flow.',
+  explicit: 'When the user makes a grammatical error, briefly step out of the roleplay: say what was wrong, give the correct form and ask them to repeat it, then carry on in character.',
+};
+
+export interface AssessmentPromptOptions {
+  minutes: number;
+  soFar: Transcript | null; // Earlier part of a continued assessment
+  settings: LearnerSettings;
+}
+
+export const buildAssessmentPrompt = ({ minutes, soFar, settings }: AssessmentPromptOptions): string => composePrompt([
+  'You are a friendly and professional English language examiner.',
+  `Your goal is to assess the user's English proficiency level (CEFR A1-C2) through a casual ${minutes}-minute conversation.`,
+  soFar
+    ? `You already started, but the user said too little to assess. This is the conversation so far:
+${serializeTranscript(soFar)}
+Continue without introducing yourself again. Ask open questions that invite longer answers.`
+    : 'Start by introducing yourself as "Sarah, your placement tutor" and ask a simple ice-breaker question (e.g., "Tell me a little about yourself").',
+  'Gradually increase the complexity of your questions based on their responses.',
+  'Ask about their hobbies, work, or opinions on simple topics.',
+  'Be encouraging but observant of grammar, vocabulary, and fluency.',
+  { label: 'Pace', body: PACE_INSTRUCTIONS[settings.pace] },
+  { label: 'Correction Policy', body: "Don't correct the user's mistakes; the assessment should reflect how they really speak." },
+  // The assessment measures English, so no translation help even when a native language is set
+  settings.nativeLanguage && { label: 'Language', body: `Speak only English, even if the user switches to ${settings.nativeLanguage}.` },
+  'Keep your responses concise to allow the user to speak more.',
+]);
+
+export interface PracticePromptOptions {
+  scenario: Scenario;
+  level: string; // Plan level label, e.g. "B1 (Intermediate)"
+  settings: LearnerSettings;
+}
+
+export const buildPracticePrompt = ({ scenario, level, settings }: PracticePromptOptions): string => composePrompt([
+  'You are a roleplay partner for an English learner.',
+  { label: 'Scenario', body: scenario.title },
+  { label: 'Context', body: scenario.description },
+  { label: 'Your Goal', body: scenario.objective },
+  {
+    label: 'Role',
+    body: `${scenario.persona ? `You are ${scenario.persona}.` : 'You are acting as a character in this scenario.'} Do not break character unless the user is completely stuck.`,
+  },
+  { label: 'Level Adjustment', body: `The user is at a ${level} level. Adjust your vocabulary accordingly.` },
+  { label: 'Pace', body: PACE_INSTRUCTIONS[settings.pace] },
+  { label: 'Correction Policy', body: CORRECTION_INSTRUCTIONS[settings.correctionStyle] },
+  settings.nativeLanguage && {
+    label: 'Native Language',
+    body: `The user's native language is ${settings.nativeLanguage}. If they are stuck on a word or a correction, you may briefly explain it in ${settings.nativeLanguage}, then continue in English.`,
+  },
+  scenario.targetVocabulary?.length ? {
+    label: 'Target Vocabulary',
+    body: `Create natural opportunities for the user to use: ${scenario.targetVocabulary.join(', ')}.`,
+  } : null,
+  {
+    label: 'Whiteboard',
+    body: "The learner has a whiteboard beside the call. Call showWord when you use a word or phrase they may not know, and showHint when they are stuck for what to say. Use these sparingly, never more than once per turn, and keep talking as normal. Once the roleplay has reached a natural end and you have said goodbye, call endSession.",
+  },
+  scenario.steps?.length ? {
+    label: 'Checklist',
+    body: `The learner is working through these steps. Call markObjectiveStep with a step's id as soon as they complete it.\n${scenario.steps.map(step => `- [${step.id}] ${step.description}`).join('\n')}`,
+  } : null,
+  scenario.openingLine
+    ? `Start the roleplay immediately by saying: "${scenario.openingLine}"`
+    : 'Start the roleplay immediately with an opening line fitting the scenario.',
+]);
+
+/** Adapts a live tutor prompt for the typed chat fallback. */
+export const buildTextChatPrompt = (systemInstruction: string): string => composePrompt([
+  systemInstruction,
+  {
+    label: 'Format',
+    body: 'This is a typed text chat, not a voice call. Reply in short written messages of one to three sentences, without stage directions or emoji. Ignore any instructions about speaking pace, the whiteboard or the checklist.',
+  },
+]);
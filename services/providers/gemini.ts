@@ -0,0 +1,123 @@
+import { GoogleGenAI, LiveServerMessage, Modality } from '@google/genai';
+import { createId } from '../../utils/id';
+import { AiProvider, LiveEvent } from './types';
+
+const LIVE_MODEL = 'gemini-2.5-flash-native-audio-preview-09-2025';
+const STRUCTURED_MODEL = 'gemini-2.5-flash';
+const CHAT_MODEL = 'gemini-2.5-flash';
+const TTS_MODEL = 'gemini-2.5-flash-preview-tts';
+
+// Splits one Live API message into provider-neutral events, in the order they should be handled
+const toLiveEvents = (message: LiveServerMessage): LiveEvent[] => {
+  const { serverContent, toolCall } = message;
+  if (toolCall?.functionCalls?.length) {
+    return [{
+      type: 'toolCall',
+      // Ids key the whiteboard and tool responses, so id-less calls still need distinct ones
+      calls: toolCall.functionCalls.map(call => ({ id: call.id || createId(), name: call.name ?? '', args: call.args ?? {} })),
+    }];
+  }
+  if (!serverContent) return [];
+
+  const events: LiveEvent[] = [];
+  if (serverContent.inputTranscription?.text) {
+    events.push({ type: 'inputTranscription', text: serverContent.inputTranscription.text });
+  }
+  if (serverContent.outputTranscription?.text) {
+    events.push({ type: 'outputTranscription', text: serverContent.outputTranscription.text });
+  }
+  if (serverContent.interrupted) {
+    events.push({ type: 'interrupted' });
+  }
+  serverContent.modelTurn?.parts?.forEach((part) => {
+    if (part.inlineData?.data) events.push({ type: 'audio', data: part.inlineData.data });
+  });
+  if (serverContent.turnComplete) {
+    events.push({ type: 'turnComplete' });
+  }
+  return events;
+};
+
+export const createGeminiProvider = (apiKey: string | undefined): AiProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    name: 'gemini',
+
+    connectLive: async (config, onEvent, tools) => {
+      const session = await ai.live.connect({
+        model: LIVE_MODEL,
+        config: {
+          responseModalities: [Modality.AUDIO],
+          systemInstruction: config.systemInstruction,
+          speechConfig: {
+            voiceConfig: { prebuiltVoiceConfig: { voiceName: config.voiceName } },
+          },
+          inputAudioTranscription: {},
+          outputAudioTranscription: {},
+          tools: tools?.length ? [{ functionDeclarations: tools }] : undefined,
+        },
+        callbacks: {
+          onopen: () => onEvent({ type: 'open' }),
+          onmessage: (message: LiveServerMessage) => toLiveEvents(message).forEach(onEvent),
+          onclose: (e: CloseEvent) => onEvent({ type: 'close', reason: e.reason }),
+          onerror: (e: ErrorEvent) => onEvent({ type: 'error', error: e.error ?? e.message }),
+        },
+      });
+
+      return {
+        sendAudio: (chunk) => session.sendRealtimeInput({ media: chunk }),
+        endAudioStream: () => session.sendRealtimeInput({ audioStreamEnd: true }),
+        sendText: (text) => session.sendClientContent({ turns: [{ role: 'user', parts: [{ text }] }], turnComplete: true }),
+        sendToolResponse: (responses) => session.sendToolResponse({ functionResponses: responses }),
+        close: () => session.close(),
+      };
+    },
+
+    startChat: (config) => {
+      const chat = ai.chats.create({ model: CHAT_MODEL, config: { systemInstruction: config.systemInstruction } });
+      let isClosed = false;
+      return {
+        send: async (text, onText) => {
+          let reply = '';
+          if (isClosed) return reply;
+          for await (const chunk of await chat.sendMessageStream({ message: text })) {
+            if (isClosed) break;
+            if (!chunk.text) continue;
+            reply += chunk.text;
+            onText(chunk.text);
+          }
+          return reply;
+        },
+        close: () => {
+          isClosed = true;
+        },
+      };
+    },
+
+    generateStructured: async ({ prompt, schema, audio }) => {
+      const response = await ai.models.generateContent({
+        model: STRUCTURED_MODEL,
+        contents: audio
+          ? [{ role: 'user', parts: [{ text: prompt }, { inlineData: { mimeType: audio.mimeType, data: audio.data } }] }]
+          : prompt,
+        config: { responseMimeType: 'application/json', responseSchema: schema },
+      });
+      return response.text;
+    },
+
+    synthesizeSpeech: async (text, voiceName) => {
+      const response = await ai.models.generateContent({
+        model: TTS_MODEL,
+        contents: [{ parts: [{ text }] }],
+        config: {
+          responseModalities: [Modality.AUDIO],
+          speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName } } },
+        },
+      });
+      const data = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+      if (!data) throw new Error('Speech synthesis returned no audio');
+      return data;
+    },
+  };
+};
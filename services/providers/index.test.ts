@@ -0,0 +1,28 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+// The provider is created once per module, so each case loads fresh copies
+const loadModules = async () => {
+  vi.resetModules();
+  const [{ getAiProvider }, { ConfigurationError }] = await Promise.all([import('./index'), import('../errors')]);
+  return { getAiProvider, ConfigurationError };
+};
+
+describe('getAiProvider', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('uses the offline provider only when asked for explicitly', async () => {
+    vi.stubEnv('AI_PROVIDER', 'mock');
+    vi.stubEnv('API_KEY', '');
+    const { getAiProvider } = await loadModules();
+    expect(getAiProvider().generateStructured).toBeTypeOf('function');
+  });
+
+  it('reports a configuration error instead of falling back to the mock without an API key', async () => {
+    vi.stubEnv('AI_PROVIDER', '');
+    vi.stubEnv('API_KEY', '');
+    const { getAiProvider, ConfigurationError } = await loadModules();
+    expect(() => getAiProvider()).toThrow(ConfigurationError);
+  });
+});
@@ -0,0 +1,27 @@
+import { createGeminiProvider } from './gemini';
+import { createMockProvider } from './mock';
+import { ConfigurationError } from '../errors';
+import { AiProvider } from './types';
+
+export type { AiProvider, ChatConnection, LiveConnection, LiveEvent, StructuredRequest, StructuredTask, ToolCall, ToolDeclaration, ToolResponse } from './types';
+
+let provider: AiProvider | null = null;
+
+// Only an explicit AI_PROVIDER=mock selects the offline provider, so a missing key never passes for a working setup; see README
+const createProvider = (): AiProvider => {
+  if (process.env.AI_PROVIDER === 'mock') return createMockProvider();
+  if (!process.env.API_KEY) {
+    throw new ConfigurationError('No Gemini API key is configured. Set GEMINI_API_KEY in .env.local, or set AI_PROVIDER=mock to use the offline tutor.');
+  }
+  return createGeminiProvider(process.env.API_KEY);
+};
+
+export const getAiProvider = (): AiProvider => {
+  if (!provider) provider = createProvider();
+  return provider;
+};
+
+// Allows tests and tooling to swap the provider
+export const setAiProvider = (next: AiProvider) => {
+  provider = next;
+};
@@ -0,0 +1,352 @@
+import { SessionKind } from '../../types';
+import { uint8ArrayToBase64 } from '../../utils/audio';
+import { AiProvider, ChatConnection, LiveEvent, StructuredRequest, ToolCall } from './types';
+
+// Deterministic offline provider. It replays a scripted conversation with synthesised
+// tutor audio and answers structured requests with fixtures, so the whole
+// assessment → plan → practice flow can run without a Gemini key or network.
+
+interface ScriptStep {
+  tutor: string;
+  learner?: string; // What the "recogniser" reports once the learner has spoken
+  toolCalls?: Omit<ToolCall, 'id'>[]; // Made after the line is spoken, if the session declared the tool
+}
+
+const SCRIPTS: Record<SessionKind, ScriptStep[]> = {
+  ASSESSMENT: [
+    { tutor: "Hi, I'm Sarah, your placement tutor. Tell me a little about yourself.", learner: "Hello, my name is Alex and I work as a designer." },
+    { tutor: "Nice to meet you, Alex. What do you enjoy most about your job?", learner: "I like to create things and working with people." },
+    { tutor: "That sounds rewarding. What did you do last weekend?", learner: "Last weekend I go to the park with my friends." },
+    { tutor: "Great. What would you like to improve in your English?", learner: "I want to speak more fluently in meetings and understand films without subtitles." },
+    { tutor: "Lovely. Thanks, that's all I need for now. You can end the session whenever you're ready." },
+  ],
+  PRACTICE: [
+    {
+      tutor: "Hello there! What can I do for you today?",
+      learner: "Hi, I would like a large coffee with oat milk please.",
+      toolCalls: [{ name: 'showHint', args: { text: 'Try: "Could I have a ..., please?"' } }],
+    },
+    {
+      tutor: "Of course. Would you like anything else with that?",
+      learner: "No thanks. How much is it?",
+      toolCalls: [{ name: 'showWord', args: { word: "That's all", definition: "A polite way to say you don't need anything more.", example: "No, thank you, that's all." } }],
+    },
+    {
+      tutor: "That will be four pounds fifty. Have a great day!",
+      toolCalls: [{ name: 'endSession', args: { reason: "The order is complete." } }],
+    },
+  ],
+};
+
+const OUTPUT_SAMPLE_RATE = 24000;
+const INPUT_SAMPLE_RATE = 16000;
+const WORD_DURATION_MS = 320;
+const LEARNER_SPEECH_SECONDS = 3; // Audio the mock waits to receive before "hearing" a reply
+const MIN_LEARNER_SPEECH_SECONDS = 0.5; // Enough to count as a reply when the client signals end of speech
+const OPEN_DELAY_MS = 300;
+const CHAT_WORD_DELAY_MS = 60;
+const MOCK_WRAP_UP = "We're almost out of time, so let's finish here. Thanks for the chat, you did really well!";
+
+// A short, enveloped two-tone burst per word so playback and visualisers have something real to show
+const synthesizeWordPcm = (index: number): Int16Array => {
+  const frames = Math.round((OUTPUT_SAMPLE_RATE * WORD_DURATION_MS) / 1000);
+  const pcm = new Int16Array(frames);
+  const base = 180 + (index % 5) * 25;
+  for (let i = 0; i < frames; i++) {
+    const t = i / OUTPUT_SAMPLE_RATE;
+    const envelope = Math.sin((Math.PI * i) / frames);
+    const sample = 0.6 * Math.sin(2 * Math.PI * base * t) + 0.4 * Math.sin(2 * Math.PI * base * 2.5 * t);
+    pcm[i] = Math.round(sample * envelope * 0.25 * 0x7FFF);
+  }
+  return pcm;
+};
+
+const synthesizeWord = (index: number): string =>
+  uint8ArrayToBase64(new Uint8Array(synthesizeWordPcm(index).buffer));
+
+const synthesizeSentence = (text: string): string => {
+  const words = text.split(/\s+/).filter(Boolean).map((_, index) => synthesizeWordPcm(index));
+  const pcm = new Int16Array(words.reduce((sum, w) => sum + w.length, 0));
+  let offset = 0;
+  words.forEach((w) => {
+    pcm.set(w, offset);
+    offset += w.length;
+  });
+  return uint8ArrayToBase64(new Uint8Array(pcm.buffer));
+};
+
+const MOCK_PLAN = {
+  level: "B1 (Intermediate)",
+  cefr: "B1",
+  confidence: 0.7,
+  skills: [
+    { skill: "grammar", score: 58, level: "B1", comment: "Past tense is inconsistent in longer answers.", evidence: ["Last weekend I go to the park."] },
+    { skill: "vocabulary", score: 66, level: "B1", comment: "Good everyday range; few less common words.", evidence: ["I work as a nurse."] },
+    { skill: "fluency", score: 62, level: "B1", comment: "Some hesitation when answering follow-ups.", evidence: ["I like... reading, and um, cooking."] },
+    { skill: "coherence", score: 64, level: "B1", comment: "Ideas are linked with simple connectors.", evidence: ["I like it because it is relaxing."] },
+    { skill: "interaction", score: 70, level: "B2", comment: "Responds readily and keeps the conversation going.", evidence: ["What about you?"] },
+  ],
+  feedback: "You have good basic vocabulary but struggle with complex sentence structures. Focus on past tense consistency.",
+  scenarios: [
+    { id: "mock-coffee", title: "Ordering Coffee", description: "You are at a busy cafe in London.", difficulty: "Beginner", objective: "Order a customized drink and ask for the price." },
+    { id: "mock-interview", title: "Job Interview", description: "You are interviewing for a marketing role.", difficulty: "Intermediate", objective: "Describe your strengths and previous experience." },
+    { id: "mock-refund", title: "Returning an Item", description: "You bought a defective laptop.", difficulty: "Advanced", objective: "Politely but firmly negotiate a refund without a receipt." }
+  ]
+};
+
+// The mock "hears" the reference sentence perfectly except for longer words, which it scores lower
+const referenceSentence = (prompt: string) => prompt.match(/Reference sentence: "(.*)"/)?.[1] ?? '';
+
+// Checklist steps listed in a prompt as "- [id] description"
+const listedStepIds = (prompt: string) => Array.from(prompt.matchAll(/^- \[(.+?)\]/gm), match => match[1]);
+
+const learnerLines = (prompt: string) =>
+  prompt.split('\n')
+    .filter(line => line.startsWith('User: '))
+    .map(line => line.slice('User: '.length).trim());
+
+// Promotes completed scenarios one difficulty up (retiring completed Advanced ones) and adds a new one
+const HARDER: Record<string, string> = { Beginner: "Intermediate", Intermediate: "Advanced" };
+
+const evolveMockPlan = (prompt: string) => {
+  const scenarios: Record<string, string>[] = [];
+  const retired: Record<string, string>[] = [];
+  const pattern = /^- \[(.+?)\] (.+?) \((Beginner|Intermediate|Advanced)\): (.*) Objective: (.*)\n {2}Performance: (\w+)/gm;
+  for (const [, id, title, difficulty, description, objective, status] of prompt.matchAll(pattern)) {
+    if (status !== 'completed') {
+      scenarios.push({ id, title, description, difficulty, objective, reason: "Not finished yet, so it stays in the plan." });
+    } else if (HARDER[difficulty]) {
+      scenarios.push({ id, title, description, difficulty: HARDER[difficulty], objective: `${objective} Handle one unexpected complication.`, reason: "You completed this one, so it now comes with a twist." });
+    } else {
+      retired.push({ id, reason: "Mastered at the hardest level." });
+    }
+  }
+  scenarios.push({
+    id: "new",
+    title: "Weekend Catch-up",
+    description: "A friend asks what you did last weekend.",
+    difficulty: "Intermediate",
+    objective: "Describe three things you did, using the past tense consistently.",
+    reason: "Targets your recurring tense errors.",
+  });
+  return { feedback: "Good progress in practice. This is a mock plan update generated offline.", scenarios, retired };
+};
+
+// Marks a short answer correct when it contains one of the expected answers
+const gradeMockAnswers = (prompt: string) => ({
+  grades: Array.from(prompt.matchAll(/^- \[(.+?)\] .*\| Expected: (.*) \| Learner: (.*)$/gm), ([, questionId, expected, answer]) => {
+    const isCorrect = expected.split(' / ').some(accepted => answer.toLowerCase().includes(accepted.toLowerCase()));
+    return { questionId, isCorrect, feedback: isCorrect ? "Close enough - you understood it." : `Listen again for "${expected.split(' / ')[0]}".` };
+  }),
+});
+
+// Replays the same script as the live mock: the first message starts the conversation, each learner
+// message advances it, and app instructions (sent in parentheses) ask the tutor to wrap up
+const startMockChat = (script: ScriptStep[]): ChatConnection => {
+  let step = -1;
+  let isClosed = false;
+
+  const stream = async (reply: string, onText: (fragment: string) => void) => {
+    for (const word of reply.split(' ')) {
+      await new Promise(resolve => setTimeout(resolve, CHAT_WORD_DELAY_MS));
+      if (isClosed) break;
+      onText(`${word} `);
+    }
+    return reply;
+  };
+
+  return {
+    send: (text, onText) => {
+      if (isClosed) return Promise.resolve('');
+      const isInstruction = text.trim().startsWith('(');
+      if (isInstruction && step >= 0) return stream(MOCK_WRAP_UP, onText);
+      step = Math.min(step + 1, script.length - 1);
+      return stream(script[step].tutor, onText);
+    },
+    close: () => {
+      isClosed = true;
+    },
+  };
+};
+
+const MOCK_RESPONSES: Record<StructuredRequest['task'], (request: StructuredRequest) => unknown> = {
+  trainingPlan: () => MOCK_PLAN,
+  planEvolution: ({ prompt }) => evolveMockPlan(prompt),
+  drillSentences: () => ({
+    sentences: [
+      "Could I have a large latte with oat milk, please?",
+      "How much does that come to altogether?",
+      "Would it be possible to get a receipt as well?",
+    ],
+  }),
+  pronunciation: ({ prompt }) => {
+    const sentence = referenceSentence(prompt);
+    return {
+      transcription: sentence,
+      words: sentence.split(' ').map(word => ({
+        word,
+        score: word.length > 6 ? 62 : 90,
+        issue: word.length > 6 ? "Stress the first syllable more clearly" : "",
+      })),
+    };
+  },
+  flashcards: () => ({
+    cards: [
+      { kind: "correction", front: "Last weekend I go to the park.", back: "Last weekend I went to the park.", example: "Yesterday I went to the shops." },
+      { kind: "vocabulary", front: "rewarding", back: "Giving satisfaction; worth doing.", example: "Teaching is a rewarding job." },
+      { kind: "idiom", front: "pick up where you left off", back: "Continue from the point where you stopped.", example: "Let's pick up where we left off yesterday." },
+    ],
+  }),
+  objectiveSteps: () => ({
+    steps: ["Greet the other person", "Explain what you need", "Ask a follow-up question"],
+  }),
+  // One step per learner line heard so far
+  objectiveProgress: ({ prompt }) => {
+    const stepIds = listedStepIds(prompt);
+    return { completedStepIds: stepIds.slice(0, learnerLines(prompt).length), score: 80 };
+  },
+  listeningPassage: () => ({
+    title: "A Table by the Window",
+    format: "dialogue",
+    segments: [
+      { speaker: "Maya", text: "Hi, do you have a table for two? My friend is arriving at half past twelve." },
+      { speaker: "Tom", text: "Of course. Would you like to sit inside or on the terrace?" },
+      { speaker: "Maya", text: "Inside, please. It's a bit cold today. Is the table by the window free?" },
+      { speaker: "Tom", text: "It is. Here's the menu. Today's special is tomato soup with fresh bread." },
+      { speaker: "Maya", text: "That sounds lovely, but I'll wait for my friend before I order. Could I have a glass of water?" },
+      { speaker: "Tom", text: "Sure, I'll bring it right away. Just wave when you're ready to order." },
+    ],
+  }),
+  listeningQuiz: () => ({
+    questions: [
+      { kind: "choice", prompt: "How many people is the table for?", options: ["One", "Two", "Four"], answerIndex: 1, segmentIndex: 0, explanation: "Maya asks for a table for two." },
+      { kind: "short", prompt: "What time is Maya's friend arriving?", acceptedAnswers: ["half past twelve", "12:30"], segmentIndex: 0, explanation: "She says her friend arrives at half past twelve." },
+      { kind: "choice", prompt: "Why does Maya want to sit inside?", options: ["The terrace is full", "It's cold", "She wants to be near the kitchen"], answerIndex: 1, segmentIndex: 2, explanation: "She says it's a bit cold today." },
+      { kind: "short", prompt: "What is today's special?", acceptedAnswers: ["tomato soup", "tomato soup with fresh bread"], segmentIndex: 3, explanation: "The waiter says the special is tomato soup with fresh bread." },
+      { kind: "choice", prompt: "What does Maya order straight away?", options: ["The special", "A coffee", "A glass of water"], answerIndex: 2, segmentIndex: 4, explanation: "She waits for her friend but asks for a glass of water." },
+    ],
+  }),
+  listeningGrading: ({ prompt }) => gradeMockAnswers(prompt),
+  practiceReport: ({ prompt }) => {
+    const lines = learnerLines(prompt);
+    return {
+      summary: "Nice work staying in the conversation. This is a mock report generated offline.",
+      objectiveAchieved: lines.length >= 2,
+      objectiveNotes: lines.length >= 2 ? "You covered the key steps of the scenario." : "Try to say a little more next time.",
+      utterances: lines.map(original => ({
+        original,
+        corrected: original,
+        errorCategories: [],
+        explanation: "",
+        vocabulary: [],
+      })),
+    };
+  },
+};
+
+export const createMockProvider = (): AiProvider => ({
+  name: 'mock',
+
+  connectLive: async (config, onEvent, tools = []) => {
+    const script = SCRIPTS[config.kind] ?? SCRIPTS.PRACTICE;
+    const objectiveStepIds = listedStepIds(config.systemInstruction);
+    const timers = new Set<ReturnType<typeof setTimeout>>();
+    let step = 0;
+    let callCount = 0;
+    let awaitingLearner = false;
+    let receivedSamples = 0;
+    let isClosed = false;
+
+    const schedule = (delayMs: number, run: () => void) => {
+      const timer = setTimeout(() => {
+        timers.delete(timer);
+        if (!isClosed) run();
+      }, delayMs);
+      timers.add(timer);
+    };
+
+    const emit = (event: LiveEvent) => {
+      if (!isClosed) onEvent(event);
+    };
+
+    // Like the real tutor, only calls tools the session declared
+    const callTools = (calls: Omit<ToolCall, 'id'>[]) => {
+      const declared = calls.filter(call => tools.some(tool => tool.name === call.name));
+      if (declared.length) emit({ type: 'toolCall', calls: declared.map(call => ({ ...call, id: `mock-call-${++callCount}` })) });
+    };
+
+    const speak = (text: string) => {
+      const words = text.split(' ');
+      words.forEach((word, index) => {
+        schedule(index * WORD_DURATION_MS, () => {
+          emit({ type: 'outputTranscription', text: `${word} ` });
+          emit({ type: 'audio', data: synthesizeWord(index) });
+        });
+      });
+      schedule(words.length * WORD_DURATION_MS, () => {
+        emit({ type: 'turnComplete' });
+        awaitingLearner = Boolean(script[step]?.learner);
+        receivedSamples = 0;
+      });
+    };
+
+    const speakStep = () => {
+      speak(script[step].tutor);
+      const calls = script[step].toolCalls;
+      if (calls) schedule(script[step].tutor.split(' ').length * WORD_DURATION_MS, () => callTools(calls));
+    };
+
+    schedule(OPEN_DELAY_MS, () => {
+      emit({ type: 'open' });
+      speakStep();
+    });
+
+    const hearLearner = () => {
+      awaitingLearner = false;
+      emit({ type: 'inputTranscription', text: script[step].learner! });
+      // Each reply ticks off the next checklist step
+      const stepId = objectiveStepIds[step];
+      if (stepId) callTools([{ name: 'markObjectiveStep', args: { stepId } }]);
+      step += 1;
+      if (step < script.length) {
+        schedule(500, speakStep);
+      }
+    };
+
+    return {
+      sendAudio: (chunk) => {
+        if (!awaitingLearner || isClosed) return;
+        // Base64 → bytes → 16-bit samples
+        receivedSamples += Math.floor((chunk.data.length * 3) / 4 / 2);
+        if (receivedSamples >= INPUT_SAMPLE_RATE * LEARNER_SPEECH_SECONDS) hearLearner();
+      },
+      endAudioStream: () => {
+        if (!awaitingLearner || isClosed) return;
+        if (receivedSamples >= INPUT_SAMPLE_RATE * MIN_LEARNER_SPEECH_SECONDS) hearLearner();
+      },
+      // Any text is treated as the app asking the tutor to wrap up
+      sendText: () => {
+        if (isClosed) return;
+        schedule(300, () => speak(MOCK_WRAP_UP));
+      },
+      sendToolResponse: () => {},
+      close: () => {
+        if (isClosed) return;
+        timers.forEach(clearTimeout);
+        timers.clear();
+        onEvent({ type: 'close', reason: 'Closed by client' });
+        isClosed = true;
+      },
+    };
+  },
+
+  startChat: (config) => startMockChat(SCRIPTS[config.kind] ?? SCRIPTS.PRACTICE),
+
+  generateStructured: async (request) => {
+    // Small delay so loading states are visible, as with a real request
+    await new Promise(resolve => setTimeout(resolve, 600));
+    return JSON.stringify(MOCK_RESPONSES[request.task](request));
+  },
+
+  synthesizeSpeech: async (text) => synthesizeSentence(text),
+});
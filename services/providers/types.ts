@@ -0,0 +1,73 @@
+import { Schema } from '@google/genai';
+import { AudioChunk, LiveSessionConfig } from '../../types';
+
+// Events emitted by a live audio session, normalised across providers
+export type LiveEvent =
+  | { type: 'open' }
+  | { type: 'audio'; data: string } // Base64 PCM16, 24kHz mono
+  | { type: 'inputTranscription'; text: string }
+  | { type: 'outputTranscription'; text: string }
+  | { type: 'turnComplete' }
+  | { type: 'interrupted' }
+  | { type: 'toolCall'; calls: ToolCall[] }
+  | { type: 'close'; reason?: string }
+  | { type: 'error'; error: unknown };
+
+// A client-side function the live tutor may call, e.g. to put a word on screen
+export interface ToolDeclaration {
+  name: string;
+  description: string;
+  parameters: Schema;
+}
+
+export interface ToolCall {
+  id: string; // Echoed back in the response so the tutor can match it up
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export interface ToolResponse {
+  id: string;
+  name: string;
+  response: Record<string, unknown>;
+}
+
+export interface LiveConnection {
+  sendAudio(chunk: AudioChunk): void;
+  /** Signals that the learner stopped speaking (mute, push-to-talk release, end of detected speech). */
+  endAudioStream(): void;
+  /** Sends a text turn to the tutor, e.g. an out-of-band instruction from the app. */
+  sendText(text: string): void;
+  /** Answers tool calls from this connection. */
+  sendToolResponse(responses: ToolResponse[]): void;
+  close(): void;
+}
+
+// Typed conversation, used when the learner can't (or would rather not) speak
+export interface ChatConnection {
+  /** Sends a learner message or app instruction, streaming reply text to `onText`. Resolves with the full reply. */
+  send(text: string, onText: (fragment: string) => void): Promise<string>;
+  /** Stops any reply still streaming; later sends are ignored. */
+  close(): void;
+}
+
+// Identifies what a structured request is for, so offline providers can answer it
+export type StructuredTask = 'trainingPlan' | 'practiceReport' | 'drillSentences' | 'pronunciation' | 'flashcards'
+  | 'objectiveSteps' | 'objectiveProgress' | 'planEvolution' | 'listeningPassage' | 'listeningQuiz' | 'listeningGrading';
+
+export interface StructuredRequest {
+  task: StructuredTask;
+  prompt: string;
+  schema: Schema;
+  audio?: AudioChunk; // Learner recording the prompt refers to
+}
+
+export interface AiProvider {
+  readonly name: string;
+  connectLive(config: LiveSessionConfig, onEvent: (event: LiveEvent) => void, tools?: ToolDeclaration[]): Promise<LiveConnection>;
+  startChat(config: LiveSessionConfig): ChatConnection;
+  /** Returns the raw JSON text produced for the request, or undefined if the response was empty. */
+  generateStructured(request: StructuredRequest): Promise<string | undefined>;
+  /** Speaks `text` in the given tutor voice; returns base64 PCM16, 24kHz mono. */
+  synthesizeSpeech(text: string, voiceName: string): Promise<string>;
+}
@@ -0,0 +1,154 @@
+// URL routing on top of the History API. Each page the learner can land on has a path, so
+// the back button, bookmarks and shared links work; steps inside a flow (waiting for the
+// plan, the short-assessment prompt) stay on the path of the flow they belong to.
+
+export type Route =
+  | { name: 'dashboard' }
+  | { name: 'assessment' }
+  | { name: 'practice'; scenarioId: string }
+  | { name: 'pronunciation'; scenarioId: string }
+  | { name: 'report'; sessionId: string }
+  | { name: 'planUpdate' }
+  | { name: 'review' }
+  | { name: 'listening' }
+  | { name: 'scenarios' }
+  | { name: 'progress' }
+  | { name: 'settings' }
+  | { name: 'learners' };
+
+export const DASHBOARD_ROUTE: Route = { name: 'dashboard' };
+
+type StaticRouteName = Exclude<Route['name'], 'practice' | 'pronunciation' | 'report'>;
+
+const STATIC_PATHS: Record<StaticRouteName, string> = {
+  dashboard: '/',
+  assessment: '/assessment',
+  planUpdate: '/plan/update',
+  review: '/review',
+  listening: '/listening',
+  scenarios: '/scenarios',
+  progress: '/progress',
+  settings: '/settings',
+  learners: '/learners',
+};
+
+/** Returns null for paths that aren't a page of the app. */
+export const parseRoute = (pathname: string): Route | null => {
+  const path = pathname.replace(/\/+$/, '') || '/';
+  const staticName = (Object.keys(STATIC_PATHS) as StaticRouteName[]).find(name => STATIC_PATHS[name] === path);
+  if (staticName) return { name: staticName } as Route;
+
+  const segments = path.split('/').slice(1).map(segment => {
+    try {
+      return decodeURIComponent(segment);
+    } catch {
+      return segment;
+    }
+  });
+  if (segments.length === 2 && segments[0] === 'practice') return { name: 'practice', scenarioId: segments[1] };
+  if (segments.length === 2 && segments[0] === 'pronunciation') return { name: 'pronunciation', scenarioId: segments[1] };
+  if (segments.length === 3 && segments[0] === 'sessions' && segments[2] === 'report') {
+    return { name: 'report', sessionId: segments[1] };
+  }
+  return null;
+};
+
+export const routePath = (route: Route): string => {
+  switch (route.name) {
+    case 'practice':
+      return `/practice/${encodeURIComponent(route.scenarioId)}`;
+    case 'pronunciation':
+      return `/pronunciation/${encodeURIComponent(route.scenarioId)}`;
+    case 'report':
+      return `/sessions/${encodeURIComponent(route.sessionId)}/report`;
+    default:
+      return STATIC_PATHS[route.name];
+  }
+};
+
+/** Asked before the route changes; returning false keeps the learner where they are. */
+export type NavigationGuard = (next: Route) => boolean;
+
+export interface NavigateOptions {
+  replace?: boolean; // Swap the current history entry, e.g. when a flow moves on to its result
+}
+
+export interface Router {
+  readonly route: Route;
+  /** Returns false if a guard cancelled the navigation. */
+  navigate(route: Route, options?: NavigateOptions): boolean;
+  /** Notified after every route change, including back/forward. Returns an unsubscribe function. */
+  subscribe(listener: (route: Route) => void): () => void;
+  /** Only one guard is active at a time; pass null to remove it. */
+  setGuard(guard: NavigationGuard | null): void;
+}
+
+export const createRouter = (): Router => {
+  // Unknown paths land on the dashboard
+  let route = parseRoute(window.location.pathname) ?? DASHBOARD_ROUTE;
+  if (routePath(route) !== window.location.pathname) window.history.replaceState(null, '', routePath(route));
+  let guard: NavigationGuard | null = null;
+  const listeners = new Set<(route: Route) => void>();
+
+  const update = (next: Route) => {
+    route = next;
+    listeners.forEach(listener => listener(next));
+  };
+
+  // Back/forward has already changed the URL by the time we hear about it, so a cancelled
+  // move puts the page we stayed on back on top of the history stack
+  const onPopState = () => {
+    const next = parseRoute(window.location.pathname) ?? DASHBOARD_ROUTE;
+    if (guard && !guard(next)) {
+      window.history.pushState(null, '', routePath(route));
+      return;
+    }
+    update(next);
+  };
+
+  // Closing or reloading the tab can't be routed; the browser shows its own confirmation
+  const onBeforeUnload = (event: BeforeUnloadEvent) => {
+    if (!guard) return;
+    event.preventDefault();
+    event.returnValue = '';
+  };
+
+  window.addEventListener('popstate', onPopState);
+  window.addEventListener('beforeunload', onBeforeUnload);
+
+  return {
+    get route() {
+      return route;
+    },
+
+    navigate: (next, options = {}) => {
+      if (guard && !guard(next)) return false;
+      const path = routePath(next);
+      if (options.replace) {
+        window.history.replaceState(null, '', path);
+      } else if (path !== window.location.pathname) {
+        window.history.pushState(null, '', path);
+      }
+      update(next);
+      return true;
+    },
+
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    setGuard: (next) => {
+      guard = next;
+    },
+  };
+};
+
+let defaultRouter: Router | null = null;
+
+export const getRouter = (): Router => {
+  if (!defaultRouter) defaultRouter = createRouter();
+  return defaultRouter;
+};
@@ -0,0 +1,34 @@
+import { Scenario, SCENARIO_PACK_FORMAT, SCENARIO_PACK_VERSION, ScenarioPack } from '../types';
+import { ScenarioPackError } from './errors';
+import { validateScenarioPack } from './validation';
+
+// Import/export of authored scenarios as versioned JSON files. Learner progress
+// (completion) stays local and is never written to a pack.
+
+export const createScenarioPack = (name: string, scenarios: Scenario[], description?: string): ScenarioPack => ({
+  format: SCENARIO_PACK_FORMAT,
+  version: SCENARIO_PACK_VERSION,
+  name,
+  ...(description ? { description } : {}),
+  exportedAt: new Date().toISOString(),
+  scenarios: scenarios.map(({ completion, isCustom, ...scenario }) => scenario),
+});
+
+export const serializeScenarioPack = (pack: ScenarioPack): string => JSON.stringify(pack, null, 2);
+
+/** Parses and validates a pack file. Throws ScenarioPackError listing every problem found. */
+export const parseScenarioPack = (text: string): ScenarioPack => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new ScenarioPackError('Scenario pack is not valid JSON');
+  }
+  const result = validateScenarioPack(raw);
+  if (!result.value) throw new ScenarioPackError('Scenario pack is invalid', result.errors);
+  if (result.warnings.length) console.warn('Imported scenario pack with warnings:', result.warnings);
+  return result.value;
+};
+
+export const scenarioPackFileName = (pack: ScenarioPack) =>
+  `${pack.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'scenarios'}.scenario-pack.json`;
@@ -0,0 +1,114 @@
+// Generic key/value persistence used by the learner store.
+// Every record lives in a named collection and is keyed by its `id`.
+
+export type CollectionName = 'plans' | 'sessions' | 'reports' | 'pronunciation' | 'flashcards' | 'scenarios' | 'recordings' | 'settings'
+  | 'profiles';
+
+// Collections in each learner's database
+export const COLLECTIONS: CollectionName[] = ['plans', 'sessions', 'reports', 'pronunciation', 'flashcards', 'scenarios', 'recordings', 'settings'];
+
+export interface StorageBackend {
+  put<T extends { id: string }>(collection: CollectionName, value: T): Promise<void>;
+  get<T>(collection: CollectionName, id: string): Promise<T | undefined>;
+  getAll<T>(collection: CollectionName): Promise<T[]>;
+  delete(collection: CollectionName, id: string): Promise<void>;
+  /** Deletes every record and the underlying database; the backend can't be used afterwards. */
+  destroy(): Promise<void>;
+}
+
+// In-memory backend, used in tests and as a fallback when IndexedDB is unavailable
+// (e.g. private browsing in some browsers).
+export const createInMemoryBackend = (): StorageBackend => {
+  const data = new Map<CollectionName, Map<string, unknown>>();
+  const collectionOf = (name: CollectionName) => {
+    let collection = data.get(name);
+    if (!collection) {
+      collection = new Map();
+      data.set(name, collection);
+    }
+    return collection;
+  };
+
+  return {
+    put: async (collection, value) => {
+      // Clone so callers can't mutate stored records by reference, matching IndexedDB semantics
+      collectionOf(collection).set(value.id, structuredClone(value));
+    },
+    get: async <T,>(collection: CollectionName, id: string) => {
+      const value = collectionOf(collection).get(id);
+      return value === undefined ? undefined : structuredClone(value as T);
+    },
+    getAll: async <T,>(collection: CollectionName) =>
+      Array.from(collectionOf(collection).values()).map(value => structuredClone(value as T)),
+    delete: async (collection, id) => {
+      collectionOf(collection).delete(id);
+    },
+    destroy: async () => {
+      data.clear();
+    },
+  };
+};
+
+const DB_VERSION = 7;
+
+const requestToPromise = <T,>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const createIndexedDbBackend = (dbName = 'fluentflow', collections: CollectionName[] = COLLECTIONS): StorageBackend => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const openDb = () => {
+    if (!dbPromise) {
+      dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(dbName, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          // Create any collection that doesn't exist yet; bump DB_VERSION when adding to COLLECTIONS
+          collections.forEach(name => {
+            if (!db.objectStoreNames.contains(name)) {
+              db.createObjectStore(name, { keyPath: 'id' });
+            }
+          });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return dbPromise;
+  };
+
+  const withStore = async <T,>(
+    collection: CollectionName,
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<T>,
+  ): Promise<T> => {
+    const db = await openDb();
+    const tx = db.transaction(collection, mode);
+    return requestToPromise(run(tx.objectStore(collection)));
+  };
+
+  return {
+    put: async (collection, value) => {
+      await withStore(collection, 'readwrite', store => store.put(value));
+    },
+    get: <T,>(collection: CollectionName, id: string) =>
+      withStore<T | undefined>(collection, 'readonly', store => store.get(id)),
+    getAll: <T,>(collection: CollectionName) =>
+      withStore<T[]>(collection, 'readonly', store => store.getAll()),
+    delete: async (collection, id) => {
+      await withStore(collection, 'readwrite', store => store.delete(id));
+    },
+    destroy: async () => {
+      // An open connection would block the deletion
+      if (dbPromise) (await dbPromise).close();
+      dbPromise = null;
+      await requestToPromise(indexedDB.deleteDatabase(dbName));
+    },
+  };
+};
+
+export const createDefaultBackend = (dbName?: string, collections?: CollectionName[]): StorageBackend =>
+  typeof indexedDB !== 'undefined' ? createIndexedDbBackend(dbName, collections) : createInMemoryBackend();
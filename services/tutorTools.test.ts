@@ -0,0 +1,119 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Scenario } from '../types';
+import { createPCM16Blob } from '../utils/audio';
+import { createMockProvider } from './providers/mock';
+import { createToolRegistry, endSessionTool, getPracticeTools, markObjectiveStepTool, showHintTool, showWordTool, ToolContext } from './tutorTools';
+
+const createContext = (stepIds: string[] = []): ToolContext => ({
+  showOnWhiteboard: vi.fn(),
+  markObjectiveStep: vi.fn((stepId: string) => stepIds.includes(stepId)),
+  endSession: vi.fn(),
+});
+
+const call = (name: string, args: Record<string, unknown>, id = 'call-1') => ({ id, name, args });
+
+describe('createToolRegistry', () => {
+  const registry = createToolRegistry([showHintTool, showWordTool, markObjectiveStepTool, endSessionTool]);
+
+  it('declares every registered tool once', () => {
+    const replaced = createToolRegistry([showHintTool, showHintTool, endSessionTool]);
+    expect(replaced.declarations.map(d => d.name)).toEqual(['showHint', 'endSession']);
+  });
+
+  it('reports unknown tools back to the tutor', () => {
+    const context = createContext();
+    expect(registry.run(call('drawPicture', {}), context)).toEqual({
+      id: 'call-1',
+      name: 'drawPicture',
+      response: { error: 'Unknown tool "drawPicture"' },
+    });
+  });
+
+  it('reports invalid arguments without running the tool', () => {
+    const context = createContext();
+    const spy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const response = registry.run(call('showWord', { word: 'rewarding', definition: '  ', example: 'x' }), context);
+
+    expect(response.response).toEqual({ error: '"definition" must be a non-empty string' });
+    expect(context.showOnWhiteboard).not.toHaveBeenCalled();
+    // Argument errors are expected from the model, so they aren't logged as failures
+    expect(spy).not.toHaveBeenCalled();
+    spy.mockRestore();
+  });
+
+  it('puts hints on the whiteboard under the call id', () => {
+    const context = createContext();
+    expect(registry.run(call('showHint', { text: ' Try "Could I have..." ' }, 'hint-7'), context).response).toEqual({ shown: true });
+    expect(context.showOnWhiteboard).toHaveBeenCalledWith({ kind: 'hint', id: 'hint-7', text: 'Try "Could I have..."' });
+  });
+
+  it('marks checklist steps through the context', () => {
+    const context = createContext(['greet']);
+    expect(registry.run(call('markObjectiveStep', { stepId: 'greet' }), context).response).toEqual({ marked: true });
+    expect(context.markObjectiveStep).toHaveBeenCalledWith('greet');
+
+    expect(registry.run(call('markObjectiveStep', { stepId: 'dance' }), context).response).toEqual({ error: 'No checklist step has the id "dance"' });
+  });
+
+  it('hands ending the session to the context', () => {
+    const context = createContext();
+    expect(registry.run(call('endSession', { reason: 'Order complete' }), context).response).toEqual({ ending: true });
+    expect(context.endSession).toHaveBeenCalledWith('Order complete');
+  });
+
+  it('reports unexpected failures instead of throwing', () => {
+    const context = createContext();
+    context.endSession = () => { throw new Error('already closed'); };
+    const spy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(registry.run(call('endSession', { reason: 'done' }), context).response).toEqual({ error: 'already closed' });
+    expect(spy).toHaveBeenCalled();
+    spy.mockRestore();
+  });
+});
+
+describe('getPracticeTools', () => {
+  const scenario = { id: 'cafe', title: 'Café', description: '', difficulty: 'Beginner', objective: '' } as Scenario;
+
+  it('only offers the checklist tool when the scenario has steps', () => {
+    expect(getPracticeTools(scenario).map(t => t.declaration.name)).toEqual(['showHint', 'showWord', 'endSession']);
+    expect(getPracticeTools({ ...scenario, steps: [{ id: 'greet', description: 'Greet' }] }).map(t => t.declaration.name))
+      .toContain('markObjectiveStep');
+  });
+});
+
+describe('tools with the mock provider', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('runs the scripted tutor calls through the registry', async () => {
+    vi.useFakeTimers();
+    const registry = createToolRegistry([showHintTool, showWordTool, markObjectiveStepTool, endSessionTool]);
+    const context = createContext(['greet', 'order']);
+    const calls: string[] = [];
+    const responses: unknown[] = [];
+
+    const connection = await createMockProvider().connectLive(
+      { kind: 'PRACTICE', systemInstruction: 'Checklist:\n- [greet] Greet the barista\n- [order] Order a drink', voiceName: 'Puck' },
+      (event) => {
+        if (event.type === 'toolCall') {
+          event.calls.forEach(toolCall => {
+            calls.push(toolCall.name);
+            responses.push(registry.run(toolCall, context).response);
+          });
+        }
+        // Answer each tutor turn with a few seconds of (silent) speech
+        if (event.type === 'turnComplete') setTimeout(() => connection.sendAudio(createPCM16Blob(new Float32Array(16000 * 3))), 0);
+      },
+      registry.declarations,
+    );
+    await vi.advanceTimersByTimeAsync(60000);
+    connection.close();
+
+    expect(calls).toEqual(['showHint', 'markObjectiveStep', 'showWord', 'markObjectiveStep', 'endSession']);
+    expect(responses.every(response => !(response as Record<string, unknown>).error)).toBe(true);
+    expect(context.markObjectiveStep).toHaveBeenCalledWith('order');
+    expect(context.endSession).toHaveBeenCalledWith('The order is complete.');
+  });
+});
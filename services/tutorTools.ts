@@ -0,0 +1,149 @@
+import { Type } from '@google/genai';
+import { Scenario, WhiteboardItem } from '../types';
+import { ToolArgumentError } from './errors';
+import { ToolCall, ToolDeclaration, ToolResponse } from './providers';
+
+// Client-side tools the live tutor can call mid-conversation. A tool checks its own
+// arguments and acts through the session's ToolContext; what it returns is sent back to
+// the tutor as the result of the call.
+
+/** What a tool can do to the session it was called in. */
+export interface ToolContext {
+  showOnWhiteboard(item: WhiteboardItem): void;
+  /** Returns false if the session has no checklist step with this id. */
+  markObjectiveStep(stepId: string): boolean;
+  /** Ends the session once the tutor has finished speaking. */
+  endSession(reason: string): void;
+}
+
+export interface TutorTool {
+  declaration: ToolDeclaration;
+  /** Throws ToolArgumentError when the tutor sent unusable arguments. */
+  run(args: Record<string, unknown>, context: ToolContext, callId: string): Record<string, unknown>;
+}
+
+const readString = (args: Record<string, unknown>, key: string, maxLength: number): string => {
+  const value = args[key];
+  if (typeof value !== 'string' || !value.trim()) throw new ToolArgumentError(`"${key}" must be a non-empty string`);
+  return value.trim().slice(0, maxLength);
+};
+
+const MAX_TEXT_LENGTH = 300;
+const MAX_WORD_LENGTH = 60;
+
+export const showHintTool: TutorTool = {
+  declaration: {
+    name: 'showHint',
+    description: 'Shows a short hint on the learner\'s whiteboard, e.g. a sentence starter when they are stuck for what to say.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: { text: { type: Type.STRING, description: 'The hint, at most one sentence.' } },
+      required: ['text'],
+    },
+  },
+  run: (args, context, callId) => {
+    context.showOnWhiteboard({ kind: 'hint', id: callId, text: readString(args, 'text', MAX_TEXT_LENGTH) });
+    return { shown: true };
+  },
+};
+
+export const showWordTool: TutorTool = {
+  declaration: {
+    name: 'showWord',
+    description: 'Puts a vocabulary card on the learner\'s whiteboard for a word or phrase you just used that they may not know.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        word: { type: Type.STRING, description: 'The word or phrase.' },
+        definition: { type: Type.STRING, description: 'A simple definition in English.' },
+        example: { type: Type.STRING, description: 'A short example sentence using it.' },
+      },
+      required: ['word', 'definition', 'example'],
+    },
+  },
+  run: (args, context, callId) => {
+    context.showOnWhiteboard({
+      kind: 'word',
+      id: callId,
+      word: readString(args, 'word', MAX_WORD_LENGTH),
+      definition: readString(args, 'definition', MAX_TEXT_LENGTH),
+      example: readString(args, 'example', MAX_TEXT_LENGTH),
+    });
+    return { shown: true };
+  },
+};
+
+export const markObjectiveStepTool: TutorTool = {
+  declaration: {
+    name: 'markObjectiveStep',
+    description: 'Ticks off a step of the learner\'s checklist as soon as they have completed it.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: { stepId: { type: Type.STRING, description: 'The id of the step, as listed in your instructions.' } },
+      required: ['stepId'],
+    },
+  },
+  run: (args, context) => {
+    const stepId = readString(args, 'stepId', MAX_WORD_LENGTH);
+    if (!context.markObjectiveStep(stepId)) throw new ToolArgumentError(`No checklist step has the id "${stepId}"`);
+    return { marked: true };
+  },
+};
+
+export const endSessionTool: TutorTool = {
+  declaration: {
+    name: 'endSession',
+    description: 'Ends the session after you have said goodbye, once the roleplay has reached a natural end.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: { reason: { type: Type.STRING, description: 'Why the session is ending, in a few words.' } },
+      required: ['reason'],
+    },
+  },
+  run: (args, context) => {
+    context.endSession(readString(args, 'reason', MAX_TEXT_LENGTH));
+    return { ending: true };
+  },
+};
+
+/** What the practice tutor may use; the checklist tool needs steps the tutor can refer to. */
+export const getPracticeTools = (scenario: Scenario): TutorTool[] =>
+  scenario.steps?.length
+    ? [showHintTool, showWordTool, markObjectiveStepTool, endSessionTool]
+    : [showHintTool, showWordTool, endSessionTool];
+
+export interface ToolRegistry {
+  readonly declarations: ToolDeclaration[];
+  /** Adds a tool, replacing any registered under the same name. */
+  register(tool: TutorTool): void;
+  /** Never throws: failures are reported back to the tutor so it can carry on. */
+  run(call: ToolCall, context: ToolContext): ToolResponse;
+}
+
+export const createToolRegistry = (tools: TutorTool[] = []): ToolRegistry => {
+  const byName = new Map<string, TutorTool>();
+  const register = (tool: TutorTool) => {
+    byName.set(tool.declaration.name, tool);
+  };
+  tools.forEach(register);
+
+  return {
+    get declarations() {
+      return Array.from(byName.values(), tool => tool.declaration);
+    },
+
+    register,
+
+    run: (call, context) => {
+      const respond = (response: Record<string, unknown>): ToolResponse => ({ id: call.id, name: call.name, response });
+      const tool = byName.get(call.name);
+      if (!tool) return respond({ error: `Unknown tool "${call.name}"` });
+      try {
+        return respond(tool.run(call.args, context, call.id));
+      } catch (error) {
+        if (!(error instanceof ToolArgumentError)) console.error(`Tool ${call.name} failed`, error);
+        return respond({ error: error instanceof Error ? error.message : String(error) });
+      }
+    },
+  };
+};
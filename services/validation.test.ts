@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { UserPlan } from '../types';
+import {
+  createListeningGradingValidator,
+  createPlanEvolutionValidator,
+  validateAssessment,
+  validateAuthoredScenario,
+  validateFlashcards,
+  validatePracticeReport,
+  validateScenario,
+} from './validation';
+
+describe('validateScenario', () => {
+  it('trims fields and repairs a loose difficulty', () => {
+    const result = validateScenario({ id: ' cafe ', title: ' Café ', objective: ' Order ', difficulty: 'easy' }, 0);
+    expect(result.value).toEqual({ id: 'cafe', title: 'Café', description: '', difficulty: 'Beginner', objective: 'Order' });
+    expect(result.warnings).toContain('scenarios[0].description is missing');
+  });
+
+  it('rejects scenarios without a title or objective', () => {
+    expect(validateScenario({ title: 42, objective: '' }, 1).errors).toEqual(['scenarios[1].title is required', 'scenarios[1].objective is required']);
+    expect(validateScenario('nope', 0).value).toBeNull();
+  });
+});
+
+describe('validateAuthoredScenario', () => {
+  it('keeps valid checklist steps and numbers the ones without ids', () => {
+    const result = validateAuthoredScenario({
+      title: 'Café',
+      objective: 'Order',
+      steps: [{ description: ' Greet ' }, { id: 5, description: '' }, 'bad', { id: ' pay ', description: 'Pay' }, { description: 'Leave' }],
+      targetVocabulary: ['latte', 3, ' receipt '],
+    }, 0);
+    expect(result.value?.steps).toEqual([
+      { id: 'step-1', description: 'Greet' },
+      { id: 'pay', description: 'Pay' },
+      { id: 'step-3', description: 'Leave' },
+    ]);
+    expect(result.value?.targetVocabulary).toEqual(['latte', 'receipt']);
+  });
+});
+
+describe('validateAssessment', () => {
+  it('rejects a non-array skills field', () => {
+    expect(validateAssessment({ cefr: 'B2', skills: 'all good' }).errors).toEqual(['skills must be an array']);
+  });
+});
+
+describe('validatePracticeReport', () => {
+  it('drops malformed vocabulary suggestions and unknown error categories', () => {
+    const result = validatePracticeReport({
+      objectiveAchieved: true,
+      utterances: [{
+        original: 'I go yesterday',
+        errorCategories: ['Tense', 'spelling', 7],
+        vocabulary: [{ original: 'go', alternatives: ['went', 3, ''] }, { original: 'x' }, null],
+      }],
+    });
+    expect(result.value?.utterances).toEqual([{
+      original: 'I go yesterday',
+      corrected: 'I go yesterday',
+      errorCategories: ['tense'],
+      explanation: '',
+      vocabulary: [{ original: 'go', alternatives: ['went'] }],
+    }]);
+  });
+
+  it('requires objectiveAchieved to be a boolean', () => {
+    expect(validatePracticeReport({ objectiveAchieved: 'yes', utterances: [] }).errors).toEqual(['objectiveAchieved must be a boolean']);
+  });
+});
+
+describe('validateFlashcards', () => {
+  it('defaults unknown kinds to vocabulary', () => {
+    expect(validateFlashcards({ cards: [{ kind: 'slang', front: 'a', back: 'b' }, { kind: 'idiom', front: 'c', back: 'd' }] }).value)
+      .toEqual([{ kind: 'vocabulary', front: 'a', back: 'b' }, { kind: 'idiom', front: 'c', back: 'd' }]);
+  });
+});
+
+describe('createPlanEvolutionValidator', () => {
+  const previous: UserPlan = {
+    level: 'B1',
+    feedback: 'Old feedback.',
+    scenarios: [{ id: 'cafe', title: 'Café', description: '', difficulty: 'Beginner', objective: 'Order' }],
+  };
+
+  it('only retires scenarios of the previous plan that were not kept', () => {
+    const result = createPlanEvolutionValidator(previous)({
+      scenarios: [{ id: 'new', title: 'Interview', objective: 'Answer', reason: 'Next step.' }],
+      retired: [{ id: 'cafe', reason: 'Done.' }, { id: 3 }, { id: 'unknown' }],
+    });
+    expect(result.value?.retired).toEqual([{ id: 'cafe', reason: 'Done.' }]);
+    expect(result.value?.feedback).toBe('Old feedback.');
+  });
+});
+
+describe('createListeningGradingValidator', () => {
+  it('needs a grade for every question', () => {
+    const validate = createListeningGradingValidator(['question-1', 'question-2']);
+    expect(validate({ grades: [{ questionId: 'question-1', isCorrect: true }, { questionId: 2, isCorrect: false }] }).errors)
+      .toEqual(['No valid grade for question-2']);
+    expect(validate({ grades: [{ questionId: 'question-2', isCorrect: false, feedback: ' Close. ' }, { questionId: 'question-1', isCorrect: true }] }).value)
+      .toEqual([{ questionId: 'question-1', isCorrect: true, feedback: '' }, { questionId: 'question-2', isCorrect: false, feedback: 'Close.' }]);
+  });
+});
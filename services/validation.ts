@@ -0,0 +1,545 @@
+import { ASSESSMENT_SKILLS, AssessmentResult, AssessmentSkill, CEFR_LABELS, CefrLevel, ERROR_CATEGORIES, ErrorCategory, Flashcard, FlashcardKind, ListeningPassage, ListeningQuestion, ObjectiveProgress, ObjectiveStep, PracticeReport, Scenario, SCENARIO_PACK_FORMAT, SCENARIO_PACK_VERSION, ScenarioPack, SkillScore, TUTOR_VOICES, UserPlan, UtteranceFeedback } from '../types';
+import { createId } from '../utils/id';
+
+// Runtime checks for structured model output. Validators repair what they safely can
+// (missing ids, loosely-worded enums) and report anything they can't as errors, which
+// are fed back to the model on retry.
+
+export interface ValidationResult<T> {
+  value: T | null; // null when the response couldn't be repaired
+  errors: string[];
+  warnings: string[];
+}
+
+const invalid = <T,>(errors: string[], warnings: string[] = []): ValidationResult<T> =>
+  ({ value: null, errors, warnings });
+
+export type Validator<T> = (raw: unknown) => ValidationResult<T>;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !isArray(value);
+
+// Array.isArray alone narrows to any[]
+const isArray = (value: unknown): value is unknown[] => Array.isArray(value);
+
+const nonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+const CEFR_PATTERN = /\b([ABC][12])\b/i;
+
+const DIFFICULTY_ALIASES: Record<string, Scenario['difficulty']> = {
+  beginner: 'Beginner',
+  easy: 'Beginner',
+  basic: 'Beginner',
+  a1: 'Beginner',
+  a2: 'Beginner',
+  intermediate: 'Intermediate',
+  medium: 'Intermediate',
+  b1: 'Intermediate',
+  b2: 'Intermediate',
+  advanced: 'Advanced',
+  hard: 'Advanced',
+  c1: 'Advanced',
+  c2: 'Advanced',
+};
+
+export function normalizeDifficulty(value: unknown): Scenario['difficulty'] | null {
+  if (typeof value !== 'string') return null;
+  return DIFFICULTY_ALIASES[value.trim().toLowerCase()] ?? null;
+}
+
+/** Ensures the level string starts with a CEFR code, e.g. "B1 (Intermediate)". */
+export function normalizeLevel(value: unknown): string | null {
+  if (!nonEmptyString(value)) return null;
+  const match = value.match(CEFR_PATTERN);
+  if (!match) return null;
+  const code = match[1].toUpperCase();
+  const trimmed = value.trim();
+  if (trimmed.toUpperCase() === code) return code;
+  return trimmed.toUpperCase().startsWith(code) ? `${code}${trimmed.slice(code.length)}` : `${code} (${trimmed})`;
+}
+
+/** Extracts the canonical CEFR code from strings like "b2", "B2 (Upper Intermediate)" or "Level: B2". */
+export function toCefrLevel(value: unknown): CefrLevel | null {
+  if (typeof value !== 'string') return null;
+  const match = value.match(CEFR_PATTERN);
+  return match ? match[1].toUpperCase() as CefrLevel : null;
+}
+
+const SKILL_ALIASES: Record<string, AssessmentSkill> = {
+  'grammar': 'grammar',
+  'grammatical accuracy': 'grammar',
+  'accuracy': 'grammar',
+  'vocabulary': 'vocabulary',
+  'vocabulary range': 'vocabulary',
+  'range': 'vocabulary',
+  'fluency': 'fluency',
+  'coherence': 'coherence',
+  'interaction': 'interaction',
+};
+
+const clampScore = (value: number) => Math.max(0, Math.min(100, Math.round(value)));
+
+export const validateAssessment: Validator<AssessmentResult> = (raw) => {
+  if (!isObject(raw)) return invalid(['assessment must be a JSON object']);
+
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const cefr = toCefrLevel(raw.cefr) ?? toCefrLevel(raw.level);
+  if (!cefr) errors.push(`cefr must be one of A1-C2, got ${JSON.stringify(raw.cefr)}`);
+  if (!isArray(raw.skills)) errors.push('skills must be an array');
+  if (errors.length || !cefr || !isArray(raw.skills)) return invalid(errors);
+
+  let confidence = typeof raw.confidence === 'number' ? raw.confidence : NaN;
+  if (confidence > 1 && confidence <= 100) confidence /= 100; // Percentages
+  if (!(confidence >= 0 && confidence <= 1)) {
+    warnings.push(`confidence ${JSON.stringify(raw.confidence)} is invalid; defaulted to 0.5`);
+    confidence = 0.5;
+  }
+
+  const bySkill = new Map<AssessmentSkill, SkillScore>();
+  raw.skills.forEach((item: unknown, index: number) => {
+    const skill = isObject(item) && typeof item.skill === 'string' ? SKILL_ALIASES[item.skill.trim().toLowerCase()] : undefined;
+    if (!isObject(item) || !skill || typeof item.score !== 'number') {
+      warnings.push(`skills[${index}] needs a known skill and a numeric score; dropped`);
+      return;
+    }
+    const evidence = (isArray(item.evidence) ? item.evidence : []).filter(nonEmptyString).map((quote: string) => quote.trim());
+    if (evidence.length === 0) warnings.push(`skills[${index}] (${skill}) has no evidence`);
+    bySkill.set(skill, {
+      skill,
+      score: clampScore(item.score),
+      level: toCefrLevel(item.level) ?? cefr,
+      comment: nonEmptyString(item.comment) ? item.comment.trim() : '',
+      evidence,
+    });
+  });
+
+  const missing = ASSESSMENT_SKILLS.filter(skill => !bySkill.has(skill));
+  if (missing.length === ASSESSMENT_SKILLS.length) return invalid(['skills must score at least one of: ' + ASSESSMENT_SKILLS.join(', ')], warnings);
+  if (missing.length) warnings.push(`skills missing: ${missing.join(', ')}`);
+
+  return {
+    errors: [],
+    warnings,
+    value: { cefr, confidence, skills: ASSESSMENT_SKILLS.filter(skill => bySkill.has(skill)).map(skill => bySkill.get(skill)) },
+  };
+};
+
+export const validateScenario = (raw: unknown, index: number): ValidationResult<Scenario> => {
+  const path = `scenarios[${index}]`;
+  if (!isObject(raw)) return invalid([`${path} must be an object`]);
+
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const { title, objective } = raw;
+  if (!nonEmptyString(title)) errors.push(`${path}.title is required`);
+  if (!nonEmptyString(objective)) errors.push(`${path}.objective is required`);
+  if (errors.length || !nonEmptyString(title) || !nonEmptyString(objective)) return invalid(errors);
+
+  let difficulty = normalizeDifficulty(raw.difficulty);
+  if (!difficulty) {
+    warnings.push(`${path}.difficulty "${raw.difficulty}" is invalid; defaulted to Intermediate`);
+    difficulty = 'Intermediate';
+  }
+  if (!nonEmptyString(raw.description)) warnings.push(`${path}.description is missing`);
+
+  return {
+    errors: [],
+    warnings,
+    value: {
+      id: nonEmptyString(raw.id) ? raw.id.trim() : createId(),
+      title: title.trim(),
+      description: nonEmptyString(raw.description) ? raw.description.trim() : '',
+      difficulty,
+      objective: objective.trim(),
+    },
+  };
+};
+
+/** Validates a hand-written scenario, including the optional authoring fields. */
+export const validateAuthoredScenario = (raw: unknown, index: number): ValidationResult<Scenario> => {
+  const result = validateScenario(raw, index);
+  if (!result.value || !isObject(raw)) return result;
+
+  const path = `scenarios[${index}]`;
+  const warnings = [...result.warnings];
+  const scenario: Scenario = { ...result.value };
+  if (nonEmptyString(raw.persona)) scenario.persona = raw.persona.trim();
+  if (nonEmptyString(raw.openingLine)) scenario.openingLine = raw.openingLine.trim();
+  if (nonEmptyString(raw.voiceName)) {
+    if ((TUTOR_VOICES as readonly string[]).includes(raw.voiceName)) scenario.voiceName = raw.voiceName;
+    else warnings.push(`${path}.voiceName "${raw.voiceName}" is not a known voice; the default will be used`);
+  }
+  if (isArray(raw.targetVocabulary)) {
+    const vocabulary = raw.targetVocabulary.filter(nonEmptyString).map((word: string) => word.trim());
+    if (vocabulary.length) scenario.targetVocabulary = vocabulary;
+  }
+  if (isArray(raw.steps)) {
+    const steps = raw.steps
+      .flatMap(step => isObject(step) && nonEmptyString(step.description) ? [{ id: step.id, description: step.description }] : [])
+      .map(({ id, description }, stepIndex) => ({
+        id: nonEmptyString(id) ? id.trim() : `step-${stepIndex + 1}`,
+        description: description.trim(),
+      }));
+    if (steps.length) scenario.steps = steps;
+  }
+  return { value: scenario, errors: [], warnings };
+};
+
+export const validateScenarioPack: Validator<ScenarioPack> = (raw) => {
+  if (!isObject(raw)) return invalid(['Pack must be a JSON object']);
+  if (raw.format !== SCENARIO_PACK_FORMAT) return invalid([`format must be "${SCENARIO_PACK_FORMAT}"`]);
+  if (typeof raw.version !== 'number' || !Number.isInteger(raw.version) || raw.version < 1) {
+    return invalid(['version must be a positive integer']);
+  }
+  if (raw.version > SCENARIO_PACK_VERSION) {
+    return invalid([`version ${raw.version} was created by a newer version of the app (supported: ${SCENARIO_PACK_VERSION})`]);
+  }
+  if (!isArray(raw.scenarios)) return invalid(['scenarios must be an array']);
+
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const seenIds = new Set<string>();
+  const scenarios: Scenario[] = [];
+  raw.scenarios.forEach((item: unknown, index: number) => {
+    const result = validateAuthoredScenario(item, index);
+    if (!result.value) {
+      // Unlike model output, a hand-written pack is rejected as a whole so nothing is silently lost
+      errors.push(...result.errors);
+      return;
+    }
+    warnings.push(...result.warnings);
+    if (seenIds.has(result.value.id)) errors.push(`scenarios[${index}].id "${result.value.id}" is duplicated`);
+    seenIds.add(result.value.id);
+    scenarios.push({ ...result.value, isCustom: true });
+  });
+  if (raw.scenarios.length === 0) errors.push('scenarios must contain at least one scenario');
+  if (errors.length) return invalid(errors, warnings);
+
+  return {
+    errors: [],
+    warnings,
+    value: {
+      format: SCENARIO_PACK_FORMAT,
+      version: raw.version,
+      name: nonEmptyString(raw.name) ? raw.name.trim() : 'Untitled pack',
+      ...(nonEmptyString(raw.description) ? { description: raw.description.trim() } : {}),
+      exportedAt: typeof raw.exportedAt === 'string' ? raw.exportedAt : new Date().toISOString(),
+      scenarios,
+    },
+  };
+};
+
+export const validateUserPlan: Validator<UserPlan> = (raw) => {
+  if (!isObject(raw)) return invalid(['Response must be a JSON object']);
+
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  const assessment = validateAssessment(raw);
+  errors.push(...assessment.errors);
+  warnings.push(...assessment.warnings);
+
+  // The structured CEFR code wins; the label is only for display
+  let level = normalizeLevel(raw.level);
+  const cefr = assessment.value?.cefr;
+  if (cefr && toCefrLevel(level) !== cefr) {
+    if (level) warnings.push(`level "${level}" disagrees with cefr ${cefr}; using cefr`);
+    level = `${cefr} (${CEFR_LABELS[cefr]})`;
+  }
+
+  if (!nonEmptyString(raw.feedback)) warnings.push('feedback is missing');
+
+  const scenarios: Scenario[] = [];
+  if (!isArray(raw.scenarios)) {
+    errors.push('scenarios must be an array');
+  } else {
+    const seenIds = new Set<string>();
+    raw.scenarios.forEach((item: unknown, index: number) => {
+      const result = validateScenario(item, index);
+      if (!result.value) {
+        // A single malformed scenario is dropped rather than failing the whole plan
+        warnings.push(...result.errors);
+        return;
+      }
+      warnings.push(...result.warnings);
+      const scenario = result.value;
+      if (seenIds.has(scenario.id)) {
+        warnings.push(`scenarios[${index}].id "${scenario.id}" is duplicated; regenerated`);
+        scenario.id = createId();
+      }
+      seenIds.add(scenario.id);
+      scenarios.push(scenario);
+    });
+    if (scenarios.length === 0) errors.push('scenarios must contain at least one valid scenario');
+  }
+
+  if (errors.length || !level) return invalid(errors, warnings);
+  return {
+    errors: [],
+    warnings,
+    value: { level, feedback: nonEmptyString(raw.feedback) ? raw.feedback.trim() : '', scenarios, assessment: assessment.value },
+  };
+};
+
+const isErrorCategory = (value: unknown): value is ErrorCategory =>
+  typeof value === 'string' && (ERROR_CATEGORIES as readonly string[]).includes(value.toLowerCase());
+
+type ReportBody = Pick<PracticeReport, 'objectiveAchieved' | 'objectiveNotes' | 'summary' | 'utterances'>;
+
+export const validatePracticeReport: Validator<ReportBody> = (raw) => {
+  if (!isObject(raw)) return invalid(['Response must be a JSON object']);
+
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const { objectiveAchieved } = raw;
+  if (typeof objectiveAchieved !== 'boolean') errors.push('objectiveAchieved must be a boolean');
+  if (!isArray(raw.utterances)) errors.push('utterances must be an array');
+  if (errors.length || typeof objectiveAchieved !== 'boolean' || !isArray(raw.utterances)) return invalid(errors);
+
+  const utterances: UtteranceFeedback[] = [];
+  raw.utterances.forEach((u: unknown, index: number) => {
+    if (!isObject(u) || !nonEmptyString(u.original)) {
+      warnings.push(`utterances[${index}].original is required; dropped`);
+      return;
+    }
+    const categories: unknown[] = isArray(u.errorCategories) ? u.errorCategories : [];
+    const vocabulary: unknown[] = isArray(u.vocabulary) ? u.vocabulary : [];
+    utterances.push({
+      original: u.original,
+      corrected: nonEmptyString(u.corrected) ? u.corrected : u.original,
+      errorCategories: categories.filter(isErrorCategory).map(c => c.toLowerCase() as ErrorCategory),
+      explanation: typeof u.explanation === 'string' ? u.explanation : '',
+      vocabulary: vocabulary
+        .flatMap(v => isObject(v) && nonEmptyString(v.original) && isArray(v.alternatives)
+          ? [{ original: v.original, alternatives: v.alternatives.filter(nonEmptyString) }]
+          : []),
+    });
+  });
+
+  return {
+    errors: [],
+    warnings,
+    value: {
+      objectiveAchieved,
+      objectiveNotes: typeof raw.objectiveNotes === 'string' ? raw.objectiveNotes : '',
+      summary: typeof raw.summary === 'string' ? raw.summary : '',
+      utterances,
+    },
+  };
+};
+
+export const validateDrillSentences: Validator<string[]> = (raw) => {
+  if (!isObject(raw) || !isArray(raw.sentences)) return invalid(['sentences must be an array']);
+  const sentences = raw.sentences.filter(nonEmptyString).map((s: string) => s.trim());
+  if (sentences.length === 0) return invalid(['sentences must contain at least one sentence']);
+  const warnings = sentences.length < raw.sentences.length ? ['Empty sentences were dropped'] : [];
+  return { value: sentences, errors: [], warnings };
+};
+
+export interface PronunciationResponse {
+  transcription: string;
+  words: { word: string; score: number; issue?: string }[];
+}
+
+export const validatePronunciationResponse: Validator<PronunciationResponse> = (raw) => {
+  if (!isObject(raw)) return invalid(['Response must be a JSON object']);
+  if (typeof raw.transcription !== 'string') return invalid(['transcription must be a string']);
+
+  const warnings: string[] = [];
+  const words: PronunciationResponse['words'] = [];
+  (isArray(raw.words) ? raw.words : []).forEach((w: unknown, index: number) => {
+    if (!isObject(w) || !nonEmptyString(w.word) || typeof w.score !== 'number') {
+      warnings.push(`words[${index}] is malformed; dropped`);
+      return;
+    }
+    words.push({ word: w.word, score: w.score, ...(nonEmptyString(w.issue) ? { issue: w.issue } : {}) });
+  });
+  return { value: { transcription: raw.transcription, words }, errors: [], warnings };
+};
+
+export type FlashcardDraft = Pick<Flashcard, 'kind' | 'front' | 'back' | 'example'>;
+
+const FLASHCARD_KINDS: FlashcardKind[] = ['vocabulary', 'correction', 'idiom'];
+
+export const validateFlashcards: Validator<FlashcardDraft[]> = (raw) => {
+  if (!isObject(raw) || !isArray(raw.cards)) return invalid(['cards must be an array']);
+
+  const warnings: string[] = [];
+  const cards: FlashcardDraft[] = [];
+  raw.cards.forEach((c: unknown, index: number) => {
+    if (!isObject(c) || !nonEmptyString(c.front) || !nonEmptyString(c.back)) {
+      warnings.push(`cards[${index}] needs a front and back; dropped`);
+      return;
+    }
+    const kind = FLASHCARD_KINDS.includes(c.kind as FlashcardKind) ? c.kind as FlashcardKind : 'vocabulary';
+    cards.push({
+      kind,
+      front: c.front.trim(),
+      back: c.back.trim(),
+      ...(nonEmptyString(c.example) ? { example: c.example.trim() } : {}),
+    });
+  });
+  return { value: cards, errors: [], warnings };
+};
+
+export const validateObjectiveSteps: Validator<ObjectiveStep[]> = (raw) => {
+  if (!isObject(raw) || !isArray(raw.steps)) return invalid(['steps must be an array']);
+  const steps = raw.steps
+    .filter(nonEmptyString)
+    .map((description: string, index: number) => ({ id: `step-${index + 1}`, description: description.trim() }));
+  if (steps.length === 0) return invalid(['steps must contain at least one sub-goal']);
+  return { value: steps, errors: [], warnings: [] };
+};
+
+/** Validates progress against the known steps; unknown step ids are ignored. */
+export const createObjectiveProgressValidator = (steps: ObjectiveStep[]): Validator<ObjectiveProgress> => (raw) => {
+  if (!isObject(raw) || !isArray(raw.completedStepIds)) return invalid(['completedStepIds must be an array']);
+  const known = new Set(steps.map(step => step.id));
+  const completedStepIds = raw.completedStepIds.filter((id: unknown): id is string => typeof id === 'string' && known.has(id));
+  const score = typeof raw.score === 'number' ? Math.max(0, Math.min(100, Math.round(raw.score))) : null;
+  const warnings = completedStepIds.length < raw.completedStepIds.length ? ['Unknown step ids were dropped'] : [];
+  return { value: { completedStepIds, score }, errors: [], warnings };
+};
+
+export interface PlanEvolutionDraft {
+  feedback: string;
+  scenarios: { scenario: Scenario; reason: string }[];
+  retired: { id: string; reason: string }[];
+}
+
+/** Validates an evolved plan against the plan it replaces. Ids the model invents are treated as new scenarios. */
+export const createPlanEvolutionValidator = (previous: UserPlan): Validator<PlanEvolutionDraft> => (raw) => {
+  if (!isObject(raw)) return invalid(['Response must be a JSON object']);
+  if (!isArray(raw.scenarios)) return invalid(['scenarios must be an array']);
+
+  const warnings: string[] = [];
+  const known = new Set(previous.scenarios.map(s => s.id));
+  const seenIds = new Set<string>();
+  const scenarios: PlanEvolutionDraft['scenarios'] = [];
+  raw.scenarios.forEach((item: unknown, index: number) => {
+    const result = validateScenario(item, index);
+    if (!result.value) {
+      warnings.push(...result.errors);
+      return;
+    }
+    warnings.push(...result.warnings);
+    const scenario = result.value;
+    if (!known.has(scenario.id) || seenIds.has(scenario.id)) scenario.id = createId();
+    seenIds.add(scenario.id);
+    const reason = isObject(item) && nonEmptyString(item.reason) ? item.reason.trim() : '';
+    if (!reason) warnings.push(`scenarios[${index}].reason is missing`);
+    scenarios.push({ scenario, reason });
+  });
+  if (scenarios.length === 0) return invalid(['scenarios must contain at least one valid scenario'], warnings);
+
+  const retired: PlanEvolutionDraft['retired'] = [];
+  (isArray(raw.retired) ? raw.retired : []).forEach((item: unknown, index: number) => {
+    if (!isObject(item) || typeof item.id !== 'string' || !known.has(item.id) || seenIds.has(item.id)) {
+      warnings.push(`retired[${index}] does not name a retired scenario; dropped`);
+      return;
+    }
+    retired.push({ id: item.id, reason: nonEmptyString(item.reason) ? item.reason.trim() : '' });
+  });
+
+  return {
+    errors: [],
+    warnings,
+    value: { feedback: nonEmptyString(raw.feedback) ? raw.feedback.trim() : previous.feedback, scenarios, retired },
+  };
+};
+
+export type ListeningPassageDraft = Pick<ListeningPassage, 'title' | 'format' | 'segments'>;
+
+export const validateListeningPassage: Validator<ListeningPassageDraft> = (raw) => {
+  if (!isObject(raw) || !isArray(raw.segments)) return invalid(['segments must be an array']);
+
+  const warnings: string[] = [];
+  const segments = raw.segments.flatMap((segment: unknown, index: number) => {
+    if (!isObject(segment) || !nonEmptyString(segment.text)) {
+      warnings.push(`segments[${index}].text is required; dropped`);
+      return [];
+    }
+    return [{ speaker: nonEmptyString(segment.speaker) ? segment.speaker.trim() : 'Narrator', text: segment.text.trim() }];
+  });
+  if (segments.length === 0) return invalid(['segments must contain at least one line'], warnings);
+
+  const format = raw.format === 'dialogue' || raw.format === 'story'
+    ? raw.format
+    : new Set(segments.map(segment => segment.speaker)).size > 1 ? 'dialogue' : 'story';
+  if (format !== raw.format) warnings.push(`Unknown format "${raw.format}"; using "${format}"`);
+
+  return {
+    value: { title: nonEmptyString(raw.title) ? raw.title.trim() : 'Listening practice', format, segments },
+    errors: [],
+    warnings,
+  };
+};
+
+/** Checks each question against the passage it's about; questions that can't be answered are dropped. */
+export const createListeningQuizValidator = (segmentCount: number): Validator<ListeningQuestion[]> => (raw) => {
+  if (!isObject(raw) || !isArray(raw.questions)) return invalid(['questions must be an array']);
+
+  const warnings: string[] = [];
+  const questions: ListeningQuestion[] = [];
+  raw.questions.forEach((q: unknown, index: number) => {
+    if (!isObject(q) || !nonEmptyString(q.prompt)) {
+      warnings.push(`questions[${index}].prompt is required; dropped`);
+      return;
+    }
+    let segmentIndex = typeof q.segmentIndex === 'number' ? Math.round(q.segmentIndex) : 0;
+    if (segmentIndex < 0 || segmentIndex >= segmentCount) {
+      warnings.push(`questions[${index}].segmentIndex is out of range; using the first segment`);
+      segmentIndex = 0;
+    }
+    const base = {
+      id: `question-${questions.length + 1}`,
+      prompt: q.prompt.trim(),
+      segmentIndex,
+      explanation: typeof q.explanation === 'string' ? q.explanation.trim() : '',
+    };
+
+    if (q.kind === 'short') {
+      const acceptedAnswers = isArray(q.acceptedAnswers) ? q.acceptedAnswers.filter(nonEmptyString).map((a: string) => a.trim()) : [];
+      if (acceptedAnswers.length === 0) {
+        warnings.push(`questions[${index}] has no accepted answers; dropped`);
+        return;
+      }
+      questions.push({ ...base, kind: 'short', acceptedAnswers });
+      return;
+    }
+
+    const options = isArray(q.options) ? q.options.filter(nonEmptyString).map((o: string) => o.trim()) : [];
+    const answerIndex = typeof q.answerIndex === 'number' ? Math.round(q.answerIndex) : -1;
+    if (options.length < 2 || answerIndex < 0 || answerIndex >= options.length) {
+      warnings.push(`questions[${index}] needs at least two options and a valid answerIndex; dropped`);
+      return;
+    }
+    questions.push({ ...base, kind: 'choice', options, answerIndex });
+  });
+
+  if (questions.length === 0) return invalid(['questions must contain at least one usable question'], warnings);
+  return { value: questions, errors: [], warnings };
+};
+
+export interface ListeningGradeDraft {
+  questionId: string;
+  isCorrect: boolean;
+  feedback: string;
+}
+
+/** Every question sent for grading must come back graded. */
+export const createListeningGradingValidator = (questionIds: string[]): Validator<ListeningGradeDraft[]> => (raw) => {
+  if (!isObject(raw) || !isArray(raw.grades)) return invalid(['grades must be an array']);
+
+  const grades = new Map<string, ListeningGradeDraft>();
+  raw.grades.forEach((g: unknown) => {
+    if (!isObject(g) || typeof g.questionId !== 'string' || !questionIds.includes(g.questionId) || typeof g.isCorrect !== 'boolean') return;
+    grades.set(g.questionId, { questionId: g.questionId, isCorrect: g.isCorrect, feedback: typeof g.feedback === 'string' ? g.feedback.trim() : '' });
+  });
+
+  const missing = questionIds.filter(id => !grades.has(id));
+  if (missing.length) return invalid([`No valid grade for ${missing.join(', ')}`]);
+  return { value: questionIds.map(id => grades.get(id)!), errors: [], warnings: [] };
+};
@@ -2,7 +2,29 @@ export enum AppMode {
   IDLE = 'IDLE',
   ASSESSMENT = 'ASSESSMENT',
   PRACTICE = 'PRACTICE',
-  GENERATING_PLAN = 'GENERATING_PLAN'
+  GENERATING_PLAN = 'GENERATING_PLAN',
+  GENERATING_REPORT = 'GENERATING_REPORT',
+  REPORT = 'REPORT',
+  PRONUNCIATION = 'PRONUNCIATION',
+  REVIEW = 'REVIEW',
+  PROGRESS = 'PROGRESS',
+  PLAN_UPDATE = 'PLAN_UPDATE',
+  SCENARIOS = 'SCENARIOS',
+  ASSESSMENT_INCOMPLETE = 'ASSESSMENT_INCOMPLETE',
+  SETTINGS = 'SETTINGS',
+  LEARNERS = 'LEARNERS',
+  LISTENING = 'LISTENING'
+}
+
+export interface ObjectiveStep {
+  id: string;
+  description: string;
+}
+
+export interface ScenarioCompletion {
+  completedAt: number; // epoch ms
+  score: number | null; // 0-100, how well the objective was carried out; null if the tutor never scored it
+  sessionId?: string;
 }
 
 export interface Scenario {
@@ -11,15 +33,337 @@ export interface Scenario {
   description: string;
   difficulty: 'Beginner' | 'Intermediate' | 'Advanced';
   objective: string;
+  steps?: ObjectiveStep[]; // Checklist sub-goals, generated on first practice
+  completion?: ScenarioCompletion;
+  // Authoring fields, set on custom scenarios
+  persona?: string; // Who the tutor plays, e.g. "Dana, a billing support agent"
+  voiceName?: string; // Overrides the default tutor voice
+  openingLine?: string; // What the tutor says first
+  targetVocabulary?: string[]; // Words and phrases the learner should try to use
+  isCustom?: boolean; // Authored or imported rather than generated
+}
+
+// Prebuilt voices offered by the Live API
+export const TUTOR_VOICES = ['Puck', 'Charon', 'Kore', 'Fenrir', 'Aoede', 'Zephyr'] as const;
+
+export type TutorVoice = typeof TUTOR_VOICES[number];
+
+export const SCENARIO_PACK_FORMAT = 'fluentflow.scenario-pack';
+export const SCENARIO_PACK_VERSION = 1;
+
+/** Portable JSON file for sharing authored scenarios between learners or teams. */
+export interface ScenarioPack {
+  format: typeof SCENARIO_PACK_FORMAT;
+  version: number;
+  name: string;
+  description?: string;
+  exportedAt: string; // ISO 8601
+  scenarios: Scenario[];
+}
+
+export interface ObjectiveProgress {
+  completedStepIds: string[];
+  score: number | null; // Latest judgement of how well the objective is going
+}
+
+export const CEFR_LEVELS = ['A1', 'A2', 'B1', 'B2', 'C1', 'C2'] as const;
+
+export type CefrLevel = typeof CEFR_LEVELS[number];
+
+export const CEFR_LABELS: Record<CefrLevel, string> = {
+  A1: 'Beginner',
+  A2: 'Elementary',
+  B1: 'Intermediate',
+  B2: 'Upper Intermediate',
+  C1: 'Advanced',
+  C2: 'Proficient',
+};
+
+export const ASSESSMENT_SKILLS = ['grammar', 'vocabulary', 'fluency', 'coherence', 'interaction'] as const;
+
+export type AssessmentSkill = typeof ASSESSMENT_SKILLS[number];
+
+export interface SkillScore {
+  skill: AssessmentSkill;
+  score: number; // 0-100
+  level: CefrLevel;
+  comment: string;
+  evidence: string[]; // Learner quotes from the transcript that support the judgement
+}
+
+export interface AssessmentResult {
+  cefr: CefrLevel;
+  confidence: number; // 0-1; low for short or one-sided conversations
+  skills: SkillScore[]; // One per ASSESSMENT_SKILLS entry, in that order
 }
 
 export interface UserPlan {
-  level: string;
+  level: string; // Display label, e.g. "B1 (Intermediate)"
   feedback: string;
   scenarios: Scenario[];
+  assessment?: AssessmentResult; // Missing on plans saved before structured assessments
+}
+
+export interface LearnerProfile {
+  id: string;
+  name: string;
+  createdAt: number; // epoch ms
+  dbName: string; // IndexedDB database holding this learner's plans, history and settings
 }
 
+export const SPEAKING_PACES = ['slow', 'natural', 'fast'] as const;
+
+export type SpeakingPace = typeof SPEAKING_PACES[number];
+
+// How the practice tutor handles mistakes: ignore them, rephrase them correctly in its reply, or stop and correct
+export const CORRECTION_STYLES = ['none', 'recast', 'explicit'] as const;
+
+export type CorrectionStyle = typeof CORRECTION_STYLES[number];
+
+export const ASSESSMENT_LENGTHS_MIN = [2, 5, 10];
+
+export interface LearnerSettings {
+  tutorVoice: TutorVoice; // Practice roleplays and flashcards, unless a scenario sets its own
+  examinerVoice: TutorVoice; // Level assessments
+  pace: SpeakingPace;
+  correctionStyle: CorrectionStyle;
+  nativeLanguage: string; // Empty when explanations should stay in English
+  assessmentMinutes: number;
+  recordSessions: boolean; // Whether live sessions start with recording on
+  textChatByDefault: boolean; // Start sessions in the typed chat rather than by voice
+}
+
+export const DEFAULT_SETTINGS: LearnerSettings = {
+  tutorVoice: 'Puck',
+  examinerVoice: 'Kore',
+  pace: 'natural',
+  correctionStyle: 'recast',
+  nativeLanguage: '',
+  assessmentMinutes: 2,
+  recordSessions: false,
+  textChatByDefault: false,
+};
+
+export type InputMode = 'continuous' | 'pushToTalk' | 'voiceActivity';
+
 export interface LiveSessionConfig {
+  kind: SessionKind;
   systemInstruction: string;
   voiceName: string;
+  inputFrameSize?: number; // Mic samples per chunk sent at 16kHz; smaller lowers latency
+  inputMode?: InputMode; // Defaults to 'continuous'
+  durationMs?: number; // Ends the session automatically after this much connected time
+}
+
+// Base64-encoded audio payload with its mime type, e.g. `audio/pcm;rate=16000`
+export interface AudioChunk {
+  data: string;
+  mimeType: string;
+}
+
+export type Speaker = 'user' | 'tutor';
+
+export interface Turn {
+  speaker: Speaker;
+  text: string;
+  startMs: number; // Relative to session start
+  endMs: number; // Relative to session start
+  isComplete: boolean;
+  interrupted?: boolean; // Tutor turn cut off by the learner
+}
+
+export interface Transcript {
+  startedAt: number; // epoch ms
+  turns: Turn[];
+}
+
+export type SessionKind = 'ASSESSMENT' | 'PRACTICE';
+
+export type SessionMedium = 'voice' | 'text';
+
+export interface SessionRecord {
+  id: string;
+  kind: SessionKind;
+  scenarioId?: string;
+  scenarioTitle?: string;
+  transcript: Transcript;
+  startedAt: number; // epoch ms
+  endedAt: number; // epoch ms
+  recordingId?: string;
+  medium?: SessionMedium; // Missing on sessions saved before text chat, which were all voice
+  metrics?: SessionMetrics; // Voice sessions only
+}
+
+export interface SessionMetrics {
+  learnerTalkMs: number;
+  tutorTalkMs: number;
+  learnerWords: number;
+  wordsPerMinute: number | null; // Over the learner's speaking time; null when they barely spoke
+  responsePausesMs: number[]; // Gap between the tutor finishing and the learner starting, per reply
+  fillerCount: number; // "um", "you know", set-off "like", ...
+  interruptions: number; // Times the learner talked over the tutor
+}
+
+export interface ListeningSegment {
+  speaker: string; // "Narrator" for stories; a character name in dialogues
+  text: string;
+}
+
+/** A short story or dialogue read aloud by the tutor voices, one segment per line. */
+export interface ListeningPassage {
+  title: string;
+  format: 'story' | 'dialogue';
+  level: CefrLevel;
+  scenarioId?: string; // Plan scenario the passage is set around
+  segments: ListeningSegment[];
+}
+
+interface ListeningQuestionBase {
+  id: string;
+  prompt: string;
+  segmentIndex: number; // Where in the passage the answer is heard
+  explanation: string;
+}
+
+export type ListeningQuestion =
+  | ListeningQuestionBase & { kind: 'choice'; options: string[]; answerIndex: number }
+  | ListeningQuestionBase & { kind: 'short'; acceptedAnswers: string[] };
+
+export interface ListeningGrade {
+  questionId: string;
+  answer: string; // The chosen option's text, for multiple choice
+  isCorrect: boolean;
+  feedback: string;
+}
+
+// Shown on screen by the tutor during a live session
+export type WhiteboardItem =
+  | { kind: 'hint'; id: string; text: string }
+  | { kind: 'word'; id: string; word: string; definition: string; example: string };
+
+// Mixed mono WAV of both sides of a session, aligned with its transcript
+export interface RecordedAudio {
+  wav: Blob;
+  durationMs: number;
+}
+
+export interface SessionRecording extends RecordedAudio {
+  id: string;
+  sessionId: string;
+  createdAt: number; // epoch ms
+}
+
+export interface StoredPlan {
+  id: string;
+  createdAt: number; // epoch ms
+  sourceSessionId?: string; // Assessment session the plan was generated from
+  plan: UserPlan;
+  changes?: PlanChange[]; // Set when the plan evolved from a previous one
+}
+
+export type PlanChangeKind = 'added' | 'retired' | 'harder' | 'easier' | 'revised' | 'unchanged';
+
+export interface PlanChange {
+  kind: PlanChangeKind;
+  scenarioId: string;
+  title: string;
+  previous?: Scenario; // The scenario before the change, for anything that existed already
+  reason: string;
+}
+
+export interface PlanEvolution {
+  plan: UserPlan;
+  changes: PlanChange[];
+}
+
+export const ERROR_CATEGORIES = [
+  'tense',
+  'article',
+  'preposition',
+  'word choice',
+  'subject-verb agreement',
+  'word order',
+  'plural',
+  'pronoun',
+  'other',
+] as const;
+
+export type ErrorCategory = typeof ERROR_CATEGORIES[number];
+
+export interface VocabularyAlternative {
+  original: string;
+  alternatives: string[];
+}
+
+export interface UtteranceFeedback {
+  original: string;
+  corrected: string; // Same as original when no errors were found
+  errorCategories: ErrorCategory[];
+  explanation: string;
+  vocabulary: VocabularyAlternative[];
+}
+
+export interface PracticeReport {
+  id: string;
+  sessionId?: string;
+  scenarioId: string;
+  createdAt: number; // epoch ms
+  objectiveAchieved: boolean;
+  objectiveNotes: string;
+  summary: string;
+  utterances: UtteranceFeedback[];
+}
+
+export interface WordScore {
+  word: string; // Reference word
+  heard: string | null; // What was recognised in its place, null if omitted
+  score: number; // 0-100
+  issue?: string; // Short note on what to fix, e.g. "stress on the first syllable"
+}
+
+export interface PauseSpan {
+  startMs: number;
+  durationMs: number;
+}
+
+export interface PronunciationAttempt {
+  id: string;
+  scenarioId?: string;
+  sentence: string;
+  createdAt: number; // epoch ms
+  transcription: string;
+  overallScore: number; // 0-100
+  wordsPerMinute: number;
+  pauses: PauseSpan[]; // Only pauses long enough to sound hesitant
+  words: WordScore[];
+}
+
+export interface ProblemWord {
+  word: string;
+  attempts: number; // Times the word scored below the problem threshold
+  averageScore: number;
+  sentences: string[]; // Reference sentences it appeared in, for re-drilling
+}
+
+export type FlashcardKind = 'vocabulary' | 'correction' | 'idiom';
+
+export interface SrsState {
+  easeFactor: number; // SM-2 E-factor, >= 1.3
+  intervalDays: number;
+  repetitions: number; // Consecutive successful reviews
+  dueAt: number; // epoch ms
+  lastReviewedAt?: number; // epoch ms
+}
+
+export interface Flashcard {
+  id: string;
+  kind: FlashcardKind;
+  front: string; // Word, phrase or the learner's original wording
+  back: string; // Meaning or corrected wording
+  example?: string;
+  sourceSessionId?: string;
+  scenarioId?: string;
+  scenarioTitle?: string;
+  createdAt: number; // epoch ms
+  srs: SrsState;
 }
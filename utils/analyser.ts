@@ -0,0 +1,47 @@
+// Helpers for reading AnalyserNode taps, shared by the visualizer and input monitoring.
+
+export interface InputLevel {
+  rms: number; // 0..1
+  peak: number; // 0..1, absolute sample maximum
+}
+
+export const CLIPPING_PEAK = 0.99;
+export const SILENCE_RMS = 0.005;
+
+export function createAnalyser(ctx: BaseAudioContext, fftSize: number = 256): AnalyserNode {
+  const analyser = ctx.createAnalyser();
+  analyser.fftSize = fftSize;
+  analyser.smoothingTimeConstant = 0.7;
+  return analyser;
+}
+
+export function readInputLevel(analyser: AnalyserNode, buffer: Float32Array): InputLevel {
+  analyser.getFloatTimeDomainData(buffer);
+  let sum = 0;
+  let peak = 0;
+  for (let i = 0; i < buffer.length; i++) {
+    const v = buffer[i];
+    sum += v * v;
+    const abs = Math.abs(v);
+    if (abs > peak) peak = abs;
+  }
+  return { rms: Math.sqrt(sum / buffer.length), peak };
+}
+
+/**
+ * Averages the analyser's frequency bins into `barCount` bands (0..1). Bands are spaced
+ * logarithmically over the lower half of the spectrum, where speech energy sits.
+ */
+export function readFrequencyBars(analyser: AnalyserNode, buffer: Uint8Array, barCount: number): number[] {
+  analyser.getByteFrequencyData(buffer);
+  const usable = Math.max(barCount, Math.floor(buffer.length / 2));
+  const bars: number[] = [];
+  for (let bar = 0; bar < barCount; bar++) {
+    const start = Math.floor(Math.pow(usable, bar / barCount)) - 1;
+    const end = Math.max(start + 1, Math.floor(Math.pow(usable, (bar + 1) / barCount)) - 1);
+    let sum = 0;
+    for (let i = start; i < end; i++) sum += buffer[i];
+    bars.push(sum / (end - start) / 255);
+  }
+  return bars;
+}
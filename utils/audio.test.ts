@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { base64ToUint8Array, createPCM16Blob, float32ToInt16, uint8ArrayToBase64 } from './audio';
+
+describe('float32ToInt16', () => {
+  it('scales to the full 16-bit range', () => {
+    expect(Array.from(float32ToInt16(Float32Array.from([0, 1, -1, 0.5])))).toEqual([0, 32767, -32768, 16383]);
+  });
+
+  it('clamps values outside ±1', () => {
+    expect(Array.from(float32ToInt16(Float32Array.from([1.5, -2, 100, -Infinity])))).toEqual([32767, -32768, 32767, -32768]);
+  });
+});
+
+describe('createPCM16Blob', () => {
+  it('reports the sample rate in the mime type', () => {
+    expect(createPCM16Blob(new Float32Array(4)).mimeType).toBe('audio/pcm;rate=16000');
+    expect(createPCM16Blob(new Float32Array(4), 24000).mimeType).toBe('audio/pcm;rate=24000');
+  });
+
+  it('encodes little-endian PCM16 as base64', () => {
+    const bytes = base64ToUint8Array(createPCM16Blob(Float32Array.from([1, -1])).data);
+    expect(Array.from(bytes)).toEqual([0xff, 0x7f, 0x00, 0x80]);
+  });
+});
+
+describe('base64 helpers', () => {
+  it('round-trip arbitrary bytes', () => {
+    const bytes = Uint8Array.from({ length: 256 }, (_, i) => i);
+    expect(Array.from(base64ToUint8Array(uint8ArrayToBase64(bytes)))).toEqual(Array.from(bytes));
+  });
+});
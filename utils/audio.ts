@@ -1,4 +1,4 @@
-import { Blob } from '@google/genai';
+import { AudioChunk } from '../types';
 
 export function base64ToUint8Array(base64: string): Uint8Array {
   const binaryString = atob(base64);
@@ -38,7 +38,7 @@ export async function decodeAudioData(
   return buffer;
 }
 
-export function createPCM16Blob(data: Float32Array): Blob {
+export function float32ToInt16(data: Float32Array): Int16Array {
   const l = data.length;
   const int16 = new Int16Array(l);
   for (let i = 0; i < l; i++) {
@@ -46,8 +46,26 @@ export function createPCM16Blob(data: Float32Array): Blob {
     const s = Math.max(-1, Math.min(1, data[i]));
     int16[i] = s < 0 ? s * 0x8000 : s * 0x7FFF;
   }
+  return int16;
+}
+
+// `data` must already be at `sampleRate`; see utils/audioCapture.ts for resampled mic input
+export function createPCM16Blob(data: Float32Array, sampleRate: number = 16000): AudioChunk {
+  const int16 = float32ToInt16(data);
   return {
     data: uint8ArrayToBase64(new Uint8Array(int16.buffer)),
-    mimeType: 'audio/pcm;rate=16000',
+    mimeType: `audio/pcm;rate=${sampleRate}`,
   };
 }
+
+/** Plays a base64 PCM16 mono clip immediately; resolves when playback ends. */
+export async function playPCM16(ctx: AudioContext, base64: string, sampleRate: number = 24000): Promise<void> {
+  const buffer = await decodeAudioData(base64ToUint8Array(base64), ctx, sampleRate, 1);
+  const source = ctx.createBufferSource();
+  source.buffer = buffer;
+  source.connect(ctx.destination);
+  return new Promise((resolve) => {
+    source.onended = () => resolve();
+    source.start();
+  });
+}
@@ -0,0 +1,41 @@
+import { ListeningGrade, ListeningQuestion } from '../types';
+
+// Grading that doesn't need the model: multiple choice, and short answers that match an
+// accepted answer once case, punctuation and articles are ignored.
+
+export const normalizeAnswer = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s']/gu, ' ')
+    .replace(/\b(a|an|the)\b/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+export const matchesAcceptedAnswer = (answer: string, acceptedAnswers: string[]) => {
+  const normalized = normalizeAnswer(answer);
+  return normalized.length > 0 && acceptedAnswers.some(accepted => normalizeAnswer(accepted) === normalized);
+};
+
+/** Returns null when a short answer needs judging, i.e. it's not an exact match. */
+export const gradeLocally = (question: ListeningQuestion, answer: string): ListeningGrade | null => {
+  if (question.kind === 'choice') {
+    const isCorrect = answer === question.options[question.answerIndex];
+    return {
+      questionId: question.id,
+      answer,
+      isCorrect,
+      feedback: isCorrect ? question.explanation : `The answer was "${question.options[question.answerIndex]}". ${question.explanation}`.trim(),
+    };
+  }
+  if (!answer.trim()) {
+    return { questionId: question.id, answer, isCorrect: false, feedback: `For example: "${question.acceptedAnswers[0]}".` };
+  }
+  if (matchesAcceptedAnswer(answer, question.acceptedAnswers)) {
+    return { questionId: question.id, answer, isCorrect: true, feedback: question.explanation };
+  }
+  return null;
+};
+
+/** Percentage of questions answered correctly. */
+export const listeningScore = (grades: ListeningGrade[]) =>
+  grades.length ? Math.round((grades.filter(grade => grade.isCorrect).length / grades.length) * 100) : 0;
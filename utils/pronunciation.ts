@@ -0,0 +1,117 @@
+import { PauseSpan, WordScore } from '../types';
+import { frameRms } from './vad';
+
+// Local analysis for pronunciation drills: aligns what was heard with the reference
+// sentence and measures pace and pauses from the recorded PCM.
+
+export const PROBLEM_WORD_SCORE = 70;
+const LONG_PAUSE_MS = 700;
+const ANALYSIS_FRAME_MS = 20;
+const SPEECH_RMS = 0.02;
+const MISMATCH_SCORE_CAP = 40;
+
+export function tokenizeWords(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[’']/g, "'")
+    .replace(/[^a-z0-9' ]+/g, ' ')
+    .split(' ')
+    .filter(Boolean);
+}
+
+/**
+ * Aligns reference words with recognised words (word-level edit distance) and returns,
+ * for each reference word, the recognised word in its place or null if it was omitted.
+ */
+export function alignWords(reference: string[], heard: string[]): (string | null)[] {
+  const rows = reference.length + 1;
+  const cols = heard.length + 1;
+  const cost: number[][] = Array.from({ length: rows }, (_, i) =>
+    Array.from({ length: cols }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const substitution = cost[i - 1][j - 1] + (reference[i - 1] === heard[j - 1] ? 0 : 1);
+      cost[i][j] = Math.min(substitution, cost[i - 1][j] + 1, cost[i][j - 1] + 1);
+    }
+  }
+
+  // Walk back from the end to recover which heard word lines up with each reference word
+  const aligned: (string | null)[] = new Array(reference.length).fill(null);
+  let i = reference.length;
+  let j = heard.length;
+  while (i > 0 && j > 0) {
+    const substitution = cost[i - 1][j - 1] + (reference[i - 1] === heard[j - 1] ? 0 : 1);
+    if (cost[i][j] === substitution) {
+      aligned[i - 1] = heard[j - 1];
+      i--;
+      j--;
+    } else if (cost[i][j] === cost[i - 1][j] + 1) {
+      i--;
+    } else {
+      j--;
+    }
+  }
+  return aligned;
+}
+
+/** Finds the voiced region and any long silences inside it. */
+export function analyzeSpeechTiming(samples: Float32Array, sampleRate: number): { speechMs: number; pauses: PauseSpan[] } {
+  const frameLength = Math.round((sampleRate * ANALYSIS_FRAME_MS) / 1000);
+  const voiced: boolean[] = [];
+  for (let start = 0; start + frameLength <= samples.length; start += frameLength) {
+    voiced.push(frameRms(samples.subarray(start, start + frameLength)) > SPEECH_RMS);
+  }
+
+  const first = voiced.indexOf(true);
+  const last = voiced.lastIndexOf(true);
+  if (first === -1) return { speechMs: 0, pauses: [] };
+
+  const pauses: PauseSpan[] = [];
+  let silentStart = -1;
+  for (let i = first; i <= last; i++) {
+    if (!voiced[i] && silentStart === -1) silentStart = i;
+    if (voiced[i] && silentStart !== -1) {
+      const durationMs = (i - silentStart) * ANALYSIS_FRAME_MS;
+      if (durationMs >= LONG_PAUSE_MS) pauses.push({ startMs: silentStart * ANALYSIS_FRAME_MS, durationMs });
+      silentStart = -1;
+    }
+  }
+  return { speechMs: (last - first + 1) * ANALYSIS_FRAME_MS, pauses };
+}
+
+export function wordsPerMinute(wordCount: number, speechMs: number): number {
+  return speechMs > 0 ? Math.round((wordCount / speechMs) * 60000) : 0;
+}
+
+/**
+ * Combines the model's per-word judgement with the local alignment: a word that was
+ * omitted or recognised as something else can't score above the mismatch cap.
+ */
+export function scoreWords(
+  sentence: string,
+  transcription: string,
+  modelScores: { word: string; score: number; issue?: string }[],
+): WordScore[] {
+  const reference = tokenizeWords(sentence);
+  const aligned = alignWords(reference, tokenizeWords(transcription));
+  const remaining = modelScores.map(s => ({ ...s, word: tokenizeWords(s.word)[0] ?? '' }));
+
+  return reference.map((word, index) => {
+    const heard = aligned[index];
+    const matchIndex = remaining.findIndex(s => s.word === word);
+    const model = matchIndex === -1 ? undefined : remaining.splice(matchIndex, 1)[0];
+    let score = Math.max(0, Math.min(100, Math.round(model?.score ?? (heard === word ? 85 : 30))));
+    if (heard !== word) score = Math.min(score, MISMATCH_SCORE_CAP);
+    const issue = model?.issue || (heard === null ? 'Not heard' : heard !== word ? `Sounded like "${heard}"` : undefined);
+    return { word, heard, score, ...(issue ? { issue } : {}) };
+  });
+}
+
+/** The lowest-scoring words below the problem threshold; returns the same objects, not copies. */
+export function weakestWords(words: WordScore[], count: number = 3): WordScore[] {
+  return [...words]
+    .filter(w => w.score < PROBLEM_WORD_SCORE)
+    .sort((a, b) => a.score - b.score)
+    .slice(0, count);
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { createResampler, designLowPassFilter } from './resampler';
+
+const tone = (frequency: number, sampleRate: number, length: number) =>
+  Float32Array.from({ length }, (_, i) => Math.sin((2 * Math.PI * frequency * i) / sampleRate));
+
+const rms = (samples: Float32Array) => Math.sqrt(samples.reduce((sum, s) => sum + s * s, 0) / samples.length);
+
+const concat = (chunks: Float32Array[]) => {
+  const out = new Float32Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+  let offset = 0;
+  chunks.forEach(chunk => {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return out;
+};
+
+describe('designLowPassFilter', () => {
+  it('has unity gain at DC', () => {
+    const taps = designLowPassFilter(0.15, 63);
+    expect(taps).toHaveLength(63);
+    expect(taps.reduce((sum, tap) => sum + tap, 0)).toBeCloseTo(1, 5);
+  });
+
+  it('is symmetric', () => {
+    const taps = designLowPassFilter(0.2, 31);
+    for (let n = 0; n < taps.length; n++) expect(taps[n]).toBeCloseTo(taps[taps.length - 1 - n], 6);
+  });
+});
+
+describe('createResampler', () => {
+  it('produces output in the ratio of the two rates', () => {
+    const resampler = createResampler(48000, 16000);
+    const output = resampler.process(new Float32Array(4800));
+    expect(Math.abs(output.length - 1600)).toBeLessThanOrEqual(1);
+  });
+
+  it('keeps the total length right over many chunks', () => {
+    const resampler = createResampler(44100, 16000);
+    const total = Array.from({ length: 100 }, () => resampler.process(new Float32Array(128).fill(0.1)))
+      .reduce((sum, chunk) => sum + chunk.length, 0);
+    expect(Math.abs(total - (100 * 128 * 16000) / 44100)).toBeLessThanOrEqual(1);
+  });
+
+  it('passes DC through with a gain of about 1', () => {
+    const resampler = createResampler(48000, 16000);
+    const output = resampler.process(new Float32Array(4800).fill(0.5));
+    // Skip the filter's warm-up
+    output.slice(100).forEach(sample => expect(sample).toBeCloseTo(0.5, 3));
+  });
+
+  it('attenuates tones above the output Nyquist frequency', () => {
+    const resampler = createResampler(48000, 16000);
+    const output = resampler.process(tone(12000, 48000, 9600)).slice(100);
+    expect(rms(output)).toBeLessThan(0.02);
+  });
+
+  it('keeps tones well below the cutoff', () => {
+    const resampler = createResampler(48000, 16000);
+    const output = resampler.process(tone(1000, 48000, 9600)).slice(100);
+    expect(rms(output)).toBeCloseTo(Math.SQRT1_2, 1);
+  });
+
+  it('gives the same result whether the input arrives whole or in chunks', () => {
+    const input = tone(440, 48000, 4800);
+    const whole = createResampler(48000, 16000).process(input);
+
+    const chunked = createResampler(48000, 16000);
+    const chunks: Float32Array[] = [];
+    for (let offset = 0; offset < input.length; offset += 128) chunks.push(chunked.process(input.subarray(offset, offset + 128)));
+
+    const joined = concat(chunks);
+    expect(joined.length).toBe(whole.length);
+    joined.forEach((sample, i) => expect(sample).toBeCloseTo(whole[i], 5));
+  });
+
+  it('returns a copy when the rates match', () => {
+    const input = Float32Array.from([0.1, 0.2, 0.3]);
+    const output = createResampler(16000, 16000).process(input);
+    expect(Array.from(output)).toEqual(Array.from(input));
+    expect(output).not.toBe(input);
+  });
+
+  it('forgets earlier input after reset', () => {
+    const input = tone(440, 48000, 960);
+    const resampler = createResampler(48000, 16000);
+    const first = resampler.process(input);
+    resampler.process(tone(3000, 48000, 500));
+    resampler.reset();
+    expect(Array.from(resampler.process(input))).toEqual(Array.from(first));
+  });
+});
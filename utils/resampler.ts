@@ -0,0 +1,85 @@
+// Streaming sample-rate conversion for microphone capture.
+// These functions are also injected (via toString) into the capture AudioWorklet, so they
+// must stay self-contained: no imports, no references to module-level bindings.
+
+export interface Resampler {
+  process(input: Float32Array): Float32Array;
+  reset(): void;
+}
+
+/**
+ * Designs a Blackman-windowed sinc low-pass FIR filter.
+ * `cutoff` is normalised to the sample rate (0 < cutoff <= 0.5); taps are normalised to unity DC gain.
+ */
+export function designLowPassFilter(cutoff: number, numTaps: number): Float32Array {
+  const taps = new Float32Array(numTaps);
+  const middle = (numTaps - 1) / 2;
+  let sum = 0;
+  for (let n = 0; n < numTaps; n++) {
+    const x = n - middle;
+    const sinc = x === 0 ? 2 * cutoff : Math.sin(2 * Math.PI * cutoff * x) / (Math.PI * x);
+    const window = numTaps === 1
+      ? 1
+      : 0.42 - 0.5 * Math.cos((2 * Math.PI * n) / (numTaps - 1)) + 0.08 * Math.cos((4 * Math.PI * n) / (numTaps - 1));
+    taps[n] = sinc * window;
+    sum += taps[n];
+  }
+  for (let n = 0; n < numTaps; n++) taps[n] /= sum;
+  return taps;
+}
+
+/**
+ * Creates a stateful resampler. Input is low-pass filtered below the output Nyquist
+ * frequency (to avoid aliasing when downsampling) and then linearly interpolated.
+ * State carries across calls, so chunk boundaries don't introduce clicks.
+ */
+export function createResampler(inputRate: number, outputRate: number, numTaps: number = 63): Resampler {
+  const ratio = inputRate / outputRate;
+  // Leave 10% headroom below the output Nyquist for the filter's transition band
+  const cutoff = Math.min(0.5, 0.5 / ratio) * 0.9;
+  const taps = designLowPassFilter(cutoff, numTaps);
+
+  let history = new Float32Array(numTaps - 1);
+  let previousFiltered = 0;
+  let position = 0;
+
+  return {
+    process(input: Float32Array): Float32Array {
+      if (inputRate === outputRate) return input.slice();
+      const length = input.length;
+      if (length === 0) return new Float32Array(0);
+
+      const extended = new Float32Array(history.length + length);
+      extended.set(history);
+      extended.set(input, history.length);
+
+      const filtered = new Float32Array(length);
+      for (let i = 0; i < length; i++) {
+        let acc = 0;
+        for (let k = 0; k < numTaps; k++) acc += taps[k] * extended[i + k];
+        filtered[i] = acc;
+      }
+      history = extended.slice(extended.length - history.length);
+
+      const output: number[] = [];
+      // position is measured in filtered samples; -1 refers to the last sample of the previous chunk
+      while (position < length - 1) {
+        const index = Math.floor(position);
+        const fraction = position - index;
+        const a = index < 0 ? previousFiltered : filtered[index];
+        const b = filtered[index + 1];
+        output.push(a + (b - a) * fraction);
+        position += ratio;
+      }
+      position -= length;
+      previousFiltered = filtered[length - 1];
+      return Float32Array.from(output);
+    },
+
+    reset() {
+      history = new Float32Array(numTaps - 1);
+      previousFiltered = 0;
+      position = 0;
+    },
+  };
+}
@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+import { SessionMetrics, Transcript } from '../types';
+import { countFillers, createMetricsTracker, mergeSessionMetrics, MetricsTracker } from './sessionMetrics';
+
+const SAMPLE_RATE = 16000;
+const FRAME_MS = 100;
+
+// Mic frames from `fromMs` to `toMs`, each reported when it ends, as the worklet does
+const feed = (tracker: MetricsTracker, fromMs: number, toMs: number, loud: boolean) => {
+  for (let atMs = fromMs + FRAME_MS; atMs <= toMs; atMs += FRAME_MS) {
+    tracker.addInputFrame(new Float32Array((SAMPLE_RATE * FRAME_MS) / 1000).fill(loud ? 0.5 : 0), SAMPLE_RATE, atMs);
+  }
+};
+
+const transcript = (...learnerLines: string[]): Transcript => ({
+  startedAt: 0,
+  turns: learnerLines.map(text => ({ speaker: 'user', text, startMs: 0, endMs: 0, isComplete: true })),
+});
+
+const words = (count: number) => Array.from({ length: count }, () => 'word').join(' ');
+
+describe('countFillers', () => {
+  it('counts filler words and phrases', () => {
+    expect(countFillers('Um, I was, uh, sort of tired, you know?')).toBe(4);
+    expect(countFillers('I mean it kind of works')).toBe(2);
+  });
+
+  it('counts "like" only when it is set off from the sentence', () => {
+    expect(countFillers('It was, like, huge.')).toBe(1);
+    expect(countFillers('Like, I never go there.')).toBe(1);
+    expect(countFillers('I like tea, and it looks like rain.')).toBe(0);
+  });
+
+  it('does not count fillers inside other words', () => {
+    expect(countFillers('The summer heat was unbearable.')).toBe(0);
+  });
+});
+
+describe('createMetricsTracker', () => {
+  it('measures the pause between the end of tutor audio and the learner starting to speak', () => {
+    const tracker = createMetricsTracker(SAMPLE_RATE);
+    tracker.addTutorAudio(0, 2000);
+    feed(tracker, 0, 3000, false);
+    feed(tracker, 3000, 5000, true);
+    feed(tracker, 5000, 6000, false);
+
+    const metrics = tracker.finish(transcript('Hello there'));
+    expect(metrics.responsePausesMs).toEqual([1000]);
+    expect(metrics.tutorTalkMs).toBe(2000);
+  });
+
+  it('ignores speech that starts before the tutor finishes, or long after', () => {
+    const tracker = createMetricsTracker(SAMPLE_RATE);
+    tracker.addTutorAudio(0, 2000);
+    feed(tracker, 0, 1000, true);
+    feed(tracker, 1000, 3000, false);
+    tracker.addTutorAudio(3000, 1000);
+    feed(tracker, 3000, 30000, false);
+    feed(tracker, 30000, 31000, true);
+
+    expect(tracker.finish(transcript()).responsePausesMs).toEqual([]);
+  });
+
+  it('leaves the hangover silence out of the learner talk time', () => {
+    const tracker = createMetricsTracker(SAMPLE_RATE);
+    feed(tracker, 0, 2000, true);
+    feed(tracker, 2000, 3000, false);
+
+    // The last speech frame plus three hangover frames are still speech, and 400 ms of it is taken off
+    expect(tracker.finish(transcript()).learnerTalkMs).toBe(1900);
+  });
+
+  it('reports words per minute only after enough learner speech', () => {
+    const short = createMetricsTracker(SAMPLE_RATE);
+    feed(short, 0, 5000, true);
+    expect(short.finish(transcript(words(20))).wordsPerMinute).toBeNull();
+
+    const long = createMetricsTracker(SAMPLE_RATE);
+    feed(long, 0, 12000, true);
+    expect(long.finish(transcript(words(20), words(10))).wordsPerMinute).toBe(150);
+  });
+
+  it('trims tutor audio that an interruption stopped from playing', () => {
+    const tracker = createMetricsTracker(SAMPLE_RATE);
+    tracker.addTutorAudio(0, 4000);
+    tracker.addTutorAudio(4000, 4000);
+    tracker.addInterruption(3000);
+    feed(tracker, 0, 5000, false);
+    feed(tracker, 5000, 6000, true);
+
+    const metrics = tracker.finish(transcript());
+    expect(metrics.tutorTalkMs).toBe(3000);
+    expect(metrics.interruptions).toBe(1);
+    // The learner was already talking, so there was no pause to measure
+    expect(metrics.responsePausesMs).toEqual([]);
+  });
+
+  it('counts fillers across the learner turns only', () => {
+    const tracker = createMetricsTracker(SAMPLE_RATE);
+    const metrics = tracker.finish({
+      startedAt: 0,
+      turns: [
+        { speaker: 'tutor', text: 'Um, so, like, tell me more.', startMs: 0, endMs: 0, isComplete: true },
+        { speaker: 'user', text: 'Uh, it was, like, fine.', startMs: 0, endMs: 0, isComplete: true },
+      ],
+    });
+    expect(metrics.fillerCount).toBe(2);
+    expect(metrics.learnerWords).toBe(5);
+  });
+});
+
+describe('mergeSessionMetrics', () => {
+  const part = (overrides: Partial<SessionMetrics>): SessionMetrics => ({
+    learnerTalkMs: 6000,
+    tutorTalkMs: 4000,
+    learnerWords: 15,
+    wordsPerMinute: null,
+    responsePausesMs: [],
+    fillerCount: 0,
+    interruptions: 0,
+    ...overrides,
+  });
+
+  it('adds up both parts and recomputes the rate from the combined talk time', () => {
+    expect(mergeSessionMetrics(
+      part({ responsePausesMs: [800], fillerCount: 2, interruptions: 1 }),
+      part({ tutorTalkMs: 1000, responsePausesMs: [1200, 400], fillerCount: 1 }),
+    )).toEqual({
+      learnerTalkMs: 12000,
+      tutorTalkMs: 5000,
+      learnerWords: 30,
+      wordsPerMinute: 150,
+      responsePausesMs: [800, 1200, 400],
+      fillerCount: 3,
+      interruptions: 1,
+    });
+  });
+});
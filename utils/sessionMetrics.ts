@@ -0,0 +1,125 @@
+import { SessionMetrics, Transcript } from '../types';
+import { tokenizeWords } from './pronunciation';
+import { createVoiceActivityDetector } from './vad';
+
+// Speaking-time and fluency measures for a live session. Timing comes from the audio
+// stream (mic frames and scheduled tutor playback); word counts come from the transcript.
+
+const SPEECH_HANGOVER_MS = 400; // Silence that ends an utterance; not counted as talk time
+const MIN_WPM_TALK_MS = 10000; // Less learner speech than this gives a meaningless rate
+const MAX_RESPONSE_PAUSE_MS = 20000; // Longer gaps are the learner stepping away, not hesitating
+
+const FILLER_WORDS = new Set(['um', 'umm', 'uh', 'uhh', 'er', 'erm', 'hmm', 'ah', 'eh']);
+const FILLER_PHRASES = [/\byou know\b/g, /\bi mean\b/g, /\bsort of\b/g, /\bkind of\b/g];
+// "like" is only a filler when set off from the sentence, e.g. "it was, like, huge"
+const FILLER_LIKE = /(^|[,.…-])\s*like\s*(?=[,.…-])/g;
+
+export interface MetricsTracker {
+  /** Every unmuted mic frame, whether or not it was sent to the tutor. */
+  addInputFrame(frame: Float32Array, sampleRate: number, atMs: number): void;
+  /** Tutor audio scheduled to play from `startMs`. */
+  addTutorAudio(startMs: number, durationMs: number): void;
+  /** The learner talked over the tutor; audio scheduled after `atMs` never plays. */
+  addInterruption(atMs: number): void;
+  finish(transcript: Transcript): SessionMetrics;
+}
+
+export function countFillers(text: string): number {
+  const lower = text.toLowerCase();
+  const words = tokenizeWords(lower).filter(word => FILLER_WORDS.has(word)).length;
+  const phrases = FILLER_PHRASES.reduce((sum, pattern) => sum + (lower.match(pattern)?.length ?? 0), 0);
+  return words + phrases + (lower.match(FILLER_LIKE)?.length ?? 0);
+}
+
+const learnerText = (transcript: Transcript) =>
+  transcript.turns.filter(turn => turn.speaker === 'user').map(turn => turn.text);
+
+const wordsPerMinute = (words: number, talkMs: number) =>
+  talkMs >= MIN_WPM_TALK_MS ? Math.round(words / (talkMs / 60000)) : null;
+
+export const createMetricsTracker = (sampleRate: number): MetricsTracker => {
+  const vad = createVoiceActivityDetector({ sampleRate, hangoverMs: SPEECH_HANGOVER_MS });
+  let learnerTalkMs = 0;
+  let utteranceMs = 0;
+  let tutorSpans: { start: number; end: number }[] = [];
+  let awaitingReplySince: number | null = null; // When the tutor's latest audio ends
+  const responsePausesMs: number[] = [];
+  let interruptions = 0;
+
+  return {
+    addInputFrame: (frame, rate, atMs) => {
+      const frameMs = (frame.length / rate) * 1000;
+      const result = vad.process(frame);
+      if (result.speechStarted) {
+        const onset = atMs - frameMs;
+        if (awaitingReplySince !== null && onset >= awaitingReplySince && onset - awaitingReplySince <= MAX_RESPONSE_PAUSE_MS) {
+          responsePausesMs.push(Math.round(onset - awaitingReplySince));
+        }
+        awaitingReplySince = null;
+      }
+      if (result.isSpeech) utteranceMs += frameMs;
+      if (result.speechEnded) {
+        learnerTalkMs += Math.max(0, utteranceMs - SPEECH_HANGOVER_MS);
+        utteranceMs = 0;
+      }
+    },
+
+    addTutorAudio: (startMs, durationMs) => {
+      tutorSpans.push({ start: startMs, end: startMs + durationMs });
+      awaitingReplySince = Math.max(awaitingReplySince ?? 0, startMs + durationMs);
+    },
+
+    addInterruption: (atMs) => {
+      interruptions += 1;
+      tutorSpans = tutorSpans
+        .filter(span => span.start < atMs)
+        .map(span => ({ start: span.start, end: Math.min(span.end, atMs) }));
+      awaitingReplySince = null;
+    },
+
+    finish: (transcript) => {
+      const talkMs = learnerTalkMs + utteranceMs; // Include an utterance still open at the end
+      const lines = learnerText(transcript);
+      const learnerWords = lines.reduce((sum, line) => sum + tokenizeWords(line).length, 0);
+      return {
+        learnerTalkMs: Math.round(talkMs),
+        tutorTalkMs: Math.round(tutorSpans.reduce((sum, span) => sum + span.end - span.start, 0)),
+        learnerWords,
+        wordsPerMinute: wordsPerMinute(learnerWords, talkMs),
+        responsePausesMs,
+        fillerCount: lines.reduce((sum, line) => sum + countFillers(line), 0),
+        interruptions,
+      };
+    },
+  };
+};
+
+/** Share of the talking done by the learner, 0-1, or null if nobody spoke. */
+export function learnerTalkShare({ learnerTalkMs, tutorTalkMs }: SessionMetrics): number | null {
+  const total = learnerTalkMs + tutorTalkMs;
+  return total > 0 ? learnerTalkMs / total : null;
+}
+
+export function averageResponsePauseMs({ responsePausesMs }: SessionMetrics): number | null {
+  if (responsePausesMs.length === 0) return null;
+  return Math.round(responsePausesMs.reduce((sum, pause) => sum + pause, 0) / responsePausesMs.length);
+}
+
+export function fillersPer100Words({ fillerCount, learnerWords }: SessionMetrics): number | null {
+  return learnerWords > 0 ? Math.round((fillerCount / learnerWords) * 1000) / 10 : null;
+}
+
+/** Combines the metrics of a session continued in a second part. */
+export function mergeSessionMetrics(first: SessionMetrics, next: SessionMetrics): SessionMetrics {
+  const learnerTalkMs = first.learnerTalkMs + next.learnerTalkMs;
+  const learnerWords = first.learnerWords + next.learnerWords;
+  return {
+    learnerTalkMs,
+    tutorTalkMs: first.tutorTalkMs + next.tutorTalkMs,
+    learnerWords,
+    wordsPerMinute: wordsPerMinute(learnerWords, learnerTalkMs),
+    responsePausesMs: [...first.responsePausesMs, ...next.responsePausesMs],
+    fillerCount: first.fillerCount + next.fillerCount,
+    interruptions: first.interruptions + next.interruptions,
+  };
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { RecordedAudio } from '../types';
+import { appendRecording, createSessionRecorder, RECORDING_SAMPLE_RATE } from './sessionRecorder';
+import { decodeWav, encodeWav } from './wav';
+
+const samplesOf = async (recording: RecordedAudio) => decodeWav(await recording.wav.arrayBuffer()).samples;
+
+const recordingOf = (samples: number[], sampleRate = RECORDING_SAMPLE_RATE): RecordedAudio => ({
+  wav: new Blob([encodeWav(Int16Array.from(samples), sampleRate)], { type: 'audio/wav' }),
+  durationMs: (samples.length / sampleRate) * 1000,
+});
+
+// 1ms at the recording rate
+const MS = RECORDING_SAMPLE_RATE / 1000;
+
+describe('createSessionRecorder', () => {
+  it('places tutor audio at the time it plays', async () => {
+    const recorder = createSessionRecorder();
+    recorder.writeOutput(new Float32Array(10 * MS).fill(0.5), RECORDING_SAMPLE_RATE, 100);
+    const recording = recorder.finish();
+    const samples = await samplesOf(recording);
+
+    expect(recording.durationMs).toBe(110);
+    expect(samples[100 * MS - 1]).toBe(0);
+    expect(samples[100 * MS]).toBe(16383);
+  });
+
+  it('lays mic frames end to end from the first frame', async () => {
+    const recorder = createSessionRecorder();
+    // The first frame arrives at 20ms, so it started 10ms earlier
+    recorder.writeInput(new Float32Array(10 * MS).fill(0.25), RECORDING_SAMPLE_RATE, 20);
+    recorder.skipInput(10 * MS, RECORDING_SAMPLE_RATE, 500);
+    recorder.writeInput(new Float32Array(10 * MS).fill(-0.25), RECORDING_SAMPLE_RATE, 999);
+    const samples = await samplesOf(recorder.finish());
+
+    expect(samples.length).toBe(40 * MS);
+    expect(samples[10 * MS]).toBeGreaterThan(0);
+    expect(samples[25 * MS]).toBe(0);
+    expect(samples[35 * MS]).toBeLessThan(0);
+  });
+
+  it('resamples input to the recording rate', () => {
+    const recorder = createSessionRecorder();
+    recorder.writeOutput(new Float32Array(4800), 48000, 0);
+    expect(recorder.finish().durationMs).toBe(100);
+  });
+
+  it('drops tutor audio scheduled after an interruption', async () => {
+    const recorder = createSessionRecorder();
+    recorder.writeOutput(new Float32Array(100 * MS).fill(0.5), RECORDING_SAMPLE_RATE, 0);
+    recorder.writeOutput(new Float32Array(100 * MS).fill(0.5), RECORDING_SAMPLE_RATE, 100);
+    recorder.writeOutput(new Float32Array(100 * MS).fill(0.5), RECORDING_SAMPLE_RATE, 200);
+    recorder.cutOutputAfter(150);
+    const recording = recorder.finish();
+    const samples = await samplesOf(recording);
+
+    expect(recording.durationMs).toBe(150);
+    expect(samples[150 * MS - 1]).toBe(16383);
+  });
+
+  it('keeps mic audio when tutor audio is cut', () => {
+    const recorder = createSessionRecorder();
+    recorder.writeInput(new Float32Array(300 * MS), RECORDING_SAMPLE_RATE, 300);
+    recorder.writeOutput(new Float32Array(300 * MS), RECORDING_SAMPLE_RATE, 0);
+    recorder.cutOutputAfter(100);
+    expect(recorder.finish().durationMs).toBe(300);
+  });
+});
+
+describe('appendRecording', () => {
+  it('leaves a silent gap up to the offset', async () => {
+    const joined = await appendRecording(recordingOf([1, 2]), recordingOf([3, 4]), 4 / MS);
+    expect(Array.from(await samplesOf(joined))).toEqual([1, 2, 0, 0, 3, 4]);
+    expect(joined.durationMs).toBeCloseTo(6 / MS);
+  });
+
+  it('never overlaps the first recording', async () => {
+    const joined = await appendRecording(recordingOf([1, 2, 3]), recordingOf([4]), 0);
+    expect(Array.from(await samplesOf(joined))).toEqual([1, 2, 3, 4]);
+  });
+
+  it('refuses recordings at different sample rates', async () => {
+    await expect(appendRecording(recordingOf([1]), recordingOf([2], 24000), 0)).rejects.toThrow(/share a sample rate/);
+  });
+});
@@ -0,0 +1,109 @@
+import { RecordedAudio } from '../types';
+import { float32ToInt16 } from './audio';
+import { decodeWav, encodeWav } from './wav';
+
+// Records both sides of a live session onto one mono timeline, mixed into a WAV at the end.
+// Times are ms since the session (and its transcript) started, so turns can seek into it.
+
+export const RECORDING_SAMPLE_RATE = 16000;
+
+interface Segment {
+  offset: number; // In samples at RECORDING_SAMPLE_RATE
+  data: Float32Array;
+}
+
+export interface SessionRecorder {
+  /** Mic audio. Consecutive frames are laid end to end; `atMs` only anchors the first one. */
+  writeInput(frame: Float32Array, sampleRate: number, atMs: number): void;
+  /** Keeps the mic timeline moving over audio that shouldn't be recorded (e.g. while muted). */
+  skipInput(length: number, sampleRate: number, atMs: number): void;
+  /** Tutor audio, placed at the time it is scheduled to play. */
+  writeOutput(samples: Float32Array, sampleRate: number, atMs: number): void;
+  /** Drops tutor audio scheduled after `atMs`, for when playback is interrupted. */
+  cutOutputAfter(atMs: number): void;
+  finish(): RecordedAudio;
+}
+
+const msToSamples = (ms: number) => Math.max(0, Math.round((ms / 1000) * RECORDING_SAMPLE_RATE));
+
+// Linear interpolation is plenty for a listening copy of speech
+const resampleLinear = (samples: Float32Array, fromRate: number): Float32Array => {
+  if (fromRate === RECORDING_SAMPLE_RATE) return samples.slice();
+  const ratio = fromRate / RECORDING_SAMPLE_RATE;
+  const output = new Float32Array(Math.floor(samples.length / ratio));
+  for (let i = 0; i < output.length; i++) {
+    const position = i * ratio;
+    const index = Math.floor(position);
+    const next = Math.min(index + 1, samples.length - 1);
+    output[i] = samples[index] + (samples[next] - samples[index]) * (position - index);
+  }
+  return output;
+};
+
+export const createSessionRecorder = (): SessionRecorder => {
+  const input: Segment[] = [];
+  let output: Segment[] = [];
+  let inputCursor: number | null = null;
+
+  const advanceInput = (length: number, atMs: number) => {
+    // The frame has just arrived, so it started `length` samples ago
+    if (inputCursor === null) inputCursor = Math.max(0, msToSamples(atMs) - length);
+    const offset = inputCursor;
+    inputCursor += length;
+    return offset;
+  };
+
+  return {
+    writeInput: (frame, sampleRate, atMs) => {
+      const data = resampleLinear(frame, sampleRate);
+      input.push({ offset: advanceInput(data.length, atMs), data });
+    },
+
+    skipInput: (length, sampleRate, atMs) => {
+      advanceInput(Math.floor((length * RECORDING_SAMPLE_RATE) / sampleRate), atMs);
+    },
+
+    writeOutput: (samples, sampleRate, atMs) => {
+      output.push({ offset: msToSamples(atMs), data: resampleLinear(samples, sampleRate) });
+    },
+
+    cutOutputAfter: (atMs) => {
+      const cut = msToSamples(atMs);
+      output = output
+        .filter(segment => segment.offset < cut)
+        .map(segment => segment.offset + segment.data.length > cut
+          ? { offset: segment.offset, data: segment.data.subarray(0, cut - segment.offset) }
+          : segment);
+    },
+
+    finish: () => {
+      const segments = [...input, ...output];
+      const length = segments.reduce((max, segment) => Math.max(max, segment.offset + segment.data.length), 0);
+      const mix = new Float32Array(length);
+      segments.forEach(({ offset, data }) => {
+        for (let i = 0; i < data.length; i++) mix[offset + i] += data[i];
+      });
+      return {
+        wav: new Blob([encodeWav(float32ToInt16(mix), RECORDING_SAMPLE_RATE)], { type: 'audio/wav' }),
+        durationMs: (length / RECORDING_SAMPLE_RATE) * 1000,
+      };
+    },
+  };
+};
+
+/** Joins a continuation recording onto an earlier one, starting `offsetMs` into the first. */
+export async function appendRecording(first: RecordedAudio, continuation: RecordedAudio, offsetMs: number): Promise<RecordedAudio> {
+  const [a, b] = await Promise.all([first.wav.arrayBuffer(), continuation.wav.arrayBuffer()].map(async buffer => decodeWav(await buffer)));
+  if (a.sampleRate !== b.sampleRate || a.numChannels !== 1 || b.numChannels !== 1) {
+    throw new Error('Recordings must share a sample rate and be mono to be joined');
+  }
+  // Gaps (the time between the two sessions) are left silent
+  const offset = Math.max(a.samples.length, Math.round((offsetMs / 1000) * a.sampleRate));
+  const samples = new Int16Array(offset + b.samples.length);
+  samples.set(a.samples);
+  samples.set(b.samples, offset);
+  return {
+    wav: new Blob([encodeWav(samples, a.sampleRate)], { type: 'audio/wav' }),
+    durationMs: (samples.length / a.sampleRate) * 1000,
+  };
+}
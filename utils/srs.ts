@@ -0,0 +1,31 @@
+import { SrsState } from '../types';
+
+// SM-2 spaced repetition scheduling.
+// Quality is graded 0-5; anything below 3 counts as a lapse and restarts the card.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_EASE = 1.3;
+
+export type ReviewQuality = 0 | 1 | 2 | 3 | 4 | 5;
+
+export function createSrsState(now: number = Date.now()): SrsState {
+  return { easeFactor: 2.5, intervalDays: 0, repetitions: 0, dueAt: now };
+}
+
+export function reviewCard(state: SrsState, quality: ReviewQuality, now: number = Date.now()): SrsState {
+  let { repetitions, intervalDays } = state;
+  if (quality < 3) {
+    repetitions = 0;
+    intervalDays = 1;
+  } else {
+    repetitions += 1;
+    intervalDays = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(intervalDays * state.easeFactor);
+  }
+
+  const easeFactor = Math.max(MIN_EASE, state.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)));
+  return { easeFactor, intervalDays, repetitions, dueAt: now + intervalDays * DAY_MS, lastReviewedAt: now };
+}
+
+export function isDue(state: SrsState, now: number = Date.now()): boolean {
+  return state.dueAt <= now;
+}
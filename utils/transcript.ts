@@ -0,0 +1,91 @@
+import { Speaker, Transcript, Turn } from '../types';
+
+// Helpers that fold streaming Live API transcription fragments into speaker turns.
+// All functions are pure and return a new Transcript so they can back React state.
+
+export function createTranscript(startedAt: number = Date.now()): Transcript {
+  return { startedAt, turns: [] };
+}
+
+const SPEAKER_LABELS: Record<Speaker, string> = {
+  user: 'User',
+  tutor: 'Tutor',
+};
+
+const joinFragment = (text: string, fragment: string) =>
+  (text + fragment).replace(/\s+/g, ' ');
+
+const closeOpenTurns = (turns: Turn[], atMs: number): Turn[] =>
+  turns.map(turn => (turn.isComplete ? turn : { ...turn, isComplete: true, endMs: Math.max(turn.endMs, atMs) }));
+
+/**
+ * Appends a transcription fragment. Fragments from the same speaker are merged into
+ * the open turn; a fragment from the other speaker starts a new turn. An open tutor
+ * turn is left open when the learner starts speaking so a later `interrupted` signal
+ * can still flag it.
+ */
+export function appendFragment(transcript: Transcript, speaker: Speaker, fragment: string, atMs: number): Transcript {
+  if (!fragment) return transcript;
+  const turns = transcript.turns;
+  const last = turns[turns.length - 1];
+
+  if (last && last.speaker === speaker && !last.isComplete) {
+    const merged: Turn = { ...last, text: joinFragment(last.text, fragment), endMs: atMs };
+    return { ...transcript, turns: [...turns.slice(0, -1), merged] };
+  }
+
+  const previous = turns.map((turn, index) => {
+    if (turn.isComplete) return turn;
+    // Keep only the latest tutor turn open while the learner talks over it
+    const keepOpen = speaker === 'user' && turn.speaker === 'tutor' && index === turns.length - 1;
+    return keepOpen ? turn : { ...turn, isComplete: true };
+  });
+  const turn: Turn = { speaker, text: fragment.replace(/^\s+/, ''), startMs: atMs, endMs: atMs, isComplete: false };
+  return { ...transcript, turns: [...previous, turn] };
+}
+
+/** Handles `turnComplete`: the model has finished, so every open turn is closed. */
+export function completeTurn(transcript: Transcript, atMs: number): Transcript {
+  return { ...transcript, turns: closeOpenTurns(transcript.turns, atMs) };
+}
+
+/** Handles `interrupted`: flags and closes the tutor turn that was cut off. */
+export function interruptTutorTurn(transcript: Transcript, atMs: number): Transcript {
+  let target = -1;
+  transcript.turns.forEach((turn, index) => {
+    if (turn.speaker === 'tutor' && !turn.isComplete) target = index;
+  });
+  if (target === -1) return transcript;
+
+  const turns = transcript.turns.map((turn, index) =>
+    index === target ? { ...turn, interrupted: true, isComplete: true, endMs: Math.max(turn.endMs, atMs) } : turn
+  );
+  return { ...transcript, turns };
+}
+
+/** Closes any open turns at the end of a session. */
+export function finalizeTranscript(transcript: Transcript, atMs: number): Transcript {
+  return completeTurn(transcript, atMs);
+}
+
+/** Renders the transcript as `User: ...` / `Tutor: ...` lines for model prompts. */
+export function serializeTranscript(transcript: Transcript): string {
+  return transcript.turns
+    .filter(turn => turn.text.trim())
+    .map(turn => `${SPEAKER_LABELS[turn.speaker]}: ${turn.text.trim()}${turn.interrupted ? ' [interrupted]' : ''}`)
+    .join('\n');
+}
+
+/** Appends a continuation session, shifting its timings to follow on from the first. */
+export function appendTranscript(first: Transcript, continuation: Transcript): Transcript {
+  const offset = continuation.startedAt - first.startedAt;
+  const turns = continuation.turns.map(turn => ({ ...turn, startMs: turn.startMs + offset, endMs: turn.endMs + offset }));
+  return { ...first, turns: [...first.turns, ...turns] };
+}
+
+/** How much the learner actually said, used to decide whether there's enough to assess. */
+export function measureLearnerSpeech(transcript: Transcript): { words: number; turns: number } {
+  const learnerTurns = transcript.turns.filter(turn => turn.speaker === 'user' && turn.text.trim());
+  const words = learnerTurns.reduce((sum, turn) => sum + turn.text.trim().split(/\s+/).length, 0);
+  return { words, turns: learnerTurns.length };
+}
@@ -0,0 +1,94 @@
+// Energy-based voice activity detection on mono Float32 frames.
+// Tracks an adaptive noise floor so steady background noise doesn't count as speech,
+// and holds speech open for a short hangover so pauses between words don't split an utterance.
+
+export interface VadOptions {
+  sampleRate: number;
+  minThreshold?: number; // RMS below which a frame is never speech
+  noiseRatio?: number; // Speech must be this many times louder than the noise floor
+  hangoverMs?: number; // Silence needed before speech is considered over
+  preRollMs?: number; // Audio kept from before speech onset so the first syllable isn't clipped
+}
+
+export interface VadResult {
+  isSpeech: boolean;
+  speechStarted: boolean;
+  speechEnded: boolean;
+  preRoll: Float32Array[]; // Frames to send before the current one when speech starts
+}
+
+export interface VoiceActivityDetector {
+  process(frame: Float32Array): VadResult;
+  reset(): void;
+}
+
+export function frameRms(frame: Float32Array): number {
+  if (frame.length === 0) return 0;
+  let sum = 0;
+  for (let i = 0; i < frame.length; i++) sum += frame[i] * frame[i];
+  return Math.sqrt(sum / frame.length);
+}
+
+export function createVoiceActivityDetector({
+  sampleRate,
+  minThreshold = 0.01,
+  noiseRatio = 3,
+  hangoverMs = 600,
+  preRollMs = 200,
+}: VadOptions): VoiceActivityDetector {
+  let noiseFloor = minThreshold / noiseRatio;
+  let isSpeaking = false;
+  let silentMs = 0;
+  let preRoll: Float32Array[] = [];
+  let preRollSamples = 0;
+  const maxPreRollSamples = (sampleRate * preRollMs) / 1000;
+
+  const remember = (frame: Float32Array) => {
+    preRoll.push(frame);
+    preRollSamples += frame.length;
+    while (preRoll.length > 1 && preRollSamples - preRoll[0].length >= maxPreRollSamples) {
+      preRollSamples -= preRoll.shift()!.length;
+    }
+  };
+
+  return {
+    process(frame) {
+      const rms = frameRms(frame);
+      const frameMs = (frame.length / sampleRate) * 1000;
+      const isLoud = rms > Math.max(minThreshold, noiseFloor * noiseRatio);
+
+      if (!isLoud) {
+        // Only learn the noise floor from quiet frames; fall quickly, rise slowly
+        noiseFloor = rms < noiseFloor ? noiseFloor * 0.7 + rms * 0.3 : noiseFloor * 0.98 + rms * 0.02;
+      }
+
+      if (!isSpeaking) {
+        if (isLoud) {
+          isSpeaking = true;
+          silentMs = 0;
+          const frames = preRoll;
+          preRoll = [];
+          preRollSamples = 0;
+          return { isSpeech: true, speechStarted: true, speechEnded: false, preRoll: frames };
+        }
+        remember(frame);
+        return { isSpeech: false, speechStarted: false, speechEnded: false, preRoll: [] };
+      }
+
+      silentMs = isLoud ? 0 : silentMs + frameMs;
+      if (silentMs >= hangoverMs) {
+        isSpeaking = false;
+        silentMs = 0;
+        return { isSpeech: false, speechStarted: false, speechEnded: true, preRoll: [] };
+      }
+      return { isSpeech: true, speechStarted: false, speechEnded: false, preRoll: [] };
+    },
+
+    reset() {
+      isSpeaking = false;
+      silentMs = 0;
+      preRoll = [];
+      preRollSamples = 0;
+    },
+  };
+}
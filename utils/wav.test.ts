@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { decodeWav, encodeWav, wavDurationMs } from './wav';
+
+interface Chunk {
+  id: string;
+  body: Uint8Array;
+  declaredSize?: number; // Overrides the size written in the chunk header
+}
+
+const ascii = (text: string) => Uint8Array.from(text, c => c.charCodeAt(0));
+
+const fmtChunk = ({ audioFormat = 1, numChannels = 1, sampleRate = 16000, bitsPerSample = 16 } = {}): Chunk => {
+  const body = new DataView(new ArrayBuffer(16));
+  body.setUint16(0, audioFormat, true);
+  body.setUint16(2, numChannels, true);
+  body.setUint32(4, sampleRate, true);
+  body.setUint32(8, sampleRate * numChannels * (bitsPerSample / 8), true);
+  body.setUint16(12, numChannels * (bitsPerSample / 8), true);
+  body.setUint16(14, bitsPerSample, true);
+  return { id: 'fmt ', body: new Uint8Array(body.buffer) };
+};
+
+const dataChunk = (samples: number[], declaredSize?: number): Chunk => {
+  const body = new DataView(new ArrayBuffer(samples.length * 2));
+  samples.forEach((sample, i) => body.setInt16(i * 2, sample, true));
+  return { id: 'data', body: new Uint8Array(body.buffer), declaredSize };
+};
+
+// Assembles a RIFF file chunk by chunk, padding odd-sized chunks as the format requires
+const buildWav = (chunks: Chunk[]): ArrayBuffer => {
+  const parts: Uint8Array[] = [ascii('RIFF'), new Uint8Array(4), ascii('WAVE')];
+  chunks.forEach(({ id, body, declaredSize }) => {
+    const header = new DataView(new ArrayBuffer(8));
+    ascii(id).forEach((byte, i) => header.setUint8(i, byte));
+    header.setUint32(4, declaredSize ?? body.length, true);
+    parts.push(new Uint8Array(header.buffer), body);
+    if (body.length % 2) parts.push(new Uint8Array(1));
+  });
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    out.set(part, offset);
+    offset += part.length;
+  });
+  new DataView(out.buffer).setUint32(4, out.length - 8, true);
+  return out.buffer;
+};
+
+describe('encodeWav / decodeWav', () => {
+  it('round-trips mono PCM16', () => {
+    const samples = Int16Array.from([0, 1, -1, 32767, -32768, 1234]);
+    const decoded = decodeWav(encodeWav(samples, 24000));
+    expect(decoded.sampleRate).toBe(24000);
+    expect(decoded.numChannels).toBe(1);
+    expect(Array.from(decoded.samples)).toEqual(Array.from(samples));
+  });
+
+  it('writes a 44-byte header', () => {
+    expect(encodeWav(new Int16Array(10), 16000).byteLength).toBe(44 + 20);
+  });
+
+  it('skips odd-sized and unknown chunks before the data', () => {
+    const buffer = buildWav([
+      fmtChunk({ sampleRate: 8000 }),
+      { id: 'LIST', body: ascii('odd') },
+      { id: 'junk', body: new Uint8Array(6) },
+      dataChunk([5, -5, 7]),
+    ]);
+    const decoded = decodeWav(buffer);
+    expect(decoded.sampleRate).toBe(8000);
+    expect(Array.from(decoded.samples)).toEqual([5, -5, 7]);
+  });
+
+  it('reads to the end of the file when the data size was never written', () => {
+    const decoded = decodeWav(buildWav([fmtChunk(), dataChunk([1, 2, 3, 4], 0)]));
+    expect(Array.from(decoded.samples)).toEqual([1, 2, 3, 4]);
+  });
+
+  it('stops at the end of the file when the data size is too large', () => {
+    const decoded = decodeWav(buildWav([fmtChunk(), dataChunk([1, 2, 3], 1000)]));
+    expect(Array.from(decoded.samples)).toEqual([1, 2, 3]);
+  });
+
+  it('rejects encodings other than 16-bit PCM', () => {
+    expect(() => decodeWav(buildWav([fmtChunk({ audioFormat: 3, bitsPerSample: 32 }), dataChunk([0])]))).toThrow(/Unsupported WAV encoding/);
+    expect(() => decodeWav(buildWav([fmtChunk({ bitsPerSample: 8 }), dataChunk([0])]))).toThrow(/Unsupported WAV encoding/);
+  });
+
+  it('rejects files that are not WAV or have no data', () => {
+    expect(() => decodeWav(new ArrayBuffer(4))).toThrow('Not a WAV file');
+    expect(() => decodeWav(buildWav([fmtChunk()]))).toThrow('WAV file has no data chunk');
+    expect(() => decodeWav(buildWav([dataChunk([1]), fmtChunk()]))).toThrow(/precedes its fmt chunk/);
+  });
+});
+
+describe('wavDurationMs', () => {
+  it('accounts for the channel count', () => {
+    expect(wavDurationMs({ sampleRate: 16000, numChannels: 1, samples: new Int16Array(16000) })).toBe(1000);
+    expect(wavDurationMs({ sampleRate: 16000, numChannels: 2, samples: new Int16Array(16000) })).toBe(500);
+  });
+});
@@ -0,0 +1,78 @@
+// Minimal RIFF/WAVE support for 16-bit PCM, the format used throughout the audio pipeline.
+
+export interface WavData {
+  sampleRate: number;
+  numChannels: number;
+  samples: Int16Array; // Interleaved when numChannels > 1
+}
+
+const HEADER_BYTES = 44;
+
+const writeAscii = (view: DataView, offset: number, text: string) => {
+  for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+};
+
+const readAscii = (view: DataView, offset: number, length: number) =>
+  String.fromCharCode(...Array.from({ length }, (_, i) => view.getUint8(offset + i)));
+
+export function encodeWav(samples: Int16Array, sampleRate: number, numChannels: number = 1): ArrayBuffer {
+  const dataBytes = samples.length * 2;
+  const buffer = new ArrayBuffer(HEADER_BYTES + dataBytes);
+  const view = new DataView(buffer);
+
+  writeAscii(view, 0, 'RIFF');
+  view.setUint32(4, 36 + dataBytes, true);
+  writeAscii(view, 8, 'WAVE');
+  writeAscii(view, 12, 'fmt ');
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * numChannels * 2, true); // Byte rate
+  view.setUint16(32, numChannels * 2, true); // Block align
+  view.setUint16(34, 16, true); // Bits per sample
+  writeAscii(view, 36, 'data');
+  view.setUint32(40, dataBytes, true);
+
+  // WAV is little-endian regardless of platform
+  for (let i = 0; i < samples.length; i++) view.setInt16(HEADER_BYTES + i * 2, samples[i], true);
+  return buffer;
+}
+
+/** Decodes a 16-bit PCM WAV file, skipping any non-audio chunks. Throws on other encodings. */
+export function decodeWav(buffer: ArrayBuffer): WavData {
+  const view = new DataView(buffer);
+  if (buffer.byteLength < 12 || readAscii(view, 0, 4) !== 'RIFF' || readAscii(view, 8, 4) !== 'WAVE') {
+    throw new Error('Not a WAV file');
+  }
+
+  let format: { sampleRate: number; numChannels: number } | null = null;
+  let offset = 12;
+  while (offset + 8 <= buffer.byteLength) {
+    const id = readAscii(view, offset, 4);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (id === 'fmt ') {
+      const audioFormat = view.getUint16(body, true);
+      const bitsPerSample = view.getUint16(body + 14, true);
+      if (audioFormat !== 1 || bitsPerSample !== 16) {
+        throw new Error(`Unsupported WAV encoding (format ${audioFormat}, ${bitsPerSample}-bit); expected 16-bit PCM`);
+      }
+      format = { numChannels: view.getUint16(body + 2, true), sampleRate: view.getUint32(body + 4, true) };
+    } else if (id === 'data') {
+      if (!format) throw new Error('WAV data chunk precedes its fmt chunk');
+      // Recorders that never finalised the header leave the size at 0 or too large
+      const length = Math.min(size || Infinity, buffer.byteLength - body);
+      const samples = new Int16Array(Math.floor(length / 2));
+      for (let i = 0; i < samples.length; i++) samples[i] = view.getInt16(body + i * 2, true);
+      return { ...format, samples };
+    }
+    offset = body + size + (size % 2); // Chunks are word-aligned
+  }
+  throw new Error('WAV file has no data chunk');
+}
+
+export function wavDurationMs({ sampleRate, numChannels, samples }: WavData): number {
+  return (samples.length / numChannels / sampleRate) * 1000;
+}